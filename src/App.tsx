@@ -1,52 +1,103 @@
-import { IText, Shadow } from "fabric";
+import { IText } from "fabric";
 import {
 	Download,
+	FolderOpen,
+	Command,
 	Hand,
 	History,
+	IdCard,
 	ImagePlus,
+	Keyboard,
+	LifeBuoy,
+	Magnet,
 	Moon,
 	Palette,
 	Plus,
+	Redo2,
+	Save,
+	Shapes,
 	Sun,
+	Undo2,
 	X,
 	ZoomIn,
 	ZoomOut,
 } from "lucide-react";
 import { useCallback, useEffect, useRef, useState } from "react";
+import { BlendModePanel } from "@/components/BlendModePanel";
+import { BrushSettingsPopover } from "@/components/BrushSettingsPopover";
+import { CalloutPanel } from "@/components/CalloutPanel";
+import {
+	CanvasGuidesOverlay,
+	CanvasRulers,
+} from "@/components/CanvasRulers";
+import { CharacterStylePanel } from "@/components/CharacterStylePanel";
 import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { CommandPalette } from "@/components/CommandPalette";
+import { CurvedTextPanel } from "@/components/CurvedTextPanel";
 import { FontSelector } from "@/components/FontSelector";
+import { GradientEditorPopover } from "@/components/GradientEditorPopover";
+import { GridSettingsPopover } from "@/components/GridSettingsPopover";
+import { LayersPanel } from "@/components/LayersPanel";
+import { NameplatePanel } from "@/components/NameplatePanel";
+import { PatternFillPopover } from "@/components/PatternFillPopover";
+import { RedactionPanel } from "@/components/RedactionPanel";
+import { RedactionPopover } from "@/components/RedactionPopover";
+import { ShapePanel } from "@/components/ShapePanel";
+import { ShapePicker } from "@/components/ShapePicker";
+import { ShortcutSettingsDialog } from "@/components/ShortcutSettingsDialog";
+import { TextEffectsPanel } from "@/components/TextEffectsPanel";
+import { TextParagraphPanel } from "@/components/TextParagraphPanel";
+import { TextPlatePanel } from "@/components/TextPlatePanel";
+import { TransformPanel } from "@/components/TransformPanel";
+import { VerticalLayoutPanel } from "@/components/VerticalLayoutPanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import {
 	Popover,
 	PopoverContent,
 	PopoverTrigger,
 } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
-import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useAutosave, useRecoveryRecords } from "@/hooks/useAutosave";
+import { useEditorCommands } from "@/hooks/useEditorCommands";
 import {
+	type AlignReference,
+	buildSnapshotKey,
 	fromVerticalText,
-	isTextVertical,
+	getTextLayoutMode,
+	mergeUniqueSnapshots,
+	type TextLayoutMode,
 	type TextStyleSnapshot,
 	useFabricEditor,
 } from "@/hooks/useFabricEditor";
+import {
+	getFillSwatchColor,
+	getTextFillStyle,
+	readTextFill,
+	type TextFill,
+} from "@/lib/gradient-fill";
+import { getObjectPlate } from "@/lib/canvas-snapshot";
+import { isPatternFill, isUploadedTexture } from "@/lib/pattern-fill";
+import { isProjectFile, PROJECT_FILE_EXTENSION } from "@/lib/project-file";
+import { getTextEffects, type TextEffect } from "@/lib/text-effects";
+import type { TextPlate } from "@/lib/text-plates";
 import { cn } from "@/lib/utils";
 import { useEditorStore } from "@/store/editor-store";
 import { DEFAULT_FONT_FAMILY } from "@/store/font-store";
+import { useCommandStore } from "@/store/command-store";
+import { useGuidesStore } from "@/store/guides-store";
+import { useHistoryStore } from "@/store/history-store";
 import { useStyleInheritanceStore } from "@/store/style-inheritance-store";
 
-type StrokeStyle = "outline" | "shadow" | "hybrid";
 type BatchFieldKey =
 	| "scale"
 	| "charSpacing"
 	| "fontWeight"
 	| "fontFamily"
 	| "opacity"
-	| "strokeEnabled"
-	| "strokeStyle"
-	| "strokeColor"
-	| "strokeWidth";
+	| "effects"
+	| "plate";
 
 interface MixedFieldState {
 	scale: boolean;
@@ -54,19 +105,18 @@ interface MixedFieldState {
 	fontWeight: boolean;
 	fontFamily: boolean;
 	opacity: boolean;
-	strokeEnabled: boolean;
-	strokeStyle: boolean;
-	strokeColor: boolean;
-	strokeWidth: boolean;
+	effects: boolean;
+	plate: boolean;
 }
 
-const STROKE_WIDTH_MIN = 1;
-const STROKE_WIDTH_MAX = 32;
-const BASE_TEXT_FONT_SIZE = 100;
+const TEXT_LAYOUT_OPTIONS: Array<{ mode: TextLayoutMode; label: string }> = [
+	{ mode: "horizontal", label: "横排" },
+	{ mode: "wrapped", label: "文本框" },
+	{ mode: "vertical", label: "竖排" },
+	{ mode: "curved", label: "曲线" },
+];
 
-function clamp(value: number, min: number, max: number): number {
-	return Math.min(max, Math.max(min, value));
-}
+const BASE_TEXT_FONT_SIZE = 100;
 
 function toPercentScale(scale: number): number {
 	return Math.round(scale * 100);
@@ -87,17 +137,6 @@ function toPositiveValue(value: number, fallback: number): number {
 	return value > 0 ? value : fallback;
 }
 
-function normalizeStrokeWidth(width: number): number {
-	return clamp(Math.round(width), STROKE_WIDTH_MIN, STROKE_WIDTH_MAX);
-}
-
-function getShadowBlur(width: number, soft: boolean): number {
-	const safeWidth = normalizeStrokeWidth(width);
-	return soft
-		? Math.max(4, Math.round(safeWidth * 3.2))
-		: Math.max(2, Math.round(safeWidth * 1.8 + 1));
-}
-
 interface InfiniteScaleRulerProps {
 	value: number;
 	onValueChange: (nextValue: number) => void;
@@ -293,23 +332,6 @@ function InfiniteSignedRuler({
 	);
 }
 
-function buildTextShadow(color: string, width: number, soft: boolean): Shadow {
-	return new Shadow({
-		color,
-		offsetX: 0,
-		offsetY: 0,
-		blur: getShadowBlur(width, soft),
-	});
-}
-
-function getStrokeStyleFromText(text: IText): StrokeStyle {
-	const hasStroke = !!text.stroke && (text.strokeWidth ?? 0) > 0;
-	const hasShadow = !!text.shadow;
-	if (hasShadow && hasStroke) return "hybrid";
-	if (hasShadow) return "shadow";
-	return "outline";
-}
-
 function getTextScalePercent(text: IText): number {
 	const effectiveScaleX =
 		((text.fontSize ?? BASE_TEXT_FONT_SIZE) / BASE_TEXT_FONT_SIZE) *
@@ -321,115 +343,35 @@ function getTextScalePercent(text: IText): number {
 	return Math.max(1, toPercentScale(uniformScale));
 }
 
-function getTextStrokeEnabled(text: IText): boolean {
-	const hasStroke = !!text.stroke && (text.strokeWidth ?? 0) > 0;
-	const hasShadow = !!text.shadow;
-	return hasStroke || hasShadow;
-}
-
-function getTextStrokeColor(text: IText): string {
-	const shadowColor = readShadowColor(text.shadow);
-	return typeof text.stroke === "string"
-		? text.stroke
-		: (shadowColor ?? "#ffffff");
-}
-
-function getTextStrokeWidthValue(text: IText): number {
-	const hasStroke = !!text.stroke && (text.strokeWidth ?? 0) > 0;
-	const shadow = text.shadow;
-	const inferredShadowStrength =
-		shadow instanceof Shadow
-			? normalizeStrokeWidth(Math.round(shadow.blur / 2))
-			: 4;
-	return hasStroke
-		? normalizeStrokeWidth(Math.round(text.strokeWidth ?? 4))
-		: Math.max(1, inferredShadowStrength);
-}
-
-function readShadowColor(shadow: IText["shadow"]): string | null {
-	if (!shadow) return null;
-	return typeof shadow.color === "string" ? shadow.color : null;
+/** Effect stacks compared without their ids */
+function getEffectsKey(text: IText): string {
+	return JSON.stringify(
+		getTextEffects(text).map((effect) => ({ ...effect, id: "" })),
+	);
 }
 
-function createStrokePatch(
-	enabled: boolean,
-	style: StrokeStyle,
-	color: string,
-	width: number,
-) {
-	const safeWidth = normalizeStrokeWidth(width);
-	if (!enabled) {
-		return {
-			stroke: null,
-			strokeWidth: 0,
-			shadow: null,
-		};
-	}
-
-	if (style === "outline") {
-		return {
-			stroke: color,
-			strokeWidth: safeWidth,
-			shadow: null,
-			paintFirst: "stroke" as const,
-		};
-	}
-
-	if (style === "shadow") {
-		return {
-			stroke: null,
-			strokeWidth: 0,
-			shadow: buildTextShadow(color, safeWidth, true),
-			paintFirst: "fill" as const,
-		};
-	}
-
-	return {
-		stroke: color,
-		strokeWidth: Math.max(1, Math.round(safeWidth * 0.6)),
-		shadow: buildTextShadow(color, safeWidth, false),
-		paintFirst: "stroke" as const,
-	};
+function getPlateKey(text: IText): string {
+	return JSON.stringify(getObjectPlate(text) ?? null);
 }
 
-function buildSnapshotKey(snapshot: TextStyleSnapshot): string {
-	return JSON.stringify([
-		snapshot.text,
-		snapshot.vertical,
-		snapshot.fill,
-		snapshot.fontFamily,
-		snapshot.fontSize,
-		snapshot.scaleX,
-		snapshot.scaleY,
-		snapshot.fontWeight,
-		snapshot.charSpacing,
-		snapshot.opacity,
-		snapshot.stroke,
-		snapshot.strokeWidth,
-		snapshot.shadowColor,
-		snapshot.shadowBlur,
-		snapshot.paintFirst,
-	]);
+function alertMissingFonts(families: string[]) {
+	if (!families.length) return;
+	window.alert(
+		`以下字体未能恢复，相关文字将以默认字体显示：${families.join("、")}`,
+	);
 }
 
-function mergeUniqueSnapshots(
-	current: TextStyleSnapshot[],
-	incoming: TextStyleSnapshot[],
-): TextStyleSnapshot[] {
-	if (incoming.length === 0) return current;
-
-	const seen = new Set(current.map((item) => buildSnapshotKey(item)));
-	const additions: TextStyleSnapshot[] = [];
-
-	for (const snapshot of incoming) {
-		const key = buildSnapshotKey(snapshot);
-		if (seen.has(key)) continue;
-		seen.add(key);
-		additions.push(snapshot);
-	}
-
-	if (additions.length === 0) return current;
-	return [...additions, ...current].slice(0, 40);
+/**
+ * Uploaded textures are data URLs too big for localStorage, so their IDs
+ * keep a plain colour in the history.
+ */
+function withoutUploadedTexture(
+	snapshot: TextStyleSnapshot,
+): TextStyleSnapshot {
+	const { fill } = snapshot;
+	return isPatternFill(fill) && isUploadedTexture(fill.source)
+		? { ...snapshot, fill: getFillSwatchColor(fill) }
+		: snapshot;
 }
 
 function useTheme() {
@@ -467,17 +409,25 @@ const HISTORY_STORAGE_KEY = "jx3-photo-maker:id-history";
 
 function App() {
 	const fileInputRef = useRef<HTMLInputElement | null>(null);
+	const projectInputRef = useRef<HTMLInputElement | null>(null);
 	const mixedConfirmCacheRef = useRef<Set<BatchFieldKey>>(new Set());
 	const canvas = useEditorStore((s) => s.canvas);
 	const activeObject = useEditorStore((s) => s.activeObject);
 	const activeObjectRevision = useEditorStore((s) => s.activeObjectRevision);
+	const snappingEnabled = useEditorStore((s) => s.snappingEnabled);
+	const setSnappingEnabled = useEditorStore((s) => s.setSnappingEnabled);
+	const rulersVisible = useGuidesStore((s) => s.rulersVisible);
 	const exportFormat = useEditorStore((s) => s.exportFormat);
 	const setExportFormat = useEditorStore((s) => s.setExportFormat);
+	const canUndo = useHistoryStore((s) => s.canUndo);
+	const canRedo = useHistoryStore((s) => s.canRedo);
 
+	const editor = useFabricEditor();
 	const {
 		canvasElRef,
 		containerRef,
 		image,
+		displayScale,
 		previewZoom,
 		setPreviewZoom,
 		loadLocalImage,
@@ -486,17 +436,54 @@ function App() {
 		getAllTextSnapshots,
 		addPreset,
 		presets,
+		addNameplate,
+		applyNameplate,
+		addShape,
+		applyShapeStyle,
+		addRedactionRect,
+		applyRedactionStyle,
 		applyToActiveText,
+		applyTextFill,
+		applyTextEffects,
+		applyTextPlate,
+		applyToTextSelection,
 		setActiveFontFamily,
-		setActiveTextVertical,
-		alignSelectedTexts,
-		distributeSelectedTexts,
+		setActiveTextLayout,
+		alignSelectedObjects,
+		distributeSelectedObjects,
+		transformSelection,
+		previewBlendMode,
+		applyBlendMode,
+		applyCallout,
+		applyVerticalLayout,
+		applyCurveLayout,
+		groupSelection,
+		ungroupSelection,
 		deleteActiveObject,
+		moveLayer,
+		moveLayerTo,
+		setLayerVisible,
+		setLayerLocked,
+		renameLayer,
+		selectLayer,
 		exportImage,
-	} = useFabricEditor();
+		saveProject,
+		openProject,
+		restoreRecovery,
+		undo,
+		redo,
+	} = editor;
 
 	const { dark, toggle: toggleTheme } = useTheme();
 
+	useAutosave();
+	const recoveryRecords = useRecoveryRecords();
+	const [recoveryDismissed, setRecoveryDismissed] = useState(false);
+	const [recoveryRestoring, setRecoveryRestoring] = useState(false);
+	const latestRecovery = recoveryRecords[0];
+	const showRecoveryPrompt =
+		!image && !recoveryDismissed && latestRecovery !== undefined;
+
 	const activeText = activeObject instanceof IText ? activeObject : null;
 	const selectedTexts = (() => {
 		if (!canvas) return activeText ? [activeText] : [];
@@ -508,23 +495,30 @@ function App() {
 	})();
 	const hasTextSelection = selectedTexts.length > 0;
 	const isBatchMode = selectedTexts.length > 1;
-	const canDistribute = selectedTexts.length > 2;
+	const hasSelection = !!activeObject;
+	const selectedObjectCount = canvas?.getActiveObjects().length ?? 0;
+	const [alignReferenceValue, setAlignReferenceValue] =
+		useState<AlignReference>("selection");
+	// A single object can only be aligned against the canvas
+	const alignReference: AlignReference =
+		selectedObjectCount > 1 ? alignReferenceValue : "canvas";
+	const canDistribute =
+		alignReference === "canvas" || selectedObjectCount > 2;
 
 	const [textValue, setTextValue] = useState("");
-	const [fillValue, setFillValue] = useState("#000000");
+	const [fillValue, setFillValue] = useState<TextFill>("#000000");
 	const [fontFamilyValue, setFontFamilyValue] = useState(DEFAULT_FONT_FAMILY);
 	const [textScaleValue, setTextScaleValue] = useState(100);
 	const [fontWeightValue, setFontWeightValue] = useState(700);
 	const [charSpacingValue, setCharSpacingValue] = useState(0);
 	const [opacityValue, setOpacityValue] = useState(1);
-	const [strokeEnabled, setStrokeEnabled] = useState(false);
-	const [strokeStyleValue, setStrokeStyleValue] =
-		useState<StrokeStyle>("outline");
-	const [strokeColor, setStrokeColor] = useState("#ffffff");
-	const [strokeWidthValue, setStrokeWidthValue] = useState(4);
-	const [isVerticalValue, setIsVerticalValue] = useState(true);
+	const [effectsValue, setEffectsValue] = useState<TextEffect[]>([]);
+	const [plateValue, setPlateValue] = useState<TextPlate | null>(null);
+	const [textLayoutValue, setTextLayoutValue] =
+		useState<TextLayoutMode>("vertical");
 	const [presetPopoverOpen, setPresetPopoverOpen] = useState(false);
 	const [historyPopoverOpen, setHistoryPopoverOpen] = useState(false);
+	const [shapePopoverOpen, setShapePopoverOpen] = useState(false);
 	const [isDesktop, setIsDesktop] = useState(() => {
 		if (typeof window === "undefined") return false;
 		return window.matchMedia("(min-width: 1024px)").matches;
@@ -532,27 +526,17 @@ function App() {
 	const [idHistory, setIdHistory] = useState<TextStyleSnapshot[]>(() => {
 		try {
 			const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
-			if (stored) return JSON.parse(stored) as TextStyleSnapshot[];
+			if (stored) {
+				const history = JSON.parse(stored) as TextStyleSnapshot[];
+				// Drops copies saved while keys still held effect ids
+				return mergeUniqueSnapshots([], history.map(withoutUploadedTexture));
+			}
 		} catch {
 			/* ignore */
 		}
 		return [];
 	});
 
-	const applyStrokeStyle = useCallback(
-		(enabled: boolean, style: StrokeStyle, color: string, width: number) => {
-			const safeWidth = normalizeStrokeWidth(width);
-			applyToActiveText(createStrokePatch(enabled, style, color, safeWidth));
-			useStyleInheritanceStore.getState().setInheritedStyle({
-				strokeEnabled: enabled,
-				strokeStyle: style,
-				strokeColor: color,
-				strokeWidth: safeWidth,
-			});
-		},
-		[applyToActiveText],
-	);
-
 	const applyTextScale = useCallback(
 		(nextValue: number) => {
 			const nextScalePercent = Math.max(
@@ -586,10 +570,8 @@ function App() {
 				fontWeight: false,
 				fontFamily: false,
 				opacity: false,
-				strokeEnabled: false,
-				strokeStyle: false,
-				strokeColor: false,
-				strokeWidth: false,
+				effects: false,
+				plate: false,
 			};
 		}
 
@@ -601,10 +583,8 @@ function App() {
 				fontWeight: false,
 				fontFamily: false,
 				opacity: false,
-				strokeEnabled: false,
-				strokeStyle: false,
-				strokeColor: false,
-				strokeWidth: false,
+				effects: false,
+				plate: false,
 			};
 		}
 
@@ -616,10 +596,8 @@ function App() {
 				: Number(first.fontWeight ?? 700);
 		const firstFontFamily = first.fontFamily ?? DEFAULT_FONT_FAMILY;
 		const firstOpacity = first.opacity ?? 1;
-		const firstStrokeEnabled = getTextStrokeEnabled(first);
-		const firstStrokeStyle = getStrokeStyleFromText(first);
-		const firstStrokeColor = getTextStrokeColor(first);
-		const firstStrokeWidth = getTextStrokeWidthValue(first);
+		const firstEffects = getEffectsKey(first);
+		const firstPlate = getPlateKey(first);
 
 		return {
 			scale: rest.some((item) => getTextScalePercent(item) !== firstScale),
@@ -637,18 +615,8 @@ function App() {
 				(item) => (item.fontFamily ?? DEFAULT_FONT_FAMILY) !== firstFontFamily,
 			),
 			opacity: rest.some((item) => (item.opacity ?? 1) !== firstOpacity),
-			strokeEnabled: rest.some(
-				(item) => getTextStrokeEnabled(item) !== firstStrokeEnabled,
-			),
-			strokeStyle: rest.some(
-				(item) => getStrokeStyleFromText(item) !== firstStrokeStyle,
-			),
-			strokeColor: rest.some(
-				(item) => getTextStrokeColor(item) !== firstStrokeColor,
-			),
-			strokeWidth: rest.some(
-				(item) => getTextStrokeWidthValue(item) !== firstStrokeWidth,
-			),
+			effects: rest.some((item) => getEffectsKey(item) !== firstEffects),
+			plate: rest.some((item) => getPlateKey(item) !== firstPlate),
 		};
 	})();
 
@@ -678,15 +646,14 @@ function App() {
 		const primaryText = selectedTexts[0];
 		if (!primaryText) return;
 
-		const vertical = isTextVertical(primaryText);
+		const layout = getTextLayoutMode(primaryText);
+		const vertical = layout === "vertical";
 		// eslint-disable-next-line react-hooks/set-state-in-effect
-		setIsVerticalValue(vertical);
+		setTextLayoutValue(layout);
 
 		const rawText = primaryText.text ?? "";
 		setTextValue(vertical ? fromVerticalText(rawText) : rawText);
-		setFillValue(
-			typeof primaryText.fill === "string" ? primaryText.fill : "#000000",
-		);
+		setFillValue(readTextFill(primaryText.fill));
 		setFontFamilyValue(primaryText.fontFamily ?? DEFAULT_FONT_FAMILY);
 		const nextScalePercent = getTextScalePercent(primaryText);
 		setTextScaleValue(nextScalePercent);
@@ -698,10 +665,8 @@ function App() {
 		setCharSpacingValue(primaryText.charSpacing ?? 0);
 		setOpacityValue(primaryText.opacity ?? 1);
 
-		setStrokeEnabled(getTextStrokeEnabled(primaryText));
-		setStrokeStyleValue(getStrokeStyleFromText(primaryText));
-		setStrokeColor(getTextStrokeColor(primaryText));
-		setStrokeWidthValue(getTextStrokeWidthValue(primaryText));
+		setEffectsValue(getTextEffects(primaryText));
+		setPlateValue(getObjectPlate(primaryText) ?? null);
 
 		useStyleInheritanceStore.getState().setInheritedStyle({
 			fontFamily: primaryText.fontFamily ?? DEFAULT_FONT_FAMILY,
@@ -730,22 +695,48 @@ function App() {
 		fileInputRef.current?.click();
 	}
 
+	function openProjectPicker() {
+		projectInputRef.current?.click();
+	}
+
+	// Warns once per failure streak, not on every change
+	const historySaveFailedRef = useRef(false);
 	useEffect(() => {
 		try {
 			localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(idHistory));
+			historySaveFailedRef.current = false;
 		} catch {
-			/* ignore */
+			if (historySaveFailedRef.current) return;
+			historySaveFailedRef.current = true;
+			window.alert(
+				"ID 历史保存失败：浏览器存储空间不足，刷新页面后新记录将丢失",
+			);
 		}
 	}, [idHistory]);
 
 	async function onPickFile(file: File | null) {
 		if (!file) return;
+		if (isProjectFile(file)) {
+			await onPickProject(file);
+			return;
+		}
 		await loadLocalImage(file);
 	}
 
+	async function onPickProject(file: File | null) {
+		if (!file) return;
+		try {
+			alertMissingFonts(await openProject(file));
+		} catch (err) {
+			window.alert(err instanceof Error ? err.message : "项目文件打开失败");
+		}
+	}
+
 	const captureCurrentIds = useCallback(() => {
 		const snapshots = getAllTextSnapshots();
-		setIdHistory((prev) => mergeUniqueSnapshots(prev, snapshots));
+		setIdHistory((prev) =>
+			mergeUniqueSnapshots(prev, snapshots.map(withoutUploadedTexture)),
+		);
 	}, [getAllTextSnapshots]);
 
 	const removeHistoryItem = useCallback((key: string) => {
@@ -754,17 +745,30 @@ function App() {
 		);
 	}, []);
 
+	async function handleRestoreRecovery() {
+		setRecoveryRestoring(true);
+		const missingFonts = await restoreRecovery(recoveryRecords);
+		setRecoveryRestoring(false);
+		setRecoveryDismissed(true);
+		if (missingFonts) alertMissingFonts(missingFonts);
+		else window.alert("恢复失败：自动保存的数据已损坏");
+	}
+
 	const handleExport = useCallback(async () => {
 		captureCurrentIds();
 		await exportImage(exportFormat);
 	}, [captureCurrentIds, exportFormat, exportImage]);
 
-	const strokeWidthLabel =
-		strokeStyleValue === "outline"
-			? "描边粗细"
-			: strokeStyleValue === "shadow"
-				? "阴影强度"
-				: "描边/阴影强度";
+	useEditorCommands({
+		editor,
+		openImagePicker: openFilePicker,
+		openProjectPicker,
+		exportImage: handleExport,
+	});
+	const setPaletteOpen = useCommandStore((s) => s.setPaletteOpen);
+	const setShortcutSettingsOpen = useCommandStore(
+		(s) => s.setShortcutSettingsOpen,
+	);
 
 	return (
 		<div className="h-svh w-full overflow-hidden bg-background text-foreground">
@@ -772,7 +776,10 @@ function App() {
 				<div className="relative min-h-0 min-w-0 flex-1">
 					<main
 						ref={containerRef}
-						className="h-full overflow-auto bg-muted/20 p-2 sm:p-4"
+						className={cn(
+							"h-full overflow-auto bg-muted/20 p-2 sm:p-4",
+							image && rulersVisible && "pt-7 pl-7 sm:pt-9 sm:pl-9",
+						)}
 						aria-label="图片上传与编辑区域"
 						onDragOver={(e) => e.preventDefault()}
 						onDrop={async (e) => {
@@ -784,10 +791,43 @@ function App() {
 						<div className="flex min-h-full min-w-full">
 							{!image && (
 								<div className="m-auto flex min-h-[220px] w-full max-w-[720px] shrink-0 flex-col items-center justify-center gap-3 rounded-lg border border-dashed bg-background/80 p-4 text-center sm:p-6">
+									{showRecoveryPrompt && latestRecovery && (
+										<div className="flex w-full flex-col items-center gap-2 rounded-md border border-primary/30 bg-primary/5 px-3 py-2 text-xs text-primary sm:flex-row">
+											<LifeBuoy className="size-4 shrink-0" />
+											<span className="flex-1 text-left">
+												检测到上次未导出的编辑（
+												{new Date(latestRecovery.savedAt).toLocaleString()}
+												），是否恢复？
+											</span>
+											<div className="flex items-center gap-1.5">
+												<Button
+													size="xs"
+													disabled={recoveryRestoring}
+													onClick={() => void handleRestoreRecovery()}
+												>
+													恢复上次编辑
+												</Button>
+												<Button
+													size="xs"
+													variant="ghost"
+													disabled={recoveryRestoring}
+													onClick={() => setRecoveryDismissed(true)}
+												>
+													忽略
+												</Button>
+											</div>
+										</div>
+									)}
 									<div className="text-sm text-muted-foreground">
 										拖拽上传剑网三截图，或点击选择文件（纯浏览器本地处理）
 									</div>
-									<Button onClick={openFilePicker}>选择图片</Button>
+									<div className="flex items-center gap-2">
+										<Button onClick={openFilePicker}>选择图片</Button>
+										<Button variant="outline" onClick={openProjectPicker}>
+											<FolderOpen className="size-4" />
+											打开项目
+										</Button>
+									</div>
 								</div>
 							)}
 
@@ -797,6 +837,12 @@ function App() {
 								}
 							>
 								<canvas ref={canvasElRef} className="rounded-lg shadow-sm" />
+								{image && (
+									<CanvasGuidesOverlay
+										canvasElRef={canvasElRef}
+										imageSize={image}
+									/>
+								)}
 							</div>
 
 							<input
@@ -810,9 +856,29 @@ function App() {
 									await onPickFile(file);
 								}}
 							/>
+							<input
+								ref={projectInputRef}
+								type="file"
+								accept={`${PROJECT_FILE_EXTENSION},application/json`}
+								className="hidden"
+								onChange={async (e) => {
+									const file = e.target.files?.[0] ?? null;
+									e.target.value = "";
+									await onPickProject(file);
+								}}
+							/>
 						</div>
 					</main>
 
+					{image && rulersVisible && (
+						<CanvasRulers
+							canvasElRef={canvasElRef}
+							containerRef={containerRef}
+							imageSize={image}
+							displayScale={displayScale}
+						/>
+					)}
+
 					{!isDesktop && (
 						<div className="pointer-events-none absolute right-2 top-2 z-20">
 							<Button
@@ -848,6 +914,43 @@ function App() {
 									>
 										<ImagePlus className="size-3.5" />
 									</Button>
+									<Button
+										size="icon-sm"
+										variant="outline"
+										title="撤销 (Ctrl+Z)"
+										disabled={!canUndo}
+										onClick={() => void undo()}
+									>
+										<Undo2 className="size-3.5" />
+									</Button>
+									<Button
+										size="icon-sm"
+										variant="outline"
+										title="重做 (Ctrl+Shift+Z)"
+										disabled={!canRedo}
+										onClick={() => void redo()}
+									>
+										<Redo2 className="size-3.5" />
+									</Button>
+									<Button
+										size="icon-sm"
+										variant={snappingEnabled ? "secondary" : "outline"}
+										title={
+											snappingEnabled
+												? "智能吸附：开（拖动时按住 Ctrl 临时关闭）"
+												: "智能吸附：关"
+										}
+										aria-pressed={snappingEnabled}
+										onClick={() => setSnappingEnabled(!snappingEnabled)}
+									>
+										<Magnet className="size-3.5" />
+									</Button>
+									<GridSettingsPopover />
+									<BrushSettingsPopover />
+									<RedactionPopover
+										disabled={!image}
+										onAddRect={addRedactionRect}
+									/>
 									<div className="h-4 w-px bg-border" />
 									<Button
 										size="icon-sm"
@@ -899,6 +1002,43 @@ function App() {
 												<ImagePlus className="size-4" />
 												选择图片
 											</Button>
+											<Button
+												size="icon-sm"
+												variant="outline"
+												onClick={openProjectPicker}
+												aria-label="打开项目"
+												title="打开项目"
+											>
+												<FolderOpen className="size-4" />
+											</Button>
+											<Button
+												size="icon-sm"
+												variant="outline"
+												disabled={!image}
+												onClick={saveProject}
+												aria-label="保存项目"
+												title="保存项目"
+											>
+												<Save className="size-4" />
+											</Button>
+											<Button
+												size="icon-sm"
+												variant="ghost"
+												onClick={() => setPaletteOpen(true)}
+												aria-label="命令面板"
+												title="命令面板 (Ctrl+K)"
+											>
+												<Command className="size-4" />
+											</Button>
+											<Button
+												size="icon-sm"
+												variant="ghost"
+												onClick={() => setShortcutSettingsOpen(true)}
+												aria-label="快捷键设置"
+												title="快捷键设置"
+											>
+												<Keyboard className="size-4" />
+											</Button>
 											<Button
 												size="icon-sm"
 												variant="ghost"
@@ -938,7 +1078,9 @@ function App() {
 											open={presetPopoverOpen}
 											onOpenChange={(open) => {
 												setPresetPopoverOpen(open);
-												if (open) setHistoryPopoverOpen(false);
+												if (!open) return;
+												setHistoryPopoverOpen(false);
+												setShapePopoverOpen(false);
 											}}
 										>
 											<PopoverTrigger asChild>
@@ -984,11 +1126,60 @@ function App() {
 											</PopoverContent>
 										</Popover>
 
+										<Button
+											variant="outline"
+											size="icon-xs"
+											disabled={!image}
+											onClick={() => {
+												void addNameplate();
+											}}
+											title="添加名牌"
+											aria-label="添加名牌"
+										>
+											<IdCard className="size-3.5" />
+										</Button>
+
+										<Popover
+											open={shapePopoverOpen}
+											onOpenChange={(open) => {
+												setShapePopoverOpen(open);
+												if (!open) return;
+												setPresetPopoverOpen(false);
+												setHistoryPopoverOpen(false);
+											}}
+										>
+											<PopoverTrigger asChild>
+												<Button
+													variant="outline"
+													size="icon-xs"
+													disabled={!image}
+													title="添加形状"
+													aria-label="添加形状"
+												>
+													<Shapes className="size-3.5" />
+												</Button>
+											</PopoverTrigger>
+											<PopoverContent
+												side="bottom"
+												align="start"
+												className="w-[240px] p-3"
+											>
+												<ShapePicker
+													onPick={(kind) => {
+														addShape(kind);
+														setShapePopoverOpen(false);
+													}}
+												/>
+											</PopoverContent>
+										</Popover>
+
 										<Popover
 											open={historyPopoverOpen}
 											onOpenChange={(open) => {
 												setHistoryPopoverOpen(open);
-												if (open) setPresetPopoverOpen(false);
+												if (!open) return;
+												setPresetPopoverOpen(false);
+												setShapePopoverOpen(false);
 											}}
 										>
 											<PopoverTrigger asChild>
@@ -1033,7 +1224,7 @@ function App() {
 																	<button
 																		type="button"
 																		onClick={() => {
-																			addTextFromSnapshot(item);
+																			void addTextFromSnapshot(item);
 																		}}
 																		className="flex min-w-0 flex-1 items-center gap-1.5 px-2 py-1.5 text-left"
 																	>
@@ -1054,7 +1245,7 @@ function App() {
 																		<span
 																			className="truncate"
 																			style={{
-																				color: item.fill,
+																				...getTextFillStyle(item.fill),
 																				fontFamily: item.fontFamily,
 																				fontWeight: item.fontWeight,
 																			}}
@@ -1081,6 +1272,35 @@ function App() {
 											</PopoverContent>
 										</Popover>
 
+										<Button
+											variant="outline"
+											size="icon-xs"
+											onClick={openProjectPicker}
+											title="打开项目"
+											aria-label="打开项目"
+										>
+											<FolderOpen className="size-3.5" />
+										</Button>
+										<Button
+											variant="outline"
+											size="icon-xs"
+											disabled={!image}
+											onClick={saveProject}
+											title="保存项目"
+											aria-label="保存项目"
+										>
+											<Save className="size-3.5" />
+										</Button>
+										<Button
+											variant="outline"
+											size="icon-xs"
+											onClick={() => setPaletteOpen(true)}
+											title="命令面板"
+											aria-label="命令面板"
+										>
+											<Command className="size-3.5" />
+										</Button>
+
 										<div className="ml-auto flex items-center rounded-md border p-0.5">
 											<Button
 												type="button"
@@ -1167,7 +1387,9 @@ function App() {
 											open={presetPopoverOpen}
 											onOpenChange={(open) => {
 												setPresetPopoverOpen(open);
-												if (open) setHistoryPopoverOpen(false);
+												if (!open) return;
+												setHistoryPopoverOpen(false);
+												setShapePopoverOpen(false);
 											}}
 										>
 											<PopoverTrigger asChild>
@@ -1212,11 +1434,53 @@ function App() {
 											</PopoverContent>
 										</Popover>
 
+										<Button
+											variant="outline"
+											disabled={!image}
+											onClick={() => {
+												void addNameplate();
+											}}
+										>
+											<IdCard className="size-4" />
+											名牌
+										</Button>
+
+										<Popover
+											open={shapePopoverOpen}
+											onOpenChange={(open) => {
+												setShapePopoverOpen(open);
+												if (!open) return;
+												setPresetPopoverOpen(false);
+												setHistoryPopoverOpen(false);
+											}}
+										>
+											<PopoverTrigger asChild>
+												<Button variant="outline" disabled={!image}>
+													<Shapes className="size-4" />
+													形状
+												</Button>
+											</PopoverTrigger>
+											<PopoverContent
+												side="bottom"
+												align="start"
+												className="w-[240px] p-3"
+											>
+												<ShapePicker
+													onPick={(kind) => {
+														addShape(kind);
+														setShapePopoverOpen(false);
+													}}
+												/>
+											</PopoverContent>
+										</Popover>
+
 										<Popover
 											open={historyPopoverOpen}
 											onOpenChange={(open) => {
 												setHistoryPopoverOpen(open);
-												if (open) setPresetPopoverOpen(false);
+												if (!open) return;
+												setPresetPopoverOpen(false);
+												setShapePopoverOpen(false);
 											}}
 										>
 											<PopoverTrigger asChild>
@@ -1259,7 +1523,7 @@ function App() {
 																	<button
 																		type="button"
 																		onClick={() => {
-																			addTextFromSnapshot(item);
+																			void addTextFromSnapshot(item);
 																		}}
 																		className="flex min-w-0 flex-1 items-center gap-1.5 px-2 py-1.5 text-left"
 																	>
@@ -1280,7 +1544,7 @@ function App() {
 																		<span
 																			className="truncate"
 																			style={{
-																				color: item.fill,
+																				...getTextFillStyle(item.fill),
 																				fontFamily: item.fontFamily,
 																				fontWeight: item.fontWeight,
 																			}}
@@ -1313,6 +1577,26 @@ function App() {
 
 						<div className="h-px bg-border" />
 
+						{image && (
+							<>
+								<div className="flex flex-col gap-3">
+									<div className="text-sm font-semibold">图层</div>
+									<LayersPanel
+										onMove={moveLayer}
+										onMoveTo={moveLayerTo}
+										onVisibleChange={setLayerVisible}
+										onLockedChange={setLayerLocked}
+										onRename={renameLayer}
+										onSelect={selectLayer}
+										onGroup={groupSelection}
+										onUngroup={ungroupSelection}
+									/>
+								</div>
+
+								<div className="h-px bg-border" />
+							</>
+						)}
+
 						<div className="flex flex-col gap-3">
 							<div className="text-sm font-semibold">属性编辑</div>
 							{!hasTextSelection && (
@@ -1321,6 +1605,146 @@ function App() {
 								</div>
 							)}
 
+							{hasSelection && (
+								<div className="grid gap-2">
+									<div className="flex items-center justify-between">
+										<div className="text-xs text-muted-foreground">对齐</div>
+										<div className="flex items-center rounded-md border p-0.5">
+											<Button
+												type="button"
+												size="xs"
+												variant={
+													alignReference === "selection" ? "default" : "ghost"
+												}
+												disabled={selectedObjectCount < 2}
+												onClick={() => setAlignReferenceValue("selection")}
+											>
+												选区
+											</Button>
+											<Button
+												type="button"
+												size="xs"
+												variant={
+													alignReference === "canvas" ? "default" : "ghost"
+												}
+												onClick={() => setAlignReferenceValue("canvas")}
+											>
+												画布
+											</Button>
+										</div>
+									</div>
+									<div className="grid grid-cols-3 gap-2">
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											onClick={() => alignSelectedObjects("left", alignReference)}
+										>
+											左对齐
+										</Button>
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											onClick={() =>
+												alignSelectedObjects("center-horizontal", alignReference)
+											}
+										>
+											水平居中
+										</Button>
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											onClick={() =>
+												alignSelectedObjects("right", alignReference)
+											}
+										>
+											右对齐
+										</Button>
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											onClick={() => alignSelectedObjects("top", alignReference)}
+										>
+											顶对齐
+										</Button>
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											onClick={() =>
+												alignSelectedObjects("center-vertical", alignReference)
+											}
+										>
+											垂直居中
+										</Button>
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											onClick={() =>
+												alignSelectedObjects("bottom", alignReference)
+											}
+										>
+											底对齐
+										</Button>
+									</div>
+
+									<div className="text-xs text-muted-foreground">
+										等距分布
+									</div>
+									<div className="grid grid-cols-2 gap-2">
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											disabled={!canDistribute}
+											onClick={() =>
+												distributeSelectedObjects("horizontal", alignReference)
+											}
+										>
+											水平等距
+										</Button>
+										<Button
+											type="button"
+											size="xs"
+											variant="outline"
+											disabled={!canDistribute}
+											onClick={() =>
+												distributeSelectedObjects("vertical", alignReference)
+											}
+										>
+											垂直等距
+										</Button>
+									</div>
+								</div>
+							)}
+
+							{hasSelection && (
+								<div className="grid gap-2">
+									<div className="text-xs text-muted-foreground">变换</div>
+									<TransformPanel onChange={transformSelection} />
+									<BlendModePanel
+										onPreview={previewBlendMode}
+										onChange={applyBlendMode}
+									/>
+								</div>
+							)}
+
+							<NameplatePanel
+								onChange={(patch) => {
+									void applyNameplate(patch);
+								}}
+							/>
+
+							<CalloutPanel onChange={applyCallout} />
+
+							<ShapePanel onChange={applyShapeStyle} />
+
+							<RedactionPanel onChange={applyRedactionStyle} />
+
 							{hasTextSelection && (
 								<div className="flex flex-col gap-4">
 									{isBatchMode && (
@@ -1333,97 +1757,32 @@ function App() {
 											<div className="text-xs font-medium text-primary">
 												ID 内容
 											</div>
-											<Input
-												className="border-primary bg-primary/10 text-foreground focus-visible:border-primary focus-visible:ring-primary/30"
-												placeholder="输入角色 ID..."
-												value={textValue}
-												onChange={(e) => {
-													setTextValue(e.target.value);
-													applyToActiveText({ text: e.target.value });
-												}}
-											/>
-										</div>
-									)}
-
-									{isBatchMode && (
-										<div className="grid gap-2">
-											<div className="text-xs text-muted-foreground">对齐</div>
-											<div className="grid grid-cols-3 gap-2">
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													onClick={() => alignSelectedTexts("left")}
-												>
-													左对齐
-												</Button>
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													onClick={() =>
-														alignSelectedTexts("center-horizontal")
+											{textLayoutValue === "vertical" ||
+											textLayoutValue === "wrapped" ? (
+												<Textarea
+													className="min-h-9 resize-none border-primary bg-primary/10 text-foreground focus-visible:border-primary focus-visible:ring-primary/30"
+													placeholder={
+														textLayoutValue === "vertical"
+															? "输入角色 ID...（换行即另起一列，从右往左排）"
+															: "输入角色 ID...（超出文本框宽度自动换行）"
 													}
-												>
-													水平居中
-												</Button>
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													onClick={() => alignSelectedTexts("right")}
-												>
-													右对齐
-												</Button>
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													onClick={() => alignSelectedTexts("top")}
-												>
-													顶对齐
-												</Button>
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													onClick={() => alignSelectedTexts("center-vertical")}
-												>
-													垂直居中
-												</Button>
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													onClick={() => alignSelectedTexts("bottom")}
-												>
-													底对齐
-												</Button>
-											</div>
-
-											<div className="text-xs text-muted-foreground">
-												等距分布
-											</div>
-											<div className="grid grid-cols-2 gap-2">
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													disabled={!canDistribute}
-													onClick={() => distributeSelectedTexts("horizontal")}
-												>
-													水平等距
-												</Button>
-												<Button
-													type="button"
-													size="xs"
-													variant="outline"
-													disabled={!canDistribute}
-													onClick={() => distributeSelectedTexts("vertical")}
-												>
-													垂直等距
-												</Button>
-											</div>
+													value={textValue}
+													onChange={(e) => {
+														setTextValue(e.target.value);
+														applyToActiveText({ text: e.target.value });
+													}}
+												/>
+											) : (
+												<Input
+													className="border-primary bg-primary/10 text-foreground focus-visible:border-primary focus-visible:ring-primary/30"
+													placeholder="输入角色 ID..."
+													value={textValue}
+													onChange={(e) => {
+														setTextValue(e.target.value);
+														applyToActiveText({ text: e.target.value });
+													}}
+												/>
+											)}
 										</div>
 									)}
 
@@ -1431,42 +1790,67 @@ function App() {
 										<div className="flex flex-wrap items-center gap-2">
 											<div className="text-xs text-muted-foreground">排版</div>
 											<div className="flex items-center rounded-md border p-0.5">
-												<Button
-													type="button"
-													size="xs"
-													variant={!isVerticalValue ? "default" : "ghost"}
-													onClick={() => {
-														setIsVerticalValue(false);
-														setActiveTextVertical(false);
-													}}
-												>
-													横排
-												</Button>
-												<Button
-													type="button"
-													size="xs"
-													variant={isVerticalValue ? "default" : "ghost"}
-													onClick={() => {
-														setIsVerticalValue(true);
-														setActiveTextVertical(true);
-													}}
-												>
-													竖排
-												</Button>
+												{TEXT_LAYOUT_OPTIONS.map(({ mode, label }) => (
+													<Button
+														key={mode}
+														type="button"
+														size="xs"
+														variant={textLayoutValue === mode ? "default" : "ghost"}
+														onClick={() => {
+															setTextLayoutValue(mode);
+															void setActiveTextLayout(mode);
+														}}
+													>
+														{label}
+													</Button>
+												))}
 											</div>
 											<div className="ml-auto sm:ml-auto">
-												<ColorPickerPopover
-													label="颜色"
-													color={fillValue}
-													onChange={(c) => {
-														setFillValue(c);
-														applyToActiveText({ fill: c });
-													}}
-												/>
+												<div className="flex items-center gap-2">
+													<ColorPickerPopover
+														label="颜色"
+														color={getFillSwatchColor(fillValue)}
+														onChange={(c) => {
+															setFillValue(c);
+															applyToActiveText({ fill: c });
+														}}
+													/>
+													<GradientEditorPopover
+														fill={fillValue}
+														onChange={(fill) => {
+															setFillValue(fill);
+															void applyTextFill(fill);
+														}}
+													/>
+													<PatternFillPopover
+														fill={fillValue}
+														onChange={(fill) => {
+															setFillValue(fill);
+															void applyTextFill(fill);
+														}}
+													/>
+												</div>
 											</div>
 										</div>
 									)}
 
+									{!isBatchMode && textLayoutValue === "vertical" && (
+										<VerticalLayoutPanel onChange={applyVerticalLayout} />
+									)}
+									{!isBatchMode && textLayoutValue === "curved" && (
+										<CurvedTextPanel onChange={applyCurveLayout} />
+									)}
+									{!isBatchMode &&
+										(textLayoutValue === "horizontal" ||
+											textLayoutValue === "wrapped") && (
+											<TextParagraphPanel onChange={applyToActiveText} />
+										)}
+									{!isBatchMode && (
+										<CharacterStylePanel
+											onChange={(patch) => void applyToTextSelection(patch)}
+										/>
+									)}
+
 									<FontSelector
 										value={fontFamilyValue}
 										onChange={(v) => {
@@ -1611,160 +1995,25 @@ function App() {
 										</div>
 									</div>
 
-									<div className="grid gap-2">
-										<div className="flex items-center justify-between">
-											<Label
-												htmlFor="stroke-toggle"
-												className="text-xs font-normal text-muted-foreground"
-											>
-												描边效果
-												{isBatchMode && mixedFields.strokeEnabled
-													? "（混合）"
-													: ""}
-											</Label>
-											<Switch
-												id="stroke-toggle"
-												checked={strokeEnabled}
-												onCheckedChange={(checked) => {
-													if (!ensureMixedFieldConfirmed("strokeEnabled"))
-														return;
-													setStrokeEnabled(checked);
-													applyStrokeStyle(
-														checked,
-														strokeStyleValue,
-														strokeColor,
-														strokeWidthValue,
-													);
-												}}
-											/>
-										</div>
-										{strokeEnabled && (
-											<div className="flex flex-col gap-3 rounded-md border p-3">
-												<div className="grid gap-2">
-													<div className="text-xs text-muted-foreground">
-														描边样式
-													</div>
-													<div className="grid grid-cols-3 items-center rounded-md border p-0.5">
-														<Button
-															type="button"
-															size="xs"
-															className="flex-1"
-															variant={
-																strokeStyleValue === "outline"
-																	? "default"
-																	: "ghost"
-															}
-															onClick={() => {
-																if (!ensureMixedFieldConfirmed("strokeStyle"))
-																	return;
-																setStrokeStyleValue("outline");
-																applyStrokeStyle(
-																	true,
-																	"outline",
-																	strokeColor,
-																	strokeWidthValue,
-																);
-															}}
-														>
-															描边
-														</Button>
-														<Button
-															type="button"
-															size="xs"
-															className="flex-1"
-															variant={
-																strokeStyleValue === "shadow"
-																	? "default"
-																	: "ghost"
-															}
-															onClick={() => {
-																if (!ensureMixedFieldConfirmed("strokeStyle"))
-																	return;
-																setStrokeStyleValue("shadow");
-																applyStrokeStyle(
-																	true,
-																	"shadow",
-																	strokeColor,
-																	strokeWidthValue,
-																);
-															}}
-														>
-															阴影
-														</Button>
-														<Button
-															type="button"
-															size="xs"
-															className="flex-1"
-															variant={
-																strokeStyleValue === "hybrid"
-																	? "default"
-																	: "ghost"
-															}
-															onClick={() => {
-																if (!ensureMixedFieldConfirmed("strokeStyle"))
-																	return;
-																setStrokeStyleValue("hybrid");
-																applyStrokeStyle(
-																	true,
-																	"hybrid",
-																	strokeColor,
-																	strokeWidthValue,
-																);
-															}}
-														>
-															混合
-														</Button>
-													</div>
-												</div>
-
-												<ColorPickerPopover
-													label="描边颜色"
-													color={strokeColor}
-													showSchoolPresets={false}
-													onChange={(c) => {
-														if (!ensureMixedFieldConfirmed("strokeColor"))
-															return;
-														setStrokeColor(c);
-														applyStrokeStyle(
-															true,
-															strokeStyleValue,
-															c,
-															strokeWidthValue,
-														);
-													}}
-												/>
+									<TextEffectsPanel
+										effects={effectsValue}
+										mixed={isBatchMode && mixedFields.effects}
+										onChange={(effects) => {
+											if (!ensureMixedFieldConfirmed("effects")) return;
+											setEffectsValue(effects);
+											applyTextEffects(effects);
+										}}
+									/>
 
-												<div className="flex items-center gap-3">
-													<div className="shrink-0 text-xs text-muted-foreground">
-														{strokeWidthLabel}
-														{isBatchMode && mixedFields.strokeWidth
-															? "（混合）"
-															: ""}
-													</div>
-													<Slider
-														value={[strokeWidthValue]}
-														min={STROKE_WIDTH_MIN}
-														max={STROKE_WIDTH_MAX}
-														step={1}
-														onValueChange={([v]) => {
-															if (!ensureMixedFieldConfirmed("strokeWidth"))
-																return;
-															setStrokeWidthValue(v);
-															applyStrokeStyle(
-																true,
-																strokeStyleValue,
-																strokeColor,
-																v,
-															);
-														}}
-													/>
-													<div className="w-6 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
-														{strokeWidthValue}
-													</div>
-												</div>
-											</div>
-										)}
-									</div>
+									<TextPlatePanel
+										plate={plateValue}
+										mixed={isBatchMode && mixedFields.plate}
+										onChange={(plate) => {
+											if (!ensureMixedFieldConfirmed("plate")) return;
+											setPlateValue(plate);
+											applyTextPlate(plate);
+										}}
+									/>
 
 									<Button variant="destructive" onClick={deleteActiveObject}>
 										删除
@@ -1775,6 +2024,8 @@ function App() {
 					</div>
 				</aside>
 			</div>
+			<CommandPalette />
+			<ShortcutSettingsDialog />
 		</div>
 	);
 }
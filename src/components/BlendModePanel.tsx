@@ -0,0 +1,96 @@
+import type { FabricObject } from "fabric";
+import { useRef } from "react";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	BLEND_MODES,
+	type BlendMode,
+	readBlendMode,
+	toCssBlendMode,
+} from "@/lib/blend-mode";
+import { isObjectLocked } from "@/lib/canvas-snapshot";
+import { useEditorStore } from "@/store/editor-store";
+
+interface BlendModePanelProps {
+	/** Shows a mode on the canvas while it is highlighted; null reverts */
+	onPreview: (mode: BlendMode | null) => void;
+	onChange: (mode: BlendMode) => void;
+}
+
+/** Two overlapping swatches blended with `mode`, as a hint of its look. */
+function BlendModeSwatch({ mode }: { mode: BlendMode }) {
+	return (
+		<span className="relative isolate size-4 shrink-0 overflow-hidden rounded-sm border bg-[linear-gradient(135deg,#1d3557,#e9c46a_55%,#f1faee)]">
+			<span
+				className="absolute inset-[3px] rounded-full bg-[#e63946]"
+				style={{ mixBlendMode: toCssBlendMode(mode) }}
+			/>
+		</span>
+	);
+}
+
+/** Blend mode of the selection against everything below it. */
+export function BlendModePanel({ onPreview, onChange }: BlendModePanelProps) {
+	const canvas = useEditorStore((s) => s.canvas);
+	useEditorStore((s) => s.activeObjectRevision);
+	useEditorStore((s) => s.layersRevision);
+	const committedRef = useRef(false);
+
+	const targets: FabricObject[] = (canvas?.getActiveObjects() ?? []).filter(
+		(obj) => !isObjectLocked(obj),
+	);
+	const [first, ...rest] = targets.map(readBlendMode);
+	if (!first) return null;
+
+	const mixed = rest.some((mode) => mode !== first);
+
+	const confirmMixed = () =>
+		!mixed ||
+		window.confirm(
+			"检测到混合值：当前选中的多个对象该属性不一致。确认后将统一覆盖为新值。",
+		);
+
+	return (
+		<div className="flex items-center gap-3">
+			<div className="w-16 shrink-0 text-xs text-muted-foreground">
+				混合模式
+			</div>
+			<Select
+				value={mixed ? "" : first}
+				onOpenChange={(open) => {
+					if (open) {
+						committedRef.current = false;
+						return;
+					}
+					if (!committedRef.current) onPreview(null);
+				}}
+				onValueChange={(value) => {
+					committedRef.current = true;
+					onPreview(null);
+					if (confirmMixed()) onChange(value as BlendMode);
+				}}
+			>
+				<SelectTrigger size="sm" className="flex-1">
+					<SelectValue placeholder="（混合）" />
+				</SelectTrigger>
+				<SelectContent position="popper" className="max-h-72">
+					{BLEND_MODES.map(({ mode, label }) => (
+						<SelectItem
+							key={mode}
+							value={mode}
+							onFocus={() => onPreview(mode)}
+						>
+							<BlendModeSwatch mode={mode} />
+							{label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+}
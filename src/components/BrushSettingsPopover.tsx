@@ -0,0 +1,144 @@
+import { Brush } from "lucide-react";
+import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { JX3_SCHOOL_PRESETS } from "@/constants/colors";
+import {
+	BRUSH_PRESET_KEYS,
+	BRUSH_PRESETS,
+	MAX_BRUSH_SMOOTHING,
+} from "@/lib/brushes";
+import { useBrushStore } from "@/store/brush-store";
+
+const MAX_BRUSH_WIDTH = 80;
+
+export function BrushSettingsPopover() {
+	const drawing = useBrushStore((s) => s.drawing);
+	const setDrawing = useBrushStore((s) => s.setDrawing);
+	const presetKey = useBrushStore((s) => s.presetKey);
+	const setPresetKey = useBrushStore((s) => s.setPresetKey);
+	const color = useBrushStore((s) => s.color);
+	const setColor = useBrushStore((s) => s.setColor);
+	const width = useBrushStore((s) => s.widths[s.presetKey]);
+	const setWidth = useBrushStore((s) => s.setWidth);
+	const smoothing = useBrushStore((s) => s.smoothing);
+	const setSmoothing = useBrushStore((s) => s.setSmoothing);
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>
+				<Button
+					size="icon-sm"
+					variant={drawing ? "secondary" : "outline"}
+					title="自由绘制 (B)"
+				>
+					<Brush className="size-3.5" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent side="top" align="end" className="w-72 p-3">
+				<div className="flex flex-col gap-3 text-sm">
+					<div className="flex items-center justify-between">
+						<Label htmlFor="brush-toggle">自由绘制</Label>
+						<Switch
+							id="brush-toggle"
+							checked={drawing}
+							onCheckedChange={setDrawing}
+						/>
+					</div>
+
+					<div className="flex items-center rounded-md border p-0.5">
+						{BRUSH_PRESET_KEYS.map((key) => (
+							<Button
+								key={key}
+								type="button"
+								size="xs"
+								className="flex-1"
+								variant={presetKey === key ? "default" : "ghost"}
+								onClick={() => {
+									setPresetKey(key);
+									setDrawing(true);
+								}}
+							>
+								{BRUSH_PRESETS[key].label}
+							</Button>
+						))}
+					</div>
+
+					<div className="grid grid-cols-7 gap-1">
+						{JX3_SCHOOL_PRESETS.map((school) => (
+							<button
+								key={school.key}
+								type="button"
+								title={school.label}
+								className={`flex h-8 w-8 items-center justify-center rounded-sm border transition-transform hover:scale-110 ${
+									color.toLowerCase() === school.color.toLowerCase()
+										? "ring-2 ring-ring ring-offset-1"
+										: ""
+								}`}
+								style={{ borderColor: school.color }}
+								onClick={() => setColor(school.color)}
+							>
+								<img
+									src={school.icon}
+									alt={school.label}
+									className="size-5"
+									draggable={false}
+								/>
+							</button>
+						))}
+					</div>
+					<ColorPickerPopover
+						label="颜色"
+						color={color}
+						onChange={setColor}
+						showSchoolPresets={false}
+					/>
+
+					<div className="flex items-center gap-3">
+						<div className="w-12 shrink-0 text-xs text-muted-foreground">
+							粗细
+						</div>
+						<Slider
+							className="flex-1"
+							value={[width]}
+							min={1}
+							max={MAX_BRUSH_WIDTH}
+							step={1}
+							onValueChange={([value = 1]) => setWidth(value)}
+						/>
+						<div className="w-8 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+							{width}
+						</div>
+					</div>
+					<div className="flex items-center gap-3">
+						<div className="w-12 shrink-0 text-xs text-muted-foreground">
+							平滑
+						</div>
+						<Slider
+							className="flex-1"
+							value={[smoothing]}
+							min={0}
+							max={MAX_BRUSH_SMOOTHING}
+							step={1}
+							onValueChange={([value = 0]) => setSmoothing(value)}
+						/>
+						<div className="w-8 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+							{smoothing}
+						</div>
+					</div>
+
+					<div className="text-xs text-muted-foreground">
+						每一笔都是单独的对象，关闭绘制后可选中、移动或删除
+					</div>
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+}
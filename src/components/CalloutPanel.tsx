@@ -0,0 +1,131 @@
+import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+	CALLOUT_HEAD_LABELS,
+	CALLOUT_HEADS,
+	CALLOUT_STYLE_LABELS,
+	CALLOUT_STYLES,
+	type Callout,
+	getCalloutColor,
+	isCalloutLabel,
+} from "@/lib/callout";
+import { getObjectCallout, isObjectLocked } from "@/lib/canvas-snapshot";
+import { useEditorStore } from "@/store/editor-store";
+
+const MAX_CALLOUT_WIDTH = 24;
+
+interface CalloutPanelProps {
+	/** null removes the lines of the selected labels */
+	onChange: (patch: Partial<Callout> | null) => void;
+}
+
+/** Leader lines from the selected labels to the spots they tag. */
+export function CalloutPanel({ onChange }: CalloutPanelProps) {
+	const canvas = useEditorStore((s) => s.canvas);
+	useEditorStore((s) => s.activeObjectRevision);
+
+	const labels = (canvas?.getActiveObjects() ?? []).filter(
+		(obj) => isCalloutLabel(obj) && !isObjectLocked(obj),
+	);
+	const [first] = labels;
+	if (!first) return null;
+
+	const callout = getObjectCallout(first);
+
+	return (
+		<div className="grid gap-2">
+			<div className="flex items-center justify-between">
+				<div className="text-xs text-muted-foreground">指引线</div>
+				<Switch
+					checked={!!callout}
+					title={callout ? "移除指引线" : "添加指引线"}
+					onCheckedChange={(checked) => onChange(checked ? {} : null)}
+				/>
+			</div>
+
+			{callout && (
+				<div className="flex flex-col gap-3 rounded-md border p-3">
+					<div className="flex items-center gap-3">
+						<div className="w-16 shrink-0 text-xs text-muted-foreground">
+							线型
+						</div>
+						<div className="flex items-center rounded-md border p-0.5">
+							{CALLOUT_STYLES.map((style) => (
+								<Button
+									key={style}
+									type="button"
+									size="xs"
+									variant={callout.style === style ? "default" : "ghost"}
+									onClick={() => onChange({ style })}
+								>
+									{CALLOUT_STYLE_LABELS[style]}
+								</Button>
+							))}
+						</div>
+					</div>
+
+					<div className="flex items-center gap-3">
+						<div className="w-16 shrink-0 text-xs text-muted-foreground">
+							端点
+						</div>
+						<div className="flex items-center rounded-md border p-0.5">
+							{CALLOUT_HEADS.map((head) => (
+								<Button
+									key={head}
+									type="button"
+									size="xs"
+									variant={callout.head === head ? "default" : "ghost"}
+									onClick={() => onChange({ head })}
+								>
+									{CALLOUT_HEAD_LABELS[head]}
+								</Button>
+							))}
+						</div>
+					</div>
+
+					<div className="flex items-center gap-3">
+						<div className="w-16 shrink-0 text-xs text-muted-foreground">
+							粗细
+						</div>
+						<Slider
+							className="flex-1"
+							value={[callout.width]}
+							min={1}
+							max={MAX_CALLOUT_WIDTH}
+							step={1}
+							onValueChange={([width = 1]) => onChange({ width })}
+						/>
+						<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+							{callout.width}
+						</div>
+					</div>
+
+					<div className="flex items-center gap-2">
+						<div className="flex-1">
+							<ColorPickerPopover
+								label="颜色"
+								color={getCalloutColor(first, callout)}
+								onChange={(color) => onChange({ color })}
+							/>
+						</div>
+						<Button
+							type="button"
+							size="xs"
+							variant={callout.color === null ? "default" : "outline"}
+							title="使用文字的门派颜色"
+							onClick={() => onChange({ color: null })}
+						>
+							跟随门派
+						</Button>
+					</div>
+
+					<div className="text-xs text-muted-foreground">
+						拖动画布上的端点指向角色，移动文字时指引线自动跟随
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
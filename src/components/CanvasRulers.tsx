@@ -0,0 +1,338 @@
+import { type RefObject, useEffect, useRef } from "react";
+import { getGridLines } from "@/lib/grid";
+import { type GuideAxis, useGuidesStore } from "@/store/guides-store";
+
+const RULER_SIZE = 20;
+/** Minimum CSS distance between two labelled ticks */
+const MIN_LABEL_SPACING = 56;
+const TICK_STEPS = [
+	1, 2, 5, 10, 20, 25, 50, 100, 200, 250, 500, 1000, 2000, 5000, 10000,
+];
+const GUIDE_COLOR = "#06b6d4";
+
+interface ImageSize {
+	width: number;
+	height: number;
+}
+
+function pickTickStep(scale: number) {
+	return (
+		TICK_STEPS.find((step) => step * scale >= MIN_LABEL_SPACING) ??
+		(TICK_STEPS[TICK_STEPS.length - 1] as number)
+	);
+}
+
+/** CSS pixels per image pixel along `axis`, read from the rendered canvas. */
+function getCanvasScale(
+	rect: DOMRect,
+	axis: GuideAxis,
+	imageSize: ImageSize,
+): number {
+	return axis === "x"
+		? rect.width / imageSize.width
+		: rect.height / imageSize.height;
+}
+
+function clientToImage(
+	event: PointerEvent,
+	axis: GuideAxis,
+	canvasEl: HTMLCanvasElement,
+	imageSize: ImageSize,
+): number {
+	const rect = canvasEl.getBoundingClientRect();
+	const scale = getCanvasScale(rect, axis, imageSize);
+	const offset =
+		axis === "x" ? event.clientX - rect.left : event.clientY - rect.top;
+	return Math.round(offset / scale);
+}
+
+/**
+ * Follows the pointer until release. Guides dropped back on a ruler or
+ * outside the image are removed.
+ */
+function dragGuide(
+	id: string,
+	axis: GuideAxis,
+	canvasEl: HTMLCanvasElement,
+	imageSize: ImageSize,
+) {
+	const { moveGuide, removeGuide } = useGuidesStore.getState();
+	const size = axis === "x" ? imageSize.width : imageSize.height;
+
+	const onMove = (event: PointerEvent) => {
+		moveGuide(id, clientToImage(event, axis, canvasEl, imageSize));
+	};
+	const onUp = (event: PointerEvent) => {
+		window.removeEventListener("pointermove", onMove);
+		window.removeEventListener("pointerup", onUp);
+		window.removeEventListener("pointercancel", onUp);
+
+		const position = clientToImage(event, axis, canvasEl, imageSize);
+		const onRuler =
+			event.target instanceof Element &&
+			!!event.target.closest("[data-canvas-ruler]");
+		if (event.type === "pointercancel" || onRuler) removeGuide(id);
+		else if (position < 0 || position > size) removeGuide(id);
+		else moveGuide(id, position);
+	};
+
+	window.addEventListener("pointermove", onMove);
+	window.addEventListener("pointerup", onUp);
+	window.addEventListener("pointercancel", onUp);
+}
+
+function drawRuler(
+	ruler: HTMLCanvasElement,
+	axis: GuideAxis,
+	canvasEl: HTMLCanvasElement,
+	imageSize: ImageSize,
+) {
+	const dpr = window.devicePixelRatio || 1;
+	const cssWidth = ruler.clientWidth;
+	const cssHeight = ruler.clientHeight;
+	ruler.width = Math.round(cssWidth * dpr);
+	ruler.height = Math.round(cssHeight * dpr);
+	const ctx = ruler.getContext("2d");
+	if (!ctx) return;
+	ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+	ctx.clearRect(0, 0, cssWidth, cssHeight);
+
+	const canvasRect = canvasEl.getBoundingClientRect();
+	const rulerRect = ruler.getBoundingClientRect();
+	const scale = getCanvasScale(canvasRect, axis, imageSize);
+	if (!Number.isFinite(scale) || scale <= 0) return;
+
+	const horizontal = axis === "x";
+	const origin = horizontal
+		? canvasRect.left - rulerRect.left
+		: canvasRect.top - rulerRect.top;
+	const extent = horizontal ? cssWidth : cssHeight;
+	const thickness = horizontal ? cssHeight : cssWidth;
+	const size = horizontal ? imageSize.width : imageSize.height;
+
+	const color = getComputedStyle(ruler).color;
+	ctx.fillStyle = color;
+	ctx.strokeStyle = color;
+	ctx.lineWidth = 1;
+	ctx.font = "9px ui-sans-serif, system-ui, sans-serif";
+	ctx.textBaseline = "top";
+
+	// Highlight the span covered by the image
+	ctx.save();
+	ctx.globalAlpha = 0.08;
+	if (horizontal) ctx.fillRect(origin, 0, size * scale, thickness);
+	else ctx.fillRect(0, origin, thickness, size * scale);
+	ctx.restore();
+
+	const step = pickTickStep(scale);
+	const minor = step % 5 === 0 ? step / 5 : step / 2;
+	const first = Math.floor(-origin / scale / minor) * minor;
+	const last = (extent - origin) / scale;
+
+	ctx.beginPath();
+	for (let value = first; value <= last; value += minor) {
+		const position = Math.round(origin + value * scale) + 0.5;
+		const major = Math.abs(value % step) < 1e-6;
+		const length = major ? thickness : thickness * 0.3;
+		if (horizontal) {
+			ctx.moveTo(position, thickness);
+			ctx.lineTo(position, thickness - length);
+		} else {
+			ctx.moveTo(thickness, position);
+			ctx.lineTo(thickness - length, position);
+		}
+		if (!major) continue;
+		const label = String(Math.round(value));
+		if (horizontal) {
+			ctx.fillText(label, position + 2, 1);
+		} else {
+			ctx.save();
+			ctx.translate(1, position - 2);
+			ctx.rotate(-Math.PI / 2);
+			ctx.fillText(label, 0, 0);
+			ctx.restore();
+		}
+	}
+	ctx.stroke();
+}
+
+interface CanvasRulersProps {
+	canvasElRef: RefObject<HTMLCanvasElement | null>;
+	containerRef: RefObject<HTMLElement | null>;
+	imageSize: ImageSize;
+	/** Only used to redraw when the zoom changes */
+	displayScale: number;
+}
+
+/**
+ * Pixel rulers along the top and left of the canvas viewport. Values are
+ * image pixels; drag from a ruler to create a guide.
+ */
+export function CanvasRulers({
+	canvasElRef,
+	containerRef,
+	imageSize,
+	displayScale,
+}: CanvasRulersProps) {
+	const topRef = useRef<HTMLCanvasElement | null>(null);
+	const leftRef = useRef<HTMLCanvasElement | null>(null);
+
+	useEffect(() => {
+		const container = containerRef.current;
+		let frame = 0;
+		const redraw = () => {
+			cancelAnimationFrame(frame);
+			// Wait for the canvas to pick up its new CSS size first
+			frame = requestAnimationFrame(() => {
+				const canvasEl = canvasElRef.current;
+				if (!canvasEl) return;
+				if (topRef.current) drawRuler(topRef.current, "x", canvasEl, imageSize);
+				if (leftRef.current)
+					drawRuler(leftRef.current, "y", canvasEl, imageSize);
+			});
+		};
+
+		redraw();
+		const resizeObserver = new ResizeObserver(redraw);
+		if (container) resizeObserver.observe(container);
+		if (canvasElRef.current) resizeObserver.observe(canvasElRef.current);
+		container?.addEventListener("scroll", redraw, { passive: true });
+		window.addEventListener("resize", redraw);
+		return () => {
+			cancelAnimationFrame(frame);
+			resizeObserver.disconnect();
+			container?.removeEventListener("scroll", redraw);
+			window.removeEventListener("resize", redraw);
+		};
+	}, [canvasElRef, containerRef, displayScale, imageSize]);
+
+	const startGuide = (axis: GuideAxis, event: React.PointerEvent) => {
+		const canvasEl = canvasElRef.current;
+		if (!canvasEl || event.button !== 0) return;
+		event.preventDefault();
+		const position = clientToImage(
+			event.nativeEvent,
+			axis,
+			canvasEl,
+			imageSize,
+		);
+		const id = useGuidesStore.getState().addGuide(axis, position);
+		dragGuide(id, axis, canvasEl, imageSize);
+	};
+
+	return (
+		<>
+			<div
+				className="absolute left-0 top-0 z-10 border-r border-b bg-background/95"
+				style={{ width: RULER_SIZE, height: RULER_SIZE }}
+			/>
+			<canvas
+				ref={topRef}
+				data-canvas-ruler=""
+				title="拖动创建水平参考线"
+				className="absolute top-0 z-10 cursor-row-resize touch-none border-b bg-background/95 text-muted-foreground"
+				style={{
+					left: RULER_SIZE,
+					width: `calc(100% - ${RULER_SIZE}px)`,
+					height: RULER_SIZE,
+				}}
+				onPointerDown={(event) => startGuide("y", event)}
+			/>
+			<canvas
+				ref={leftRef}
+				data-canvas-ruler=""
+				title="拖动创建垂直参考线"
+				className="absolute left-0 z-10 cursor-col-resize touch-none border-r bg-background/95 text-muted-foreground"
+				style={{
+					top: RULER_SIZE,
+					width: RULER_SIZE,
+					height: `calc(100% - ${RULER_SIZE}px)`,
+				}}
+				onPointerDown={(event) => startGuide("x", event)}
+			/>
+		</>
+	);
+}
+
+interface CanvasGuidesOverlayProps {
+	canvasElRef: RefObject<HTMLCanvasElement | null>;
+	imageSize: ImageSize;
+}
+
+/** Grid and guide lines drawn over the canvas in image-pixel coordinates. */
+export function CanvasGuidesOverlay({
+	canvasElRef,
+	imageSize,
+}: CanvasGuidesOverlayProps) {
+	const guides = useGuidesStore((s) => s.guides);
+	const grid = useGuidesStore((s) => s.grid);
+	const removeGuide = useGuidesStore((s) => s.removeGuide);
+
+	if (!guides.length && grid.mode === "off") return null;
+
+	const { width, height } = imageSize;
+	const gridLines = getGridLines(grid, width, height);
+	const gridPath = [
+		...gridLines.x.map((x) => `M${x} 0V${height}`),
+		...gridLines.y.map((y) => `M0 ${y}H${width}`),
+	].join("");
+
+	return (
+		<svg
+			className="pointer-events-none absolute inset-0 size-full"
+			viewBox={`0 0 ${width} ${height}`}
+			preserveAspectRatio="none"
+			aria-hidden="true"
+		>
+			{gridPath && (
+				<path
+					d={gridPath}
+					fill="none"
+					stroke="currentColor"
+					strokeWidth={1}
+					vectorEffect="non-scaling-stroke"
+					className="text-sky-500/50"
+				/>
+			)}
+			{guides.map((guide) => {
+				const line =
+					guide.axis === "x"
+						? { x1: guide.position, y1: 0, x2: guide.position, y2: height }
+						: { x1: 0, y1: guide.position, x2: width, y2: guide.position };
+				return (
+					<g key={guide.id}>
+						<line
+							{...line}
+							stroke={GUIDE_COLOR}
+							strokeWidth={1}
+							vectorEffect="non-scaling-stroke"
+						/>
+						{/* Wider invisible hit area for dragging */}
+						<line
+							{...line}
+							stroke="transparent"
+							strokeWidth={7}
+							vectorEffect="non-scaling-stroke"
+							pointerEvents="stroke"
+							className={
+								guide.axis === "x" ? "cursor-col-resize" : "cursor-row-resize"
+							}
+							onPointerDown={(event) => {
+								const canvasEl = canvasElRef.current;
+								if (!canvasEl || event.button !== 0) return;
+								event.preventDefault();
+								event.stopPropagation();
+								dragGuide(guide.id, guide.axis, canvasEl, imageSize);
+							}}
+							onDoubleClick={() => removeGuide(guide.id)}
+						>
+							<title>
+								{`${guide.axis.toUpperCase()}: ${guide.position}px（拖回标尺或双击删除）`}
+							</title>
+						</line>
+					</g>
+				);
+			})}
+		</svg>
+	);
+}
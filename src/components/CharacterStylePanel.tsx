@@ -0,0 +1,151 @@
+import { IText } from "fabric";
+import { Eraser } from "lucide-react";
+import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { FontSelector } from "@/components/FontSelector";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { CHAR_STYLE_KEYS, type CharStylePatch } from "@/lib/text-styles";
+import { useEditorStore } from "@/store/editor-store";
+
+const MIN_SIZE_PERCENT = 20;
+const MAX_SIZE_PERCENT = 300;
+const MAX_STROKE_WIDTH = 32;
+const DEFAULT_CHAR_STROKE = "#ffffff";
+
+interface CharacterStylePanelProps {
+	onChange: (patch: CharStylePatch) => void;
+}
+
+/** Per-character colour, font, size, weight and stroke. */
+export function CharacterStylePanel({ onChange }: CharacterStylePanelProps) {
+	const activeObject = useEditorStore((s) => s.activeObject);
+	useEditorStore((s) => s.activeObjectRevision);
+
+	if (!(activeObject instanceof IText)) return null;
+
+	const { selectionStart, selectionEnd } = activeObject;
+	if (!activeObject.isEditing || selectionStart === selectionEnd) {
+		return (
+			<div className="text-xs text-muted-foreground">
+				在画布上双击文字并拖选部分字符，可单独设置颜色、字体、字号与描边
+			</div>
+		);
+	}
+
+	// Controls show the first selected character
+	const [style = {}] = activeObject.getSelectionStyles(
+		selectionStart,
+		selectionEnd,
+		true,
+	);
+	const baseSize = activeObject.fontSize || 1;
+	const sizePercent = Math.round(
+		((style.fontSize ?? baseSize) / baseSize) * 100,
+	);
+	const fontWeight = Number(style.fontWeight ?? activeObject.fontWeight) || 400;
+	const strokeColor =
+		typeof style.stroke === "string" ? style.stroke : DEFAULT_CHAR_STROKE;
+	const strokeWidth = style.stroke ? (style.strokeWidth ?? 0) : 0;
+
+	const clearStyles = () =>
+		onChange(
+			Object.fromEntries(CHAR_STYLE_KEYS.map((key) => [key, undefined])),
+		);
+
+	return (
+		<div className="flex flex-col gap-3 rounded-md border border-primary/30 p-3">
+			<div className="flex items-center gap-2">
+				<div className="text-xs font-medium text-primary">
+					字符样式（已选 {selectionEnd - selectionStart} 个字符）
+				</div>
+				<Button
+					type="button"
+					size="xs"
+					variant="ghost"
+					className="ml-auto"
+					title="恢复为整段文字的样式"
+					onClick={clearStyles}
+				>
+					<Eraser className="size-3.5" />
+					清除
+				</Button>
+			</div>
+
+			<div className="flex items-center gap-3">
+				<ColorPickerPopover
+					label="颜色"
+					color={typeof style.fill === "string" ? style.fill : "#000000"}
+					onChange={(fill) => onChange({ fill })}
+				/>
+				<ColorPickerPopover
+					label="描边"
+					color={strokeColor}
+					showSchoolPresets={false}
+					onChange={(stroke) =>
+						onChange({ stroke, strokeWidth: strokeWidth || 4 })
+					}
+				/>
+			</div>
+
+			<FontSelector
+				value={style.fontFamily ?? activeObject.fontFamily}
+				onChange={(fontFamily) => onChange({ fontFamily })}
+			/>
+
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">字号</div>
+				<Slider
+					className="flex-1"
+					value={[sizePercent]}
+					min={MIN_SIZE_PERCENT}
+					max={MAX_SIZE_PERCENT}
+					step={5}
+					onValueChange={([value]) =>
+						onChange({ fontSize: (baseSize * value) / 100 })
+					}
+				/>
+				<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+					{sizePercent}%
+				</div>
+			</div>
+
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">粗细</div>
+				<Slider
+					className="flex-1"
+					value={[fontWeight]}
+					min={100}
+					max={900}
+					step={100}
+					onValueChange={([value]) => onChange({ fontWeight: value })}
+				/>
+				<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+					{fontWeight}
+				</div>
+			</div>
+
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">
+					描边粗细
+				</div>
+				<Slider
+					className="flex-1"
+					value={[strokeWidth]}
+					min={0}
+					max={MAX_STROKE_WIDTH}
+					step={1}
+					onValueChange={([value = 0]) =>
+						onChange(
+							value > 0
+								? { stroke: strokeColor, strokeWidth: value }
+								: { stroke: undefined, strokeWidth: undefined },
+						)
+					}
+				/>
+				<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+					{strokeWidth}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,139 @@
+import { Search } from "lucide-react";
+import { useMemo, useState } from "react";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { fuzzyBestScore } from "@/lib/fuzzy";
+import { formatShortcut } from "@/lib/shortcuts";
+import { cn } from "@/lib/utils";
+import {
+	type EditorCommand,
+	getCommandShortcuts,
+	useCommandStore,
+	useKeymapStore,
+} from "@/store/command-store";
+
+const MAX_RESULTS = 50;
+
+export function CommandPalette() {
+	const open = useCommandStore((s) => s.paletteOpen);
+	const setOpen = useCommandStore((s) => s.setPaletteOpen);
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogContent
+				className="top-[20%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-md"
+				showCloseButton={false}
+			>
+				<DialogTitle className="sr-only">命令面板</DialogTitle>
+				<DialogDescription className="sr-only">
+					输入关键词搜索并执行编辑器命令
+				</DialogDescription>
+				{open && <CommandPaletteBody onClose={() => setOpen(false)} />}
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function CommandPaletteBody({ onClose }: { onClose: () => void }) {
+	const commands = useCommandStore((s) => s.commands);
+	const overrides = useKeymapStore((s) => s.overrides);
+	const [query, setQuery] = useState("");
+	const [highlight, setHighlight] = useState(0);
+
+	const results = useMemo(() => {
+		const visible = commands.filter((command) => !command.hiddenInPalette);
+		return visible
+			.map((command) => ({
+				command,
+				score: fuzzyBestScore(query, [
+					command.title,
+					`${command.group} ${command.title}`,
+					...(command.keywords ?? []),
+				]),
+			}))
+			.filter(
+				(entry): entry is { command: EditorCommand; score: number } =>
+					entry.score !== null,
+			)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, MAX_RESULTS)
+			.map((entry) => entry.command);
+	}, [commands, query]);
+
+	const runCommand = (command: EditorCommand | undefined) => {
+		if (!command || command.enabled?.() === false) return;
+		onClose();
+		void command.run();
+	};
+
+	return (
+		<div className="flex flex-col">
+			<div className="flex items-center gap-2 border-b px-3">
+				<Search className="size-4 shrink-0 text-muted-foreground" />
+				<Input
+					autoFocus
+					className="h-11 border-0 px-0 shadow-none focus-visible:ring-0"
+					placeholder="搜索命令，例如「万花」「导出」「对齐」..."
+					value={query}
+					onChange={(e) => {
+						setQuery(e.target.value);
+						setHighlight(0);
+					}}
+					onKeyDown={(e) => {
+						if (e.key === "ArrowDown") {
+							e.preventDefault();
+							setHighlight((i) => Math.min(i + 1, results.length - 1));
+						}
+						if (e.key === "ArrowUp") {
+							e.preventDefault();
+							setHighlight((i) => Math.max(i - 1, 0));
+						}
+						if (e.key === "Enter") {
+							e.preventDefault();
+							runCommand(results[highlight]);
+						}
+					}}
+				/>
+			</div>
+			<div className="max-h-[50svh] overflow-y-auto p-1">
+				{results.length === 0 && (
+					<div className="p-4 text-center text-sm text-muted-foreground">
+						没有匹配的命令
+					</div>
+				)}
+				{results.map((command, index) => {
+					const disabled = command.enabled?.() === false;
+					const shortcut = getCommandShortcuts(command, overrides)[0];
+					return (
+						<button
+							key={command.id}
+							type="button"
+							disabled={disabled}
+							onMouseEnter={() => setHighlight(index)}
+							onClick={() => runCommand(command)}
+							className={cn(
+								"flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm disabled:opacity-50",
+								index === highlight && "bg-accent text-accent-foreground",
+							)}
+						>
+							<span className="w-10 shrink-0 text-xs text-muted-foreground">
+								{command.group}
+							</span>
+							<span className="flex-1 truncate">{command.title}</span>
+							{shortcut && (
+								<kbd className="rounded border bg-muted px-1.5 font-mono text-[10px] text-muted-foreground">
+									{formatShortcut(shortcut)}
+								</kbd>
+							)}
+						</button>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,160 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+	type CurveLayoutProps,
+	CurvedText,
+	MIN_CURVE_RADIUS,
+	type TextCurveDirection,
+	type TextCurveKind,
+} from "@/lib/curved-text";
+import { useEditorStore } from "@/store/editor-store";
+
+const MAX_CURVE_RADIUS = 2000;
+const MAX_WAVE_AMPLITUDE = 200;
+const MIN_WAVE_LENGTH = 40;
+const MAX_WAVE_LENGTH = 1200;
+
+const CURVE_KIND_OPTIONS: Array<{ kind: TextCurveKind; label: string }> = [
+	{ kind: "arc", label: "弧形" },
+	{ kind: "circle", label: "圆形" },
+	{ kind: "wave", label: "波浪" },
+	{ kind: "bezier", label: "自由曲线" },
+];
+
+const CURVE_DIRECTION_OPTIONS: Array<{
+	direction: TextCurveDirection;
+	label: string;
+}> = [
+	{ direction: "up", label: "上拱" },
+	{ direction: "down", label: "下弯" },
+];
+
+interface CurvedTextPanelProps {
+	onChange: (patch: Partial<CurveLayoutProps>) => void;
+}
+
+/** Curve shape of curved text: arc, circle, wave or a free Bézier curve. */
+export function CurvedTextPanel({ onChange }: CurvedTextPanelProps) {
+	const activeObject = useEditorStore((s) => s.activeObject);
+	useEditorStore((s) => s.activeObjectRevision);
+
+	if (!(activeObject instanceof CurvedText)) return null;
+
+	const { curveKind } = activeObject;
+	const sliders: Array<{
+		key: keyof CurveLayoutProps;
+		label: string;
+		value: number;
+		min: number;
+		max: number;
+	}> =
+		curveKind === "arc" || curveKind === "circle"
+			? [
+					{
+						key: "curveRadius",
+						label: "半径",
+						value: activeObject.curveRadius,
+						min: MIN_CURVE_RADIUS,
+						max: MAX_CURVE_RADIUS,
+					},
+				]
+			: curveKind === "wave"
+				? [
+						{
+							key: "waveAmplitude",
+							label: "振幅",
+							value: activeObject.waveAmplitude,
+							min: -MAX_WAVE_AMPLITUDE,
+							max: MAX_WAVE_AMPLITUDE,
+						},
+						{
+							key: "waveLength",
+							label: "波长",
+							value: activeObject.waveLength,
+							min: MIN_WAVE_LENGTH,
+							max: MAX_WAVE_LENGTH,
+						},
+					]
+				: [];
+
+	return (
+		<div className="flex flex-col gap-3 rounded-md border p-3">
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">形状</div>
+				<div className="flex items-center rounded-md border p-0.5">
+					{CURVE_KIND_OPTIONS.map(({ kind, label }) => (
+						<Button
+							key={kind}
+							type="button"
+							size="xs"
+							variant={curveKind === kind ? "default" : "ghost"}
+							onClick={() => onChange({ curveKind: kind })}
+						>
+							{label}
+						</Button>
+					))}
+				</div>
+			</div>
+
+			{(curveKind === "arc" || curveKind === "circle") && (
+				<div className="flex items-center gap-3">
+					<div className="w-16 shrink-0 text-xs text-muted-foreground">
+						方向
+					</div>
+					<div className="flex items-center rounded-md border p-0.5">
+						{CURVE_DIRECTION_OPTIONS.map(({ direction, label }) => (
+							<Button
+								key={direction}
+								type="button"
+								size="xs"
+								variant={
+									activeObject.curveDirection === direction
+										? "default"
+										: "ghost"
+								}
+								onClick={() => onChange({ curveDirection: direction })}
+							>
+								{label}
+							</Button>
+						))}
+					</div>
+				</div>
+			)}
+
+			{sliders.map((slider) => (
+				<div key={slider.key} className="flex items-center gap-3">
+					<div className="w-16 shrink-0 text-xs text-muted-foreground">
+						{slider.label}
+					</div>
+					<Slider
+						className="flex-1"
+						value={[slider.value]}
+						min={slider.min}
+						max={slider.max}
+						step={1}
+						onValueChange={([value = 0]) => onChange({ [slider.key]: value })}
+					/>
+					<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+						{Math.round(slider.value)}
+					</div>
+				</div>
+			))}
+
+			{curveKind === "bezier" && (
+				<div className="flex items-center gap-3">
+					<div className="flex-1 text-xs text-muted-foreground">
+						拖动画布上的四个控制点调整曲线
+					</div>
+					<Button
+						type="button"
+						size="xs"
+						variant="outline"
+						onClick={() => onChange({ curvePoints: [] })}
+					>
+						重置曲线
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,343 @@
+import { Trash2 } from "lucide-react";
+import { useRef, useState } from "react";
+import { HexColorPicker } from "react-colorful";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { JX3_SCHOOL_PRESETS } from "@/constants/colors";
+import {
+	createTwoColorGradient,
+	DEFAULT_GRADIENT_ANGLE,
+	type GradientColorStop,
+	type GradientFill,
+	type GradientKind,
+	getFillSwatchColor,
+	isGradientFill,
+	type TextFill,
+	toCssGradient,
+} from "@/lib/gradient-fill";
+
+const MIN_COLOR_STOPS = 2;
+
+const GRADIENT_KIND_OPTIONS: Array<{ kind: GradientKind; label: string }> = [
+	{ kind: "linear", label: "线性" },
+	{ kind: "radial", label: "径向" },
+];
+
+interface GradientEditorPopoverProps {
+	fill: TextFill;
+	onChange: (fill: TextFill) => void;
+}
+
+function clamp01(value: number) {
+	return Math.min(1, Math.max(0, value));
+}
+
+function findSchoolByColor(color: string) {
+	return JX3_SCHOOL_PRESETS.find(
+		(s) => s.color.toLowerCase() === color.toLowerCase(),
+	);
+}
+
+/** Linear / radial gradient fill with draggable stops and school pairs. */
+export function GradientEditorPopover({
+	fill,
+	onChange,
+}: GradientEditorPopoverProps) {
+	const barRef = useRef<HTMLDivElement>(null);
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [fromSchoolKey, setFromSchoolKey] = useState<string>();
+	const [pickingFrom, setPickingFrom] = useState(false);
+
+	const swatchColor = getFillSwatchColor(fill);
+	const gradient: GradientFill = isGradientFill(fill)
+		? fill
+		: createTwoColorGradient(swatchColor, "#ffffff");
+	const stops = gradient.colorStops;
+	const activeIndex = Math.min(selectedIndex, stops.length - 1);
+	const activeStop = stops[activeIndex];
+
+	// One-click gradients start from the current (first) colour's school
+	const fromSchool =
+		JX3_SCHOOL_PRESETS.find((s) => s.key === fromSchoolKey) ??
+		findSchoolByColor(swatchColor) ??
+		JX3_SCHOOL_PRESETS[0];
+
+	const update = (patch: Partial<GradientFill>) =>
+		onChange({ ...gradient, ...patch });
+
+	const updateStop = (index: number, patch: Partial<GradientColorStop>) =>
+		update({
+			colorStops: stops.map((stop, i) =>
+				i === index ? { ...stop, ...patch } : stop,
+			),
+		});
+
+	const getBarOffset = (clientX: number) => {
+		const rect = barRef.current?.getBoundingClientRect();
+		if (!rect?.width) return 0;
+		return clamp01((clientX - rect.left) / rect.width);
+	};
+
+	// Stops keep their insertion order, so an index stays valid while dragging
+	const dragStop = (index: number, event: React.PointerEvent) => {
+		if (event.button !== 0) return;
+		event.preventDefault();
+		event.stopPropagation();
+		setSelectedIndex(index);
+		let current = gradient;
+
+		const onMove = (e: PointerEvent) => {
+			const offset = Number(getBarOffset(e.clientX).toFixed(3));
+			current = {
+				...current,
+				colorStops: current.colorStops.map((stop, i) =>
+					i === index ? { ...stop, offset } : stop,
+				),
+			};
+			onChange(current);
+		};
+		const onUp = () => {
+			window.removeEventListener("pointermove", onMove);
+			window.removeEventListener("pointerup", onUp);
+			window.removeEventListener("pointercancel", onUp);
+		};
+
+		window.addEventListener("pointermove", onMove);
+		window.addEventListener("pointerup", onUp);
+		window.addEventListener("pointercancel", onUp);
+	};
+
+	const addStop = (event: React.PointerEvent) => {
+		if (event.button !== 0) return;
+		const offset = Number(getBarOffset(event.clientX).toFixed(3));
+		update({
+			colorStops: [
+				...stops,
+				{ offset, color: activeStop?.color ?? swatchColor },
+			],
+		});
+		setSelectedIndex(stops.length);
+	};
+
+	const removeStop = () => {
+		if (stops.length <= MIN_COLOR_STOPS) return;
+		update({ colorStops: stops.filter((_, i) => i !== activeIndex) });
+		setSelectedIndex(Math.max(0, activeIndex - 1));
+	};
+
+	const applySchool = (key: string, color: string) => {
+		if (pickingFrom) {
+			setFromSchoolKey(key);
+			setPickingFrom(false);
+			return;
+		}
+		if (!fromSchool) return;
+		setSelectedIndex(0);
+		onChange(
+			createTwoColorGradient(
+				fromSchool.color,
+				color,
+				gradient.type,
+				gradient.angle,
+			),
+		);
+	};
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>
+				<button
+					type="button"
+					title="渐变填充"
+					className={`h-9 w-9 shrink-0 rounded border ${
+						isGradientFill(fill) ? "ring-2 ring-ring ring-offset-1" : ""
+					}`}
+					style={{ backgroundImage: toCssGradient(gradient) }}
+				/>
+			</PopoverTrigger>
+			<PopoverContent
+				className="w-[calc(100vw-1rem)] max-w-[340px] p-3"
+				side="bottom"
+				align="end"
+				sideOffset={8}
+			>
+				<div className="flex flex-col gap-3">
+					<div className="flex items-center gap-2">
+						<div className="flex items-center rounded-md border p-0.5">
+							{GRADIENT_KIND_OPTIONS.map(({ kind, label }) => (
+								<Button
+									key={kind}
+									type="button"
+									size="xs"
+									variant={
+										isGradientFill(fill) && gradient.type === kind
+											? "default"
+											: "ghost"
+									}
+									onClick={() => update({ type: kind })}
+								>
+									{label}
+								</Button>
+							))}
+						</div>
+						<Button
+							type="button"
+							size="xs"
+							variant="ghost"
+							className="ml-auto"
+							disabled={!isGradientFill(fill)}
+							title="改回纯色填充"
+							onClick={() => onChange(swatchColor)}
+						>
+							纯色
+						</Button>
+					</div>
+
+					<div className="flex flex-col gap-1.5">
+						<div className="text-xs text-muted-foreground">
+							点击色条添加色标，拖动色标调整位置
+						</div>
+						<div
+							ref={barRef}
+							className="relative mx-2 h-6 cursor-copy touch-none rounded border"
+							style={{
+								backgroundImage: toCssGradient({
+									...gradient,
+									type: "linear",
+									angle: 90,
+								}),
+							}}
+							onPointerDown={addStop}
+						>
+							{stops.map((stop, index) => (
+								<button
+									key={index}
+									type="button"
+									title={`${Math.round(stop.offset * 100)}%`}
+									className={`absolute top-1/2 h-7 w-3 -translate-x-1/2 -translate-y-1/2 cursor-ew-resize rounded-sm border-2 border-white shadow ${
+										index === activeIndex ? "ring-2 ring-ring" : ""
+									}`}
+									style={{
+										left: `${stop.offset * 100}%`,
+										backgroundColor: stop.color,
+									}}
+									onPointerDown={(event) => dragStop(index, event)}
+								/>
+							))}
+						</div>
+					</div>
+
+					{activeStop && (
+						<>
+							<HexColorPicker
+								color={activeStop.color}
+								onChange={(color) => updateStop(activeIndex, { color })}
+							/>
+							<div className="flex items-center gap-2">
+								<Input
+									value={activeStop.color}
+									onChange={(e) =>
+										updateStop(activeIndex, { color: e.target.value })
+									}
+									className="h-9 font-mono text-xs"
+									placeholder="#000000"
+								/>
+								<Button
+									type="button"
+									size="icon-xs"
+									variant="ghost"
+									title="删除色标"
+									disabled={stops.length <= MIN_COLOR_STOPS}
+									onClick={removeStop}
+								>
+									<Trash2 className="size-3.5" />
+								</Button>
+							</div>
+						</>
+					)}
+
+					{gradient.type === "linear" && (
+						<div className="flex items-center gap-3">
+							<div className="w-10 shrink-0 text-xs text-muted-foreground">
+								角度
+							</div>
+							<Slider
+								className="flex-1"
+								value={[gradient.angle]}
+								min={0}
+								max={360}
+								step={1}
+								onValueChange={([angle = DEFAULT_GRADIENT_ANGLE]) =>
+									update({ angle })
+								}
+							/>
+							<div className="w-10 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+								{gradient.angle}°
+							</div>
+						</div>
+					)}
+
+					<div className="flex flex-col gap-1.5">
+						<div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+							门派渐变：从
+							{fromSchool && (
+								<button
+									type="button"
+									title="更换起始门派"
+									className={`flex items-center gap-1 rounded-sm border px-1 ${
+										pickingFrom ? "ring-2 ring-ring" : ""
+									}`}
+									style={{ borderColor: fromSchool.color }}
+									onClick={() => setPickingFrom((v) => !v)}
+								>
+									<img
+										src={fromSchool.icon}
+										alt={fromSchool.label}
+										className="size-4"
+										draggable={false}
+									/>
+									{fromSchool.label}
+								</button>
+							)}
+							{pickingFrom ? "（选择起始门派）" : "到…"}
+						</div>
+						<div className="grid grid-cols-5 gap-1.5 sm:grid-cols-7 sm:gap-1">
+							{JX3_SCHOOL_PRESETS.map((s) => (
+								<button
+									key={s.key}
+									type="button"
+									title={
+										pickingFrom
+											? s.label
+											: `${fromSchool?.label} → ${s.label}`
+									}
+									className="flex h-8 w-8 items-center justify-center rounded-sm border transition-transform hover:scale-110"
+									style={{
+										backgroundImage: pickingFrom
+											? undefined
+											: `linear-gradient(135deg, ${fromSchool?.color}, ${s.color})`,
+										borderColor: s.color,
+									}}
+									onClick={() => applySchool(s.key, s.color)}
+								>
+									<img
+										src={s.icon}
+										alt={s.label}
+										className="size-5"
+										draggable={false}
+									/>
+								</button>
+							))}
+						</div>
+					</div>
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+}
@@ -0,0 +1,165 @@
+import { Grid3x3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { MAX_GRID_DIVISIONS, MIN_GRID_PITCH } from "@/lib/grid";
+import { type GridMode, useGuidesStore } from "@/store/guides-store";
+
+const GRID_MODES: Array<{ mode: GridMode; label: string }> = [
+	{ mode: "off", label: "关闭" },
+	{ mode: "thirds", label: "三分法" },
+	{ mode: "divisions", label: "等分" },
+	{ mode: "pitch", label: "间距" },
+];
+
+function parseCount(value: string, min: number, max: number) {
+	const parsed = Math.round(Number(value));
+	if (!Number.isFinite(parsed)) return min;
+	return Math.min(Math.max(parsed, min), max);
+}
+
+export function GridSettingsPopover() {
+	const rulersVisible = useGuidesStore((s) => s.rulersVisible);
+	const setRulersVisible = useGuidesStore((s) => s.setRulersVisible);
+	const grid = useGuidesStore((s) => s.grid);
+	const setGrid = useGuidesStore((s) => s.setGrid);
+	const snapToGrid = useGuidesStore((s) => s.snapToGrid);
+	const setSnapToGrid = useGuidesStore((s) => s.setSnapToGrid);
+	const guideCount = useGuidesStore((s) => s.guides.length);
+	const setGuides = useGuidesStore((s) => s.setGuides);
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>
+				<Button
+					size="icon-sm"
+					variant={
+						rulersVisible || grid.mode !== "off" ? "secondary" : "outline"
+					}
+					title="标尺、参考线与网格"
+				>
+					<Grid3x3 className="size-3.5" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent side="top" align="end" className="w-72 p-3">
+				<div className="flex flex-col gap-3 text-sm">
+					<div className="flex items-center justify-between">
+						<Label htmlFor="rulers-toggle">显示标尺</Label>
+						<Switch
+							id="rulers-toggle"
+							checked={rulersVisible}
+							onCheckedChange={setRulersVisible}
+						/>
+					</div>
+
+					<div className="grid gap-2">
+						<div className="text-xs text-muted-foreground">网格</div>
+						<div className="grid grid-cols-4 rounded-md border p-0.5">
+							{GRID_MODES.map(({ mode, label }) => (
+								<Button
+									key={mode}
+									type="button"
+									size="xs"
+									variant={grid.mode === mode ? "default" : "ghost"}
+									onClick={() => setGrid({ mode })}
+								>
+									{label}
+								</Button>
+							))}
+						</div>
+						{grid.mode === "divisions" && (
+							<div className="flex items-center gap-2 text-xs">
+								<Input
+									type="number"
+									className="h-8"
+									min={1}
+									max={MAX_GRID_DIVISIONS}
+									value={grid.columns}
+									aria-label="列数"
+									onChange={(e) =>
+										setGrid({
+											columns: parseCount(
+												e.target.value,
+												1,
+												MAX_GRID_DIVISIONS,
+											),
+										})
+									}
+								/>
+								<span className="text-muted-foreground">×</span>
+								<Input
+									type="number"
+									className="h-8"
+									min={1}
+									max={MAX_GRID_DIVISIONS}
+									value={grid.rows}
+									aria-label="行数"
+									onChange={(e) =>
+										setGrid({
+											rows: parseCount(e.target.value, 1, MAX_GRID_DIVISIONS),
+										})
+									}
+								/>
+							</div>
+						)}
+						{grid.mode === "pitch" && (
+							<div className="flex items-center gap-2 text-xs">
+								<Input
+									type="number"
+									className="h-8"
+									min={MIN_GRID_PITCH}
+									value={grid.pitch}
+									aria-label="网格间距"
+									onChange={(e) =>
+										setGrid({
+											pitch: parseCount(
+												e.target.value,
+												MIN_GRID_PITCH,
+												Number.MAX_SAFE_INTEGER,
+											),
+										})
+									}
+								/>
+								<span className="shrink-0 text-muted-foreground">
+									像素（原图）
+								</span>
+							</div>
+						)}
+						<div className="flex items-center justify-between">
+							<Label htmlFor="grid-snap-toggle">吸附到网格</Label>
+							<Switch
+								id="grid-snap-toggle"
+								checked={snapToGrid}
+								disabled={grid.mode === "off"}
+								onCheckedChange={setSnapToGrid}
+							/>
+						</div>
+					</div>
+
+					<div className="flex items-center justify-between gap-2 border-t pt-3">
+						<div className="text-xs text-muted-foreground">
+							{guideCount
+								? `${guideCount} 条参考线，拖回标尺或双击删除`
+								: "从标尺拖出参考线"}
+						</div>
+						<Button
+							type="button"
+							size="xs"
+							variant="outline"
+							disabled={!guideCount}
+							onClick={() => setGuides([])}
+						>
+							清除
+						</Button>
+					</div>
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+}
@@ -0,0 +1,290 @@
+import type { FabricObject } from "fabric";
+import { Group, IText } from "fabric";
+import {
+	ChevronDown,
+	ChevronsDown,
+	ChevronsUp,
+	ChevronUp,
+	Eye,
+	EyeOff,
+	GripVertical,
+	Group as GroupIcon,
+	Lock,
+	LockOpen,
+	Ungroup,
+} from "lucide-react";
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { fromVerticalText } from "@/hooks/useFabricEditor";
+import { BRUSH_PRESETS, BrushStroke } from "@/lib/brushes";
+import { getObjectName, isObjectLocked } from "@/lib/canvas-snapshot";
+import { getTextFillStyle, readTextFill } from "@/lib/gradient-fill";
+import { Nameplate } from "@/lib/nameplate";
+import { isRedactionRegion, REDACTION_EFFECT_LABELS } from "@/lib/redaction";
+import { getShapeKind, isShapeObject, SHAPE_LABELS } from "@/lib/shapes";
+import { cn } from "@/lib/utils";
+import { useEditorStore } from "@/store/editor-store";
+
+type LayerDirection = "forward" | "backward" | "front" | "back";
+
+interface LayersPanelProps {
+	onMove: (obj: FabricObject, direction: LayerDirection) => void;
+	onMoveTo: (obj: FabricObject, index: number) => void;
+	onVisibleChange: (obj: FabricObject, visible: boolean) => void;
+	onLockedChange: (obj: FabricObject, locked: boolean) => void;
+	onRename: (obj: FabricObject, name: string) => void;
+	onSelect: (obj: FabricObject) => void;
+	onGroup: () => void;
+	onUngroup: () => void;
+}
+
+const THUMBNAIL_SIZE = 28;
+
+function getDefaultLayerName(obj: FabricObject): string {
+	if (obj instanceof IText) {
+		const flat = fromVerticalText(obj.text ?? "").trim();
+		return flat || "[空文字]";
+	}
+	if (obj instanceof Nameplate) return `名牌：${obj.characterName}`;
+	if (isShapeObject(obj)) return SHAPE_LABELS[getShapeKind(obj)];
+	if (obj instanceof BrushStroke) {
+		return `笔画（${BRUSH_PRESETS[obj.brush]?.label ?? "钢笔"}）`;
+	}
+	if (isRedactionRegion(obj)) {
+		return `打码（${REDACTION_EFFECT_LABELS[obj.effect] ?? "马赛克"}）`;
+	}
+	if (obj instanceof Group) return `组合（${obj.size()}）`;
+	return "对象";
+}
+
+function LayerThumbnail({ obj }: { obj: FabricObject }) {
+	if (obj instanceof IText) {
+		return (
+			<span
+				className="flex size-7 shrink-0 items-center justify-center overflow-hidden rounded border bg-muted/40 text-xs"
+				style={{
+					...getTextFillStyle(readTextFill(obj.fill)),
+					fontFamily: obj.fontFamily,
+				}}
+			>
+				{fromVerticalText(obj.text ?? "").slice(0, 1) || "T"}
+			</span>
+		);
+	}
+
+	const longestSide = Math.max(obj.getScaledWidth(), obj.getScaledHeight(), 1);
+	const src = obj.toDataURL({ multiplier: THUMBNAIL_SIZE / longestSide });
+	return (
+		<img
+			src={src}
+			alt=""
+			className="size-7 shrink-0 rounded border bg-muted/40 object-contain"
+			draggable={false}
+		/>
+	);
+}
+
+export function LayersPanel({
+	onMove,
+	onMoveTo,
+	onVisibleChange,
+	onLockedChange,
+	onRename,
+	onSelect,
+	onGroup,
+	onUngroup,
+}: LayersPanelProps) {
+	const canvas = useEditorStore((s) => s.canvas);
+	const activeObject = useEditorStore((s) => s.activeObject);
+	// Re-render whenever objects are added, removed, reordered or renamed
+	useEditorStore((s) => s.layersRevision);
+
+	const dragIndexRef = useRef<number | null>(null);
+	const [dropIndex, setDropIndex] = useState<number | null>(null);
+	const [editingIndex, setEditingIndex] = useState<number | null>(null);
+	const [editingName, setEditingName] = useState("");
+
+	const objects = canvas?.getObjects() ?? [];
+	const activeObjects = canvas?.getActiveObjects() ?? [];
+	const layers = objects.map((obj, index) => ({ obj, index })).reverse();
+
+	if (!layers.length) {
+		return (
+			<div className="text-sm text-muted-foreground">画布上还没有图层</div>
+		);
+	}
+
+	const commitRename = (obj: FabricObject) => {
+		onRename(obj, editingName);
+		setEditingIndex(null);
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="grid grid-cols-6 gap-2">
+				<Button
+					type="button"
+					size="xs"
+					variant="outline"
+					disabled={!activeObject}
+					title="置于顶层"
+					onClick={() => activeObject && onMove(activeObject, "front")}
+				>
+					<ChevronsUp className="size-3.5" />
+				</Button>
+				<Button
+					type="button"
+					size="xs"
+					variant="outline"
+					disabled={!activeObject}
+					title="上移一层"
+					onClick={() => activeObject && onMove(activeObject, "forward")}
+				>
+					<ChevronUp className="size-3.5" />
+				</Button>
+				<Button
+					type="button"
+					size="xs"
+					variant="outline"
+					disabled={!activeObject}
+					title="下移一层"
+					onClick={() => activeObject && onMove(activeObject, "backward")}
+				>
+					<ChevronDown className="size-3.5" />
+				</Button>
+				<Button
+					type="button"
+					size="xs"
+					variant="outline"
+					disabled={!activeObject}
+					title="置于底层"
+					onClick={() => activeObject && onMove(activeObject, "back")}
+				>
+					<ChevronsDown className="size-3.5" />
+				</Button>
+				<Button
+					type="button"
+					size="xs"
+					variant="outline"
+					disabled={activeObjects.length < 2}
+					title="组合"
+					onClick={onGroup}
+				>
+					<GroupIcon className="size-3.5" />
+				</Button>
+				<Button
+					type="button"
+					size="xs"
+					variant="outline"
+					disabled={activeObject?.type !== "group"}
+					title="取消组合"
+					onClick={onUngroup}
+				>
+					<Ungroup className="size-3.5" />
+				</Button>
+			</div>
+
+			<div className="flex max-h-[260px] flex-col gap-1 overflow-y-auto">
+				{layers.map(({ obj, index }) => {
+					const locked = isObjectLocked(obj);
+					const visible = obj.visible !== false;
+					const selected = activeObjects.includes(obj);
+					const name = getObjectName(obj) ?? getDefaultLayerName(obj);
+
+					return (
+						<div
+							key={index}
+							draggable={editingIndex !== index}
+							onDragStart={(event) => {
+								dragIndexRef.current = index;
+								event.dataTransfer.effectAllowed = "move";
+							}}
+							onDragOver={(event) => {
+								if (dragIndexRef.current === null) return;
+								event.preventDefault();
+								setDropIndex(index);
+							}}
+							onDragLeave={() => setDropIndex(null)}
+							onDrop={(event) => {
+								event.preventDefault();
+								const from = dragIndexRef.current;
+								dragIndexRef.current = null;
+								setDropIndex(null);
+								const source = from === null ? undefined : objects[from];
+								if (source && from !== index) onMoveTo(source, index);
+							}}
+							onDragEnd={() => {
+								dragIndexRef.current = null;
+								setDropIndex(null);
+							}}
+							className={cn(
+								"group flex min-w-0 items-center gap-1.5 rounded-md border px-1.5 py-1 text-sm transition",
+								selected
+									? "border-primary/60 bg-primary/10"
+									: "bg-muted/25 hover:border-primary/40",
+								dropIndex === index && "ring-2 ring-primary/50",
+								!visible && "opacity-50",
+							)}
+						>
+							<GripVertical className="size-3.5 shrink-0 cursor-grab text-muted-foreground" />
+							<LayerThumbnail obj={obj} />
+							{editingIndex === index ? (
+								<Input
+									autoFocus
+									className="h-7 flex-1 text-xs"
+									value={editingName}
+									onChange={(e) => setEditingName(e.target.value)}
+									onBlur={() => commitRename(obj)}
+									onKeyDown={(e) => {
+										if (e.key === "Enter") commitRename(obj);
+										if (e.key === "Escape") setEditingIndex(null);
+									}}
+								/>
+							) : (
+								<button
+									type="button"
+									className="min-w-0 flex-1 truncate text-left text-xs"
+									title="单击选中，双击重命名"
+									onClick={() => onSelect(obj)}
+									onDoubleClick={() => {
+										setEditingName(getObjectName(obj) ?? "");
+										setEditingIndex(index);
+									}}
+								>
+									{name}
+								</button>
+							)}
+							<Button
+								type="button"
+								size="icon-xs"
+								variant="ghost"
+								title={visible ? "隐藏" : "显示"}
+								onClick={() => onVisibleChange(obj, !visible)}
+							>
+								{visible ? (
+									<Eye className="size-3.5" />
+								) : (
+									<EyeOff className="size-3.5" />
+								)}
+							</Button>
+							<Button
+								type="button"
+								size="icon-xs"
+								variant="ghost"
+								title={locked ? "解锁" : "锁定"}
+								onClick={() => onLockedChange(obj, !locked)}
+							>
+								{locked ? (
+									<Lock className="size-3.5" />
+								) : (
+									<LockOpen className="size-3.5 text-muted-foreground" />
+								)}
+							</Button>
+						</div>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
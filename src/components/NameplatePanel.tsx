@@ -0,0 +1,151 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { JX3_SCHOOL_PRESETS } from "@/constants/colors";
+import {
+	NAMEPLATE_STYLE_KEYS,
+	NAMEPLATE_STYLES,
+	Nameplate,
+	type NameplateOrientation,
+	type NameplateProps,
+} from "@/lib/nameplate";
+import { useEditorStore } from "@/store/editor-store";
+
+/** Select items need a value; this one stands for "no school" */
+const NO_SCHOOL = "none";
+
+const NAMEPLATE_FIELDS: Array<{
+	key: "title" | "characterName" | "guild";
+	label: string;
+	placeholder: string;
+}> = [
+	{ key: "title", label: "称号", placeholder: "留空则不显示" },
+	{ key: "characterName", label: "名字", placeholder: "角色名" },
+	{ key: "guild", label: "帮会", placeholder: "留空则不显示" },
+];
+
+const ORIENTATION_OPTIONS: Array<{
+	orientation: NameplateOrientation;
+	label: string;
+}> = [
+	{ orientation: "horizontal", label: "横排" },
+	{ orientation: "vertical", label: "竖排" },
+];
+
+interface NameplatePanelProps {
+	onChange: (patch: Partial<NameplateProps>) => void;
+}
+
+/** Title, name, guild, school and look of the selected nameplate. */
+export function NameplatePanel({ onChange }: NameplatePanelProps) {
+	const activeObject = useEditorStore((s) => s.activeObject);
+	useEditorStore((s) => s.activeObjectRevision);
+
+	if (!(activeObject instanceof Nameplate)) return null;
+
+	return (
+		<div className="grid gap-2">
+			<div className="text-xs text-muted-foreground">名牌</div>
+			<div className="flex flex-col gap-3 rounded-md border p-3">
+				{NAMEPLATE_FIELDS.map(({ key, label, placeholder }) => (
+					<div key={key} className="flex items-center gap-3">
+						<div className="w-16 shrink-0 text-xs text-muted-foreground">
+							{label}
+						</div>
+						<Input
+							className="h-8"
+							placeholder={placeholder}
+							value={activeObject[key]}
+							onChange={(e) => onChange({ [key]: e.target.value })}
+						/>
+					</div>
+				))}
+
+				<div className="flex items-center gap-3">
+					<div className="w-16 shrink-0 text-xs text-muted-foreground">
+						门派
+					</div>
+					<Select
+						value={activeObject.schoolKey || NO_SCHOOL}
+						onValueChange={(value) =>
+							onChange({ schoolKey: value === NO_SCHOOL ? "" : value })
+						}
+					>
+						<SelectTrigger size="sm" className="flex-1">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent position="popper" className="max-h-72">
+							<SelectItem value={NO_SCHOOL}>无</SelectItem>
+							{JX3_SCHOOL_PRESETS.map((preset) => (
+								<SelectItem key={preset.key} value={preset.key}>
+									<img
+										src={preset.icon}
+										alt=""
+										className="size-4"
+										draggable={false}
+									/>
+									{preset.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Switch
+						checked={activeObject.showIcon}
+						disabled={!activeObject.schoolKey}
+						title={activeObject.showIcon ? "隐藏门派图标" : "显示门派图标"}
+						onCheckedChange={(showIcon) => onChange({ showIcon })}
+					/>
+				</div>
+
+				<div className="flex items-center gap-3">
+					<div className="w-16 shrink-0 text-xs text-muted-foreground">
+						样式
+					</div>
+					<div className="flex flex-wrap items-center rounded-md border p-0.5">
+						{NAMEPLATE_STYLE_KEYS.map((styleKey) => (
+							<Button
+								key={styleKey}
+								type="button"
+								size="xs"
+								variant={
+									activeObject.styleKey === styleKey ? "default" : "ghost"
+								}
+								onClick={() => onChange({ styleKey })}
+							>
+								{NAMEPLATE_STYLES[styleKey].label}
+							</Button>
+						))}
+					</div>
+				</div>
+
+				<div className="flex items-center gap-3">
+					<div className="w-16 shrink-0 text-xs text-muted-foreground">
+						排列
+					</div>
+					<div className="flex items-center rounded-md border p-0.5">
+						{ORIENTATION_OPTIONS.map(({ orientation, label }) => (
+							<Button
+								key={orientation}
+								type="button"
+								size="xs"
+								variant={
+									activeObject.orientation === orientation ? "default" : "ghost"
+								}
+								onClick={() => onChange({ orientation })}
+							>
+								{label}
+							</Button>
+						))}
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,228 @@
+import { Image as ImageIcon, Upload } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { getFillSwatchColor, type TextFill } from "@/lib/gradient-fill";
+import {
+	createPatternFill,
+	fetchTextureManifest,
+	getPatternImageUrl,
+	getTextureSource,
+	getTextureUrl,
+	imageFileToTexture,
+	isPatternFill,
+	type PatternFill,
+	type TextureEntry,
+} from "@/lib/pattern-fill";
+
+const MIN_SCALE_PERCENT = 10;
+const MAX_SCALE_PERCENT = 400;
+const MAX_OFFSET = 256;
+
+interface PatternFillPopoverProps {
+	fill: TextFill;
+	onChange: (fill: TextFill) => void;
+}
+
+/** Texture or uploaded image fill with scale, rotation and offset. */
+export function PatternFillPopover({
+	fill,
+	onChange,
+}: PatternFillPopoverProps) {
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [open, setOpen] = useState(false);
+	const [textures, setTextures] = useState<TextureEntry[] | null>(null);
+
+	useEffect(() => {
+		if (!open || textures) return;
+		let cancelled = false;
+		fetchTextureManifest()
+			.catch(() => [])
+			.then((entries) => {
+				if (!cancelled) setTextures(entries);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [open, textures]);
+
+	const pattern = isPatternFill(fill) ? fill : null;
+	const patternImageUrl = pattern && getPatternImageUrl(pattern.source);
+
+	const update = (patch: Partial<PatternFill>) => {
+		if (pattern) onChange({ ...pattern, ...patch });
+	};
+
+	// A new image keeps the current scale, rotation and offset
+	const selectSource = (source: string) =>
+		onChange(pattern ? { ...pattern, source } : createPatternFill(source));
+
+	const handleUpload = async (file: File | null) => {
+		if (!file) return;
+		try {
+			selectSource(await imageFileToTexture(file));
+		} catch (err) {
+			if (import.meta.env.DEV)
+				console.warn("[jx3-photo-maker] texture upload failed:", err);
+		}
+	};
+
+	const sliders: Array<{
+		label: string;
+		value: number;
+		min: number;
+		max: number;
+		unit: string;
+		onChange: (value: number) => void;
+	}> = pattern
+		? [
+				{
+					label: "缩放",
+					value: Math.round(pattern.scale * 100),
+					min: MIN_SCALE_PERCENT,
+					max: MAX_SCALE_PERCENT,
+					unit: "%",
+					onChange: (value) => update({ scale: value / 100 }),
+				},
+				{
+					label: "旋转",
+					value: pattern.angle,
+					min: 0,
+					max: 360,
+					unit: "°",
+					onChange: (angle) => update({ angle }),
+				},
+				{
+					label: "水平偏移",
+					value: pattern.offsetX,
+					min: -MAX_OFFSET,
+					max: MAX_OFFSET,
+					unit: "",
+					onChange: (offsetX) => update({ offsetX }),
+				},
+				{
+					label: "垂直偏移",
+					value: pattern.offsetY,
+					min: -MAX_OFFSET,
+					max: MAX_OFFSET,
+					unit: "",
+					onChange: (offsetY) => update({ offsetY }),
+				},
+			]
+		: [];
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<button
+					type="button"
+					title="纹理填充"
+					className={`flex h-9 w-9 shrink-0 items-center justify-center rounded border bg-cover text-muted-foreground ${
+						pattern ? "ring-2 ring-ring ring-offset-1" : ""
+					}`}
+					style={
+						patternImageUrl
+							? { backgroundImage: `url("${patternImageUrl}")` }
+							: undefined
+					}
+				>
+					{!pattern && <ImageIcon className="size-4" />}
+				</button>
+			</PopoverTrigger>
+			<PopoverContent
+				className="w-[calc(100vw-1rem)] max-w-[340px] p-3"
+				side="bottom"
+				align="end"
+				sideOffset={8}
+			>
+				<div className="flex flex-col gap-3">
+					<div className="flex items-center gap-2">
+						<div className="text-xs font-medium text-muted-foreground">
+							纹理
+						</div>
+						<Button
+							type="button"
+							size="xs"
+							variant="ghost"
+							className="ml-auto"
+							disabled={!pattern}
+							title="改回纯色填充"
+							onClick={() => onChange(getFillSwatchColor(fill))}
+						>
+							纯色
+						</Button>
+					</div>
+
+					<div className="grid grid-cols-5 gap-1.5">
+						{textures === null && (
+							<div className="col-span-5 text-xs text-muted-foreground">
+								加载中...
+							</div>
+						)}
+						{textures?.map((texture) => {
+							const url = getTextureUrl(texture.file);
+							const source = getTextureSource(texture.file);
+							const active = pattern?.source === source;
+							return (
+								<button
+									key={texture.file}
+									type="button"
+									title={texture.name}
+									className={`h-12 w-12 rounded-sm border bg-cover transition-transform hover:scale-105 ${
+										active ? "ring-2 ring-ring ring-offset-1" : ""
+									}`}
+									style={{ backgroundImage: `url("${url}")` }}
+									onClick={() => selectSource(source)}
+								/>
+							);
+						})}
+						<button
+							type="button"
+							title="上传图片作为纹理"
+							className="flex h-12 w-12 items-center justify-center rounded-sm border border-dashed text-muted-foreground transition-colors hover:bg-accent"
+							onClick={() => fileInputRef.current?.click()}
+						>
+							<Upload className="size-4" />
+						</button>
+						<input
+							ref={fileInputRef}
+							type="file"
+							accept="image/*"
+							className="hidden"
+							onChange={(e) => {
+								const file = e.target.files?.[0] ?? null;
+								e.target.value = "";
+								void handleUpload(file);
+							}}
+						/>
+					</div>
+
+					{sliders.map((slider) => (
+						<div key={slider.label} className="flex items-center gap-3">
+							<div className="w-16 shrink-0 text-xs text-muted-foreground">
+								{slider.label}
+							</div>
+							<Slider
+								className="flex-1"
+								value={[slider.value]}
+								min={slider.min}
+								max={slider.max}
+								step={1}
+								onValueChange={([value = 0]) => slider.onChange(value)}
+							/>
+							<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+								{slider.value}
+								{slider.unit}
+							</div>
+						</div>
+					))}
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+}
@@ -0,0 +1,100 @@
+import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { isObjectLocked } from "@/lib/canvas-snapshot";
+import {
+	isRedactionRegion,
+	MAX_REDACTION_STRENGTH,
+	MIN_REDACTION_STRENGTH,
+	REDACTION_EFFECT_LABELS,
+	REDACTION_EFFECTS,
+	type RedactionRegion,
+	type RedactionStyle,
+	readRedactionStyle,
+} from "@/lib/redaction";
+import { useEditorStore } from "@/store/editor-store";
+
+interface RedactionStyleFieldsProps {
+	style: RedactionStyle;
+	onChange: (patch: Partial<RedactionStyle>) => void;
+}
+
+/** Effect and strength rows, shared by the sidebar and the toolbar. */
+export function RedactionStyleFields({
+	style,
+	onChange,
+}: RedactionStyleFieldsProps) {
+	return (
+		<>
+			<div className="flex items-center rounded-md border p-0.5">
+				{REDACTION_EFFECTS.map((effect) => (
+					<Button
+						key={effect}
+						type="button"
+						size="xs"
+						className="flex-1"
+						variant={style.effect === effect ? "default" : "ghost"}
+						onClick={() => onChange({ effect })}
+					>
+						{REDACTION_EFFECT_LABELS[effect]}
+					</Button>
+				))}
+			</div>
+
+			{style.effect === "solid" ? (
+				<ColorPickerPopover
+					label="颜色"
+					color={style.solidColor}
+					onChange={(solidColor) => onChange({ solidColor })}
+				/>
+			) : (
+				<div className="flex items-center gap-3">
+					<div className="w-16 shrink-0 text-xs text-muted-foreground">
+						{style.effect === "pixelate" ? "块大小" : "模糊半径"}
+					</div>
+					<Slider
+						className="flex-1"
+						value={[style.strength]}
+						min={MIN_REDACTION_STRENGTH}
+						max={MAX_REDACTION_STRENGTH}
+						step={1}
+						onValueChange={([value = MIN_REDACTION_STRENGTH]) =>
+							onChange({ strength: value })
+						}
+					/>
+					<div className="w-8 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+						{style.strength}
+					</div>
+				</div>
+			)}
+		</>
+	);
+}
+
+interface RedactionPanelProps {
+	onChange: (patch: Partial<RedactionStyle>) => void;
+}
+
+/** Effect of the selected redaction regions. */
+export function RedactionPanel({ onChange }: RedactionPanelProps) {
+	const canvas = useEditorStore((s) => s.canvas);
+	useEditorStore((s) => s.activeObjectRevision);
+
+	const [first] = (canvas?.getActiveObjects() ?? []).filter(
+		(obj): obj is RedactionRegion =>
+			isRedactionRegion(obj) && !isObjectLocked(obj),
+	);
+	if (!first) return null;
+
+	return (
+		<div className="grid gap-2">
+			<div className="text-xs text-muted-foreground">打码</div>
+			<div className="flex flex-col gap-3 rounded-md border p-3">
+				<RedactionStyleFields
+					style={readRedactionStyle(first)}
+					onChange={onChange}
+				/>
+			</div>
+		</div>
+	);
+}
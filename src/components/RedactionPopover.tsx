@@ -0,0 +1,95 @@
+import { EyeOff } from "lucide-react";
+import { RedactionStyleFields } from "@/components/RedactionPanel";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useBrushStore } from "@/store/brush-store";
+import { useRedactionStore } from "@/store/redaction-store";
+
+const MIN_REDACTION_BRUSH_WIDTH = 8;
+const MAX_REDACTION_BRUSH_WIDTH = 200;
+
+interface RedactionPopoverProps {
+	disabled?: boolean;
+	onAddRect: () => void;
+}
+
+/** Adds redaction regions and sets the style new ones start with. */
+export function RedactionPopover({
+	disabled,
+	onAddRect,
+}: RedactionPopoverProps) {
+	const redacting = useBrushStore((s) => s.redacting);
+	const setRedacting = useBrushStore((s) => s.setRedacting);
+	const style = useRedactionStore((s) => s.style);
+	const setStyle = useRedactionStore((s) => s.setStyle);
+	const brushWidth = useRedactionStore((s) => s.brushWidth);
+	const setBrushWidth = useRedactionStore((s) => s.setBrushWidth);
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>
+				<Button
+					size="icon-sm"
+					variant={redacting ? "secondary" : "outline"}
+					title="打码"
+				>
+					<EyeOff className="size-3.5" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent side="top" align="end" className="w-72 p-3">
+				<div className="flex flex-col gap-3 text-sm">
+					<RedactionStyleFields style={style} onChange={setStyle} />
+
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						disabled={disabled}
+						onClick={onAddRect}
+					>
+						添加矩形打码
+					</Button>
+
+					<div className="flex items-center justify-between">
+						<Label htmlFor="redaction-brush-toggle">涂抹打码</Label>
+						<Switch
+							id="redaction-brush-toggle"
+							checked={redacting}
+							disabled={disabled}
+							onCheckedChange={setRedacting}
+						/>
+					</div>
+					<div className="flex items-center gap-3">
+						<div className="w-12 shrink-0 text-xs text-muted-foreground">
+							笔刷
+						</div>
+						<Slider
+							className="flex-1"
+							value={[brushWidth]}
+							min={MIN_REDACTION_BRUSH_WIDTH}
+							max={MAX_REDACTION_BRUSH_WIDTH}
+							step={1}
+							onValueChange={([value = MIN_REDACTION_BRUSH_WIDTH]) =>
+								setBrushWidth(value)
+							}
+						/>
+						<div className="w-8 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+							{brushWidth}
+						</div>
+					</div>
+
+					<div className="text-xs text-muted-foreground">
+						仅在本地处理，原图不会上传。打码区域可移动、缩放，导出时按原图分辨率合成
+					</div>
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+}
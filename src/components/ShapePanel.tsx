@@ -0,0 +1,206 @@
+import { Rect } from "fabric";
+import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { isObjectLocked } from "@/lib/canvas-snapshot";
+import {
+	ARROW_HEAD_LABELS,
+	ARROW_HEADS,
+	ArrowLine,
+	isShapeObject,
+	readShapeStyle,
+	RegularPolygon,
+	SHAPE_DASH_LABELS,
+	SHAPE_DASHES,
+	type ShapeObject,
+	type ShapeStyle,
+} from "@/lib/shapes";
+import { useEditorStore } from "@/store/editor-store";
+
+const MAX_SHAPE_STROKE = 40;
+const MAX_CORNER_RADIUS = 200;
+const MIN_SIDES = 3;
+const MAX_SIDES = 12;
+
+interface ShapePanelProps {
+	onChange: (patch: Partial<ShapeStyle>) => void;
+}
+
+interface ShapeSlider {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	unit: string;
+	onChange: (value: number) => void;
+}
+
+/** Fill, outline and geometry of the selected shapes. */
+export function ShapePanel({ onChange }: ShapePanelProps) {
+	const canvas = useEditorStore((s) => s.canvas);
+	useEditorStore((s) => s.activeObjectRevision);
+
+	const shapes = (canvas?.getActiveObjects() ?? []).filter(
+		(obj): obj is ShapeObject => isShapeObject(obj) && !isObjectLocked(obj),
+	);
+	const [first] = shapes;
+	if (!first) return null;
+
+	const style = readShapeStyle(first);
+	// Rows for one kind read from the first selected shape of that kind
+	const filled = shapes.find((obj) => !(obj instanceof ArrowLine));
+	const rect = shapes.find((obj) => obj instanceof Rect);
+	const line = shapes.find((obj) => obj instanceof ArrowLine);
+	const polygon = shapes.find((obj) => obj instanceof RegularPolygon);
+	const star = shapes.find(
+		(obj) => obj instanceof RegularPolygon && obj.innerRatio < 1,
+	);
+	const fill = filled ? readShapeStyle(filled).fill : null;
+
+	const sliders: ShapeSlider[] = [
+		{
+			label: "粗细",
+			value: style.strokeWidth,
+			min: line ? 1 : 0,
+			max: MAX_SHAPE_STROKE,
+			unit: "",
+			onChange: (strokeWidth) => onChange({ strokeWidth }),
+		},
+	];
+	if (rect instanceof Rect) {
+		sliders.push({
+			label: "圆角",
+			value: rect.rx,
+			min: 0,
+			max: MAX_CORNER_RADIUS,
+			unit: "",
+			onChange: (cornerRadius) => onChange({ cornerRadius }),
+		});
+	}
+	if (polygon instanceof RegularPolygon) {
+		sliders.push({
+			label: star ? "角数" : "边数",
+			value: polygon.sides,
+			min: MIN_SIDES,
+			max: MAX_SIDES,
+			unit: "",
+			onChange: (sides) => onChange({ sides }),
+		});
+	}
+	if (star instanceof RegularPolygon) {
+		sliders.push({
+			label: "内径",
+			value: Math.round(star.innerRatio * 100),
+			min: 10,
+			max: 90,
+			unit: "%",
+			onChange: (value) => onChange({ innerRatio: value / 100 }),
+		});
+	}
+	sliders.push({
+		label: "不透明度",
+		value: Math.round(style.opacity * 100),
+		min: 0,
+		max: 100,
+		unit: "%",
+		onChange: (value) => onChange({ opacity: value / 100 }),
+	});
+
+	return (
+		<div className="grid gap-2">
+			<div className="text-xs text-muted-foreground">形状</div>
+			<div className="flex flex-col gap-3 rounded-md border p-3">
+				{filled && (
+					<div className="flex items-center gap-2">
+						<div className="flex-1">
+							{fill ? (
+								<ColorPickerPopover
+									label="填充"
+									color={fill}
+									onChange={(color) => onChange({ fill: color })}
+								/>
+							) : (
+								<div className="text-xs text-muted-foreground">填充</div>
+							)}
+						</div>
+						<Switch
+							checked={fill !== null}
+							title={fill ? "移除填充" : "添加填充"}
+							onCheckedChange={(checked) =>
+								onChange({ fill: checked ? style.stroke : null })
+							}
+						/>
+					</div>
+				)}
+
+				<ColorPickerPopover
+					label="描边"
+					color={style.stroke}
+					onChange={(stroke) => onChange({ stroke })}
+				/>
+
+				<div className="flex items-center gap-3">
+					<div className="w-16 shrink-0 text-xs text-muted-foreground">
+						线型
+					</div>
+					<div className="flex items-center rounded-md border p-0.5">
+						{SHAPE_DASHES.map((dash) => (
+							<Button
+								key={dash}
+								type="button"
+								size="xs"
+								variant={style.dash === dash ? "default" : "ghost"}
+								onClick={() => onChange({ dash })}
+							>
+								{SHAPE_DASH_LABELS[dash]}
+							</Button>
+						))}
+					</div>
+				</div>
+
+				{line instanceof ArrowLine &&
+					(["startHead", "endHead"] as const).map((end) => (
+						<div key={end} className="flex items-center gap-3">
+							<div className="w-16 shrink-0 text-xs text-muted-foreground">
+								{end === "startHead" ? "起点" : "终点"}
+							</div>
+							<div className="flex flex-wrap items-center rounded-md border p-0.5">
+								{ARROW_HEADS.map((head) => (
+									<Button
+										key={head}
+										type="button"
+										size="xs"
+										variant={line[end] === head ? "default" : "ghost"}
+										onClick={() => onChange({ [end]: head })}
+									>
+										{ARROW_HEAD_LABELS[head]}
+									</Button>
+								))}
+							</div>
+						</div>
+					))}
+
+				{sliders.map((slider) => (
+					<div key={slider.label} className="flex items-center gap-3">
+						<div className="w-16 shrink-0 text-xs text-muted-foreground">
+							{slider.label}
+						</div>
+						<Slider
+							className="flex-1"
+							value={[slider.value]}
+							min={slider.min}
+							max={slider.max}
+							step={1}
+							onValueChange={([value = slider.min]) => slider.onChange(value)}
+						/>
+						<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+							{Math.round(slider.value)}
+							{slider.unit}
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
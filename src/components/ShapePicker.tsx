@@ -0,0 +1,46 @@
+import {
+	Circle,
+	Hexagon,
+	type LucideIcon,
+	Minus,
+	MoveUpRight,
+	Square,
+	Star,
+} from "lucide-react";
+import { SHAPE_KINDS, SHAPE_LABELS, type ShapeKind } from "@/lib/shapes";
+
+const SHAPE_ICONS: Record<ShapeKind, LucideIcon> = {
+	rect: Square,
+	ellipse: Circle,
+	line: Minus,
+	arrow: MoveUpRight,
+	polygon: Hexagon,
+	star: Star,
+};
+
+interface ShapePickerProps {
+	onPick: (kind: ShapeKind) => void;
+}
+
+/** One button per shape tool, for the add-shape popovers. */
+export function ShapePicker({ onPick }: ShapePickerProps) {
+	return (
+		<div className="grid grid-cols-3 gap-1.5">
+			{SHAPE_KINDS.map((kind) => {
+				const Icon = SHAPE_ICONS[kind];
+				return (
+					<button
+						key={kind}
+						type="button"
+						onClick={() => onPick(kind)}
+						className="flex min-h-10 flex-col items-center justify-center gap-1 rounded-md border p-1.5 text-xs transition hover:border-primary/60"
+						title={SHAPE_LABELS[kind]}
+					>
+						<Icon className="size-5" />
+						{SHAPE_LABELS[kind]}
+					</button>
+				);
+			})}
+		</div>
+	);
+}
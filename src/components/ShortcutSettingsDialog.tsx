@@ -0,0 +1,165 @@
+import { RotateCcw, X } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { eventToShortcut, formatShortcut } from "@/lib/shortcuts";
+import {
+	type EditorCommand,
+	getCommandShortcuts,
+	useCommandStore,
+	useKeymapStore,
+} from "@/store/command-store";
+
+export function ShortcutSettingsDialog() {
+	const open = useCommandStore((s) => s.shortcutSettingsOpen);
+	const setOpen = useCommandStore((s) => s.setShortcutSettingsOpen);
+	const commands = useCommandStore((s) => s.commands);
+	const overrides = useKeymapStore((s) => s.overrides);
+	const setShortcuts = useKeymapStore((s) => s.setShortcuts);
+	const resetShortcuts = useKeymapStore((s) => s.resetShortcuts);
+	const resetAll = useKeymapStore((s) => s.resetAll);
+	const [recordingId, setRecordingId] = useState<string | null>(null);
+	const [notice, setNotice] = useState("");
+
+	const groups = commands.reduce<Map<string, EditorCommand[]>>(
+		(map, command) => {
+			const list = map.get(command.group) ?? [];
+			list.push(command);
+			map.set(command.group, list);
+			return map;
+		},
+		new Map(),
+	);
+
+	const assignShortcut = (command: EditorCommand, shortcut: string) => {
+		const conflict = commands.find(
+			(other) =>
+				other.id !== command.id &&
+				getCommandShortcuts(other, overrides).includes(shortcut),
+		);
+		if (conflict) {
+			setShortcuts(
+				conflict.id,
+				getCommandShortcuts(conflict, overrides).filter((s) => s !== shortcut),
+			);
+			setNotice(
+				`${formatShortcut(shortcut)} 已从「${conflict.title}」移除并分配给「${command.title}」`,
+			);
+		} else {
+			setNotice("");
+		}
+		setShortcuts(command.id, [shortcut]);
+	};
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={(next) => {
+				setOpen(next);
+				setRecordingId(null);
+				setNotice("");
+			}}
+		>
+			<DialogContent className="sm:max-w-xl">
+				<DialogHeader>
+					<DialogTitle>快捷键设置</DialogTitle>
+					<DialogDescription>
+						点击快捷键后按下新的组合键即可重新绑定，按 Esc 取消。设置保存在本地浏览器。
+					</DialogDescription>
+				</DialogHeader>
+
+				{notice && (
+					<div className="rounded-md border border-primary/30 bg-primary/5 px-3 py-2 text-xs text-primary">
+						{notice}
+					</div>
+				)}
+
+				<div className="flex max-h-[60svh] flex-col gap-4 overflow-y-auto pr-1">
+					{[...groups.entries()].map(([group, list]) => (
+						<div key={group} className="flex flex-col gap-1">
+							<div className="text-xs font-medium text-muted-foreground">
+								{group}
+							</div>
+							{list.map((command) => {
+								const shortcuts = getCommandShortcuts(command, overrides);
+								const recording = recordingId === command.id;
+								return (
+									<div
+										key={command.id}
+										className="flex items-center gap-2 rounded-md px-1 py-0.5 text-sm hover:bg-muted/40"
+									>
+										<span className="flex-1 truncate">{command.title}</span>
+										<button
+											type="button"
+											className="min-w-24 rounded border bg-muted px-2 py-0.5 font-mono text-xs text-muted-foreground"
+											onClick={() => setRecordingId(command.id)}
+											onBlur={() => {
+												if (recording) setRecordingId(null);
+											}}
+											onKeyDown={(event) => {
+												if (!recording) return;
+												event.preventDefault();
+												event.stopPropagation();
+												if (event.key === "Escape") {
+													setRecordingId(null);
+													return;
+												}
+												const shortcut = eventToShortcut(event.nativeEvent);
+												if (!shortcut) return;
+												assignShortcut(command, shortcut);
+												setRecordingId(null);
+											}}
+										>
+											{recording
+												? "按下新快捷键..."
+												: shortcuts.map(formatShortcut).join(" / ") || "未绑定"}
+										</button>
+										<Button
+											type="button"
+											size="icon-xs"
+											variant="ghost"
+											title="清除"
+											onClick={() => setShortcuts(command.id, [])}
+										>
+											<X className="size-3.5" />
+										</Button>
+										<Button
+											type="button"
+											size="icon-xs"
+											variant="ghost"
+											title="恢复默认"
+											disabled={overrides[command.id] === undefined}
+											onClick={() => resetShortcuts(command.id)}
+										>
+											<RotateCcw className="size-3.5" />
+										</Button>
+									</div>
+								);
+							})}
+						</div>
+					))}
+				</div>
+
+				<div className="flex justify-end">
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						onClick={() => {
+							resetAll();
+							setNotice("");
+						}}
+					>
+						全部恢复默认
+					</Button>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
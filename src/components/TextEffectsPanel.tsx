@@ -0,0 +1,281 @@
+import {
+	ChevronDown,
+	ChevronRight,
+	ChevronUp,
+	Plus,
+	Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { Button } from "@/components/ui/button";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+	createTextEffect,
+	TEXT_EFFECT_KINDS,
+	TEXT_EFFECT_LABELS,
+	type TextEffect,
+} from "@/lib/text-effects";
+
+interface EffectSlider {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	unit: string;
+	onChange: (value: number) => void;
+}
+
+interface TextEffectsPanelProps {
+	effects: TextEffect[];
+	/** Selected texts have different stacks */
+	mixed?: boolean;
+	onChange: (effects: TextEffect[]) => void;
+}
+
+function getEffectSliders(
+	effect: TextEffect,
+	update: (patch: Partial<TextEffect>) => void,
+): EffectSlider[] {
+	const sliders: EffectSlider[] = [];
+	if (effect.kind === "stroke") {
+		sliders.push({
+			label: "粗细",
+			value: effect.width,
+			min: 1,
+			max: 32,
+			unit: "",
+			onChange: (width) => update({ width }),
+		});
+	}
+	if (effect.kind === "drop-shadow" || effect.kind === "inner-shadow") {
+		sliders.push(
+			{
+				label: "角度",
+				value: effect.angle,
+				min: 0,
+				max: 360,
+				unit: "°",
+				onChange: (angle) => update({ angle }),
+			},
+			{
+				label: "距离",
+				value: effect.distance,
+				min: 0,
+				max: 64,
+				unit: "",
+				onChange: (distance) => update({ distance }),
+			},
+		);
+	}
+	if (effect.kind === "long-shadow") {
+		sliders.push(
+			{
+				label: "角度",
+				value: effect.angle,
+				min: 0,
+				max: 360,
+				unit: "°",
+				onChange: (angle) => update({ angle }),
+			},
+			{
+				label: "长度",
+				value: effect.length,
+				min: 1,
+				max: 200,
+				unit: "",
+				onChange: (length) => update({ length }),
+			},
+		);
+	}
+	if ("blur" in effect) {
+		sliders.push({
+			label: "模糊",
+			value: effect.blur,
+			min: 0,
+			max: 64,
+			unit: "",
+			onChange: (blur) => update({ blur }),
+		});
+	}
+	sliders.push({
+		label: "不透明度",
+		value: Math.round(effect.opacity * 100),
+		min: 0,
+		max: 100,
+		unit: "%",
+		onChange: (value) => update({ opacity: value / 100 }),
+	});
+	return sliders;
+}
+
+/** Ordered effect stack of the selected texts, from the glyphs outwards. */
+export function TextEffectsPanel({
+	effects,
+	mixed = false,
+	onChange,
+}: TextEffectsPanelProps) {
+	const [addOpen, setAddOpen] = useState(false);
+	const [expandedId, setExpandedId] = useState<string | null>(null);
+
+	const updateAt = (index: number, patch: Partial<TextEffect>) =>
+		onChange(
+			effects.map((effect, i) =>
+				i === index ? ({ ...effect, ...patch } as TextEffect) : effect,
+			),
+		);
+
+	const move = (index: number, delta: number) => {
+		const target = index + delta;
+		if (target < 0 || target >= effects.length) return;
+		const next = [...effects];
+		const [effect] = next.splice(index, 1);
+		if (effect) next.splice(target, 0, effect);
+		onChange(next);
+	};
+
+	const add = (kind: TextEffect["kind"]) => {
+		const effect = createTextEffect(kind);
+		setAddOpen(false);
+		setExpandedId(effect.id);
+		onChange([...effects, effect]);
+	};
+
+	return (
+		<div className="grid gap-2">
+			<div className="flex items-center justify-between">
+				<div className="text-xs text-muted-foreground">
+					文字效果
+					{mixed ? "（混合）" : ""}
+				</div>
+				<Popover open={addOpen} onOpenChange={setAddOpen}>
+					<PopoverTrigger asChild>
+						<Button type="button" size="xs" variant="outline">
+							<Plus className="size-3.5" />
+							添加
+						</Button>
+					</PopoverTrigger>
+					<PopoverContent className="w-32 p-1" align="end" sideOffset={4}>
+						{TEXT_EFFECT_KINDS.map((kind) => (
+							<Button
+								key={kind}
+								type="button"
+								size="xs"
+								variant="ghost"
+								className="w-full justify-start"
+								onClick={() => add(kind)}
+							>
+								{TEXT_EFFECT_LABELS[kind]}
+							</Button>
+						))}
+					</PopoverContent>
+				</Popover>
+			</div>
+
+			{effects.length === 0 && (
+				<div className="rounded-md border border-dashed p-3 text-center text-xs text-muted-foreground">
+					暂无效果
+				</div>
+			)}
+
+			{effects.map((effect, index) => {
+				const expanded = expandedId === effect.id;
+				const update = (patch: Partial<TextEffect>) => updateAt(index, patch);
+				return (
+					<div key={effect.id} className="rounded-md border">
+						<div className="flex items-center gap-1 p-1.5">
+							<Switch
+								checked={effect.enabled}
+								title={effect.enabled ? "隐藏效果" : "显示效果"}
+								onCheckedChange={(enabled) => update({ enabled })}
+							/>
+							<button
+								type="button"
+								className="flex min-w-0 flex-1 items-center gap-1.5 px-1 text-left text-xs"
+								onClick={() => setExpandedId(expanded ? null : effect.id)}
+							>
+								{expanded ? (
+									<ChevronDown className="size-3.5 shrink-0" />
+								) : (
+									<ChevronRight className="size-3.5 shrink-0" />
+								)}
+								<span
+									className="size-3 shrink-0 rounded-sm border"
+									style={{ backgroundColor: effect.color }}
+								/>
+								<span className="truncate">
+									{TEXT_EFFECT_LABELS[effect.kind]}
+								</span>
+							</button>
+							<Button
+								type="button"
+								size="icon-xs"
+								variant="ghost"
+								title="向内移动"
+								disabled={index === 0}
+								onClick={() => move(index, -1)}
+							>
+								<ChevronUp className="size-3.5" />
+							</Button>
+							<Button
+								type="button"
+								size="icon-xs"
+								variant="ghost"
+								title="向外移动"
+								disabled={index === effects.length - 1}
+								onClick={() => move(index, 1)}
+							>
+								<ChevronDown className="size-3.5" />
+							</Button>
+							<Button
+								type="button"
+								size="icon-xs"
+								variant="ghost"
+								title="删除效果"
+								onClick={() =>
+									onChange(effects.filter((item) => item.id !== effect.id))
+								}
+							>
+								<Trash2 className="size-3.5" />
+							</Button>
+						</div>
+
+						{expanded && (
+							<div className="flex flex-col gap-3 border-t p-3">
+								<ColorPickerPopover
+									label="颜色"
+									color={effect.color}
+									onChange={(color) => update({ color })}
+								/>
+								{getEffectSliders(effect, update).map((slider) => (
+									<div key={slider.label} className="flex items-center gap-3">
+										<div className="w-16 shrink-0 text-xs text-muted-foreground">
+											{slider.label}
+										</div>
+										<Slider
+											className="flex-1"
+											value={[slider.value]}
+											min={slider.min}
+											max={slider.max}
+											step={1}
+											onValueChange={([value = 0]) => slider.onChange(value)}
+										/>
+										<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+											{Math.round(slider.value)}
+											{slider.unit}
+										</div>
+									</div>
+								))}
+							</div>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,94 @@
+import { IText } from "fabric";
+import {
+	AlignCenter,
+	AlignJustify,
+	AlignLeft,
+	AlignRight,
+	type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { VerticalText } from "@/lib/vertical-text";
+import { type WrappedTextAlign, WrappedText } from "@/lib/wrapped-text";
+import { useEditorStore } from "@/store/editor-store";
+
+const MIN_LINE_HEIGHT = 0.5;
+const MAX_LINE_HEIGHT = 3;
+
+const TEXT_ALIGN_OPTIONS: Array<{
+	align: WrappedTextAlign;
+	label: string;
+	Icon: LucideIcon;
+}> = [
+	{ align: "left", label: "左对齐", Icon: AlignLeft },
+	{ align: "center", label: "居中", Icon: AlignCenter },
+	{ align: "right", label: "右对齐", Icon: AlignRight },
+	{ align: "justify-left", label: "两端对齐", Icon: AlignJustify },
+];
+
+interface TextParagraphPanelProps {
+	onChange: (patch: Partial<Pick<IText, "textAlign" | "lineHeight">>) => void;
+}
+
+/** Alignment and line height of horizontal and wrapped text. */
+export function TextParagraphPanel({ onChange }: TextParagraphPanelProps) {
+	const activeObject = useEditorStore((s) => s.activeObject);
+	useEditorStore((s) => s.activeObjectRevision);
+
+	if (
+		!(activeObject instanceof IText) ||
+		activeObject instanceof VerticalText
+	) {
+		return null;
+	}
+
+	// Only text boxes have a fixed width to justify against
+	const wrapped = activeObject instanceof WrappedText;
+	const options = wrapped
+		? TEXT_ALIGN_OPTIONS
+		: TEXT_ALIGN_OPTIONS.filter(({ align }) => align !== "justify-left");
+
+	return (
+		<div className="flex flex-col gap-3 rounded-md border p-3">
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">对齐</div>
+				<div className="flex items-center rounded-md border p-0.5">
+					{options.map(({ align, label, Icon }) => (
+						<Button
+							key={align}
+							type="button"
+							size="icon-xs"
+							variant={
+								activeObject.textAlign === align ? "default" : "ghost"
+							}
+							title={label}
+							onClick={() => onChange({ textAlign: align })}
+						>
+							<Icon className="size-3.5" />
+						</Button>
+					))}
+				</div>
+				{wrapped && (
+					<div className="ml-auto text-xs text-muted-foreground">
+						拖动左右控制点调整宽度
+					</div>
+				)}
+			</div>
+
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">行距</div>
+				<Slider
+					className="flex-1"
+					value={[activeObject.lineHeight]}
+					min={MIN_LINE_HEIGHT}
+					max={MAX_LINE_HEIGHT}
+					step={0.05}
+					onValueChange={([value]) => onChange({ lineHeight: value })}
+				/>
+				<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+					{activeObject.lineHeight.toFixed(2)}
+				</div>
+			</div>
+		</div>
+	);
+}
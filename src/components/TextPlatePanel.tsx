@@ -0,0 +1,134 @@
+import { ColorPickerPopover } from "@/components/ColorPickerPopover";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+	createTextPlate,
+	TEXT_PLATE_LABELS,
+	TEXT_PLATE_SHAPES,
+	type TextPlate,
+} from "@/lib/text-plates";
+
+const MAX_PLATE_PADDING = 120;
+const MAX_PLATE_BORDER = 16;
+
+interface TextPlatePanelProps {
+	/** Plate of the selected texts; null when they have none */
+	plate: TextPlate | null;
+	/** Selected texts have different plates */
+	mixed?: boolean;
+	onChange: (plate: TextPlate | null) => void;
+}
+
+/** Background plate drawn behind the selected texts. */
+export function TextPlatePanel({
+	plate,
+	mixed = false,
+	onChange,
+}: TextPlatePanelProps) {
+	const update = (patch: Partial<TextPlate>) => {
+		if (plate) onChange({ ...plate, ...patch });
+	};
+
+	const sliders: Array<{
+		label: string;
+		value: number;
+		max: number;
+		unit: string;
+		onChange: (value: number) => void;
+	}> = plate
+		? [
+				{
+					label: "不透明度",
+					value: Math.round(plate.opacity * 100),
+					max: 100,
+					unit: "%",
+					onChange: (value) => update({ opacity: value / 100 }),
+				},
+				{
+					label: "内边距",
+					value: plate.padding,
+					max: MAX_PLATE_PADDING,
+					unit: "",
+					onChange: (padding) => update({ padding }),
+				},
+				{
+					label: "边框",
+					value: plate.borderWidth,
+					max: MAX_PLATE_BORDER,
+					unit: "",
+					onChange: (borderWidth) => update({ borderWidth }),
+				},
+			]
+		: [];
+
+	return (
+		<div className="grid gap-2">
+			<div className="flex items-center justify-between">
+				<div className="text-xs text-muted-foreground">
+					背景板
+					{mixed ? "（混合）" : ""}
+				</div>
+				<Switch
+					checked={plate !== null}
+					title={plate ? "移除背景板" : "添加背景板"}
+					onCheckedChange={(checked) =>
+						onChange(checked ? createTextPlate("rounded") : null)
+					}
+				/>
+			</div>
+
+			{plate && (
+				<div className="flex flex-col gap-3 rounded-md border p-3">
+					<div className="flex items-center gap-3">
+						<div className="w-16 shrink-0 text-xs text-muted-foreground">
+							形状
+						</div>
+						<div className="flex flex-wrap items-center rounded-md border p-0.5">
+							{TEXT_PLATE_SHAPES.map((shape) => (
+								<Button
+									key={shape}
+									type="button"
+									size="xs"
+									variant={plate.shape === shape ? "default" : "ghost"}
+									onClick={() => onChange(createTextPlate(shape, plate))}
+								>
+									{TEXT_PLATE_LABELS[shape]}
+								</Button>
+							))}
+						</div>
+					</div>
+					<ColorPickerPopover
+						label="填充"
+						color={plate.fill}
+						onChange={(fill) => update({ fill })}
+					/>
+					<ColorPickerPopover
+						label="边框颜色"
+						color={plate.borderColor}
+						onChange={(borderColor) => update({ borderColor })}
+					/>
+					{sliders.map((slider) => (
+						<div key={slider.label} className="flex items-center gap-3">
+							<div className="w-16 shrink-0 text-xs text-muted-foreground">
+								{slider.label}
+							</div>
+							<Slider
+								className="flex-1"
+								value={[slider.value]}
+								min={0}
+								max={slider.max}
+								step={1}
+								onValueChange={([value = 0]) => slider.onChange(value)}
+							/>
+							<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+								{Math.round(slider.value)}
+								{slider.unit}
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
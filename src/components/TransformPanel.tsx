@@ -0,0 +1,222 @@
+import type { FabricObject } from "fabric";
+import { FlipHorizontal2, FlipVertical2, Link2, Unlink2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { isObjectLocked } from "@/lib/canvas-snapshot";
+import {
+	isTransformFieldMixed,
+	type ObjectTransform,
+	readObjectTransform,
+	type TransformPatch,
+} from "@/lib/transform";
+import { cn } from "@/lib/utils";
+import { useEditorStore } from "@/store/editor-store";
+
+type TransformField = keyof ObjectTransform;
+
+interface TransformPanelProps {
+	onChange: (patch: TransformPatch, keepAspectRatio: boolean) => void;
+}
+
+const LIVE_TRANSFORM_EVENTS = [
+	"object:moving",
+	"object:scaling",
+	"object:resizing",
+	"object:rotating",
+	"object:modified",
+] as const;
+
+function formatNumber(value: number): string {
+	return String(Math.round(value * 10) / 10);
+}
+
+interface NumberFieldProps {
+	label: string;
+	title: string;
+	value: number;
+	mixed: boolean;
+	suffix?: string;
+	onCommit: (value: number) => void;
+}
+
+function NumberField({
+	label,
+	title,
+	value,
+	mixed,
+	suffix,
+	onCommit,
+}: NumberFieldProps) {
+	const [draft, setDraft] = useState<string | null>(null);
+
+	const commit = () => {
+		if (draft === null) return;
+		const parsed = Number(draft);
+		setDraft(null);
+		if (draft.trim() !== "" && Number.isFinite(parsed)) onCommit(parsed);
+	};
+
+	return (
+		<label
+			className="flex h-8 min-w-0 items-center gap-1.5 rounded-md border bg-transparent px-2 text-xs focus-within:border-ring focus-within:ring-[3px] focus-within:ring-ring/50"
+			title={title}
+		>
+			<span className="w-3 shrink-0 text-muted-foreground">{label}</span>
+			<input
+				className="min-w-0 flex-1 bg-transparent tabular-nums outline-none placeholder:text-muted-foreground"
+				inputMode="decimal"
+				placeholder={mixed ? "混合" : undefined}
+				value={draft ?? (mixed ? "" : formatNumber(value))}
+				onChange={(e) => setDraft(e.target.value)}
+				onBlur={commit}
+				onKeyDown={(e) => {
+					if (e.key === "Enter") {
+						commit();
+						e.currentTarget.blur();
+					}
+					if (e.key === "Escape") {
+						setDraft(null);
+						e.currentTarget.blur();
+					}
+					if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+						e.preventDefault();
+						const step = (e.shiftKey ? 10 : 1) * (e.key === "ArrowUp" ? 1 : -1);
+						const base = draft === null ? value : Number(draft);
+						if (!Number.isFinite(base)) return;
+						setDraft(null);
+						onCommit(base + step);
+					}
+				}}
+			/>
+			{suffix && (
+				<span className="shrink-0 text-muted-foreground">{suffix}</span>
+			)}
+		</label>
+	);
+}
+
+/** X / Y / W / H / angle / flip of the selection, in image pixels. */
+export function TransformPanel({ onChange }: TransformPanelProps) {
+	const canvas = useEditorStore((s) => s.canvas);
+	const activeObject = useEditorStore((s) => s.activeObject);
+	// Re-read values after panel edits, undo and canvas transforms
+	useEditorStore((s) => s.activeObjectRevision);
+	useEditorStore((s) => s.layersRevision);
+	const [, setLiveRevision] = useState(0);
+	const [keepAspectRatio, setKeepAspectRatio] = useState(true);
+	const mixedConfirmCacheRef = useRef(new Set<TransformField>());
+
+	useEffect(() => {
+		if (!canvas) return;
+		const bump = () => setLiveRevision((revision) => revision + 1);
+		for (const name of LIVE_TRANSFORM_EVENTS) canvas.on(name, bump);
+		return () => {
+			for (const name of LIVE_TRANSFORM_EVENTS) canvas.off(name, bump);
+		};
+	}, [canvas]);
+
+	useEffect(() => {
+		mixedConfirmCacheRef.current.clear();
+	}, [activeObject]);
+
+	const targets: FabricObject[] = (canvas?.getActiveObjects() ?? []).filter(
+		(obj) => !isObjectLocked(obj),
+	);
+	const transforms = targets.map(readObjectTransform);
+	const [first] = transforms;
+	if (!first) return null;
+
+	const isBatchMode = transforms.length > 1;
+	const isMixed = (field: TransformField) =>
+		isTransformFieldMixed(transforms, field);
+
+	const ensureMixedFieldConfirmed = (field: TransformField) => {
+		if (!isBatchMode || !isMixed(field)) return true;
+		if (mixedConfirmCacheRef.current.has(field)) return true;
+
+		const confirmed = window.confirm(
+			"检测到混合值：当前选中的多个对象该属性不一致。确认后将统一覆盖为新值。",
+		);
+		if (confirmed) mixedConfirmCacheRef.current.add(field);
+		return confirmed;
+	};
+
+	const mixedLabel = (field: TransformField) =>
+		isBatchMode && isMixed(field) ? "（混合）" : "";
+
+	const apply = (field: TransformField, value: number | boolean) => {
+		if (!ensureMixedFieldConfirmed(field)) return;
+		onChange({ [field]: value }, keepAspectRatio);
+	};
+
+	const numberField = (
+		field: "x" | "y" | "width" | "height" | "angle",
+		label: string,
+		title: string,
+		suffix?: string,
+	) => (
+		<NumberField
+			label={label}
+			title={`${title}${mixedLabel(field)}`}
+			value={first[field]}
+			mixed={isBatchMode && isMixed(field)}
+			suffix={suffix}
+			onCommit={(value) => apply(field, value)}
+		/>
+	);
+
+	return (
+		<div className="grid gap-2">
+			<div className="grid grid-cols-2 gap-2">
+				{numberField("x", "X", "左边缘（原图像素）")}
+				{numberField("y", "Y", "上边缘（原图像素）")}
+			</div>
+			<div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+				{numberField("width", "W", "宽度（原图像素）")}
+				<Button
+					type="button"
+					size="icon-xs"
+					variant="ghost"
+					title={keepAspectRatio ? "已锁定宽高比" : "未锁定宽高比"}
+					aria-pressed={keepAspectRatio}
+					onClick={() => setKeepAspectRatio((value) => !value)}
+				>
+					{keepAspectRatio ? (
+						<Link2 className="size-3.5" />
+					) : (
+						<Unlink2 className="size-3.5 text-muted-foreground" />
+					)}
+				</Button>
+				{numberField("height", "H", "高度（原图像素）")}
+			</div>
+			<div className="grid grid-cols-[1fr_auto_auto] items-center gap-2">
+				{numberField(
+					"angle",
+					"∠",
+					"旋转角度（拖动旋转时按住 Shift 以 15° 吸附）",
+					"°",
+				)}
+				<Button
+					type="button"
+					size="icon-sm"
+					variant="outline"
+					title={`水平翻转${mixedLabel("flipX")}`}
+					className={cn(first.flipX && "bg-accent")}
+					onClick={() => apply("flipX", !first.flipX)}
+				>
+					<FlipHorizontal2 className="size-3.5" />
+				</Button>
+				<Button
+					type="button"
+					size="icon-sm"
+					variant="outline"
+					title={`垂直翻转${mixedLabel("flipY")}`}
+					className={cn(first.flipY && "bg-accent")}
+					onClick={() => apply("flipY", !first.flipY)}
+				>
+					<FlipVertical2 className="size-3.5" />
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,111 @@
+import {
+	AlignCenterHorizontal,
+	AlignEndHorizontal,
+	AlignStartHorizontal,
+	type LucideIcon,
+} from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+	type VerticalColumnAlign,
+	type VerticalLayoutProps,
+	VerticalText,
+} from "@/lib/vertical-text";
+import { useEditorStore } from "@/store/editor-store";
+
+const MAX_COLUMN_GAP = 2000;
+
+const COLUMN_ALIGN_OPTIONS: Array<{
+	align: VerticalColumnAlign;
+	label: string;
+	Icon: LucideIcon;
+}> = [
+	{ align: "top", label: "列内顶端对齐", Icon: AlignStartHorizontal },
+	{ align: "center", label: "列内居中", Icon: AlignCenterHorizontal },
+	{ align: "bottom", label: "列内底端对齐", Icon: AlignEndHorizontal },
+];
+
+interface VerticalLayoutPanelProps {
+	onChange: (patch: Partial<VerticalLayoutProps>) => void;
+}
+
+/** Column gap, column height limit and in-column alignment of vertical text. */
+export function VerticalLayoutPanel({ onChange }: VerticalLayoutPanelProps) {
+	const activeObject = useEditorStore((s) => s.activeObject);
+	useEditorStore((s) => s.activeObjectRevision);
+	const [heightDraft, setHeightDraft] = useState<string | null>(null);
+
+	if (!(activeObject instanceof VerticalText)) return null;
+
+	// The height limit is stored unscaled but edited in image pixels
+	const scale = Math.abs(activeObject.scaleY ?? 1) || 1;
+	const maxColumnHeight = activeObject.maxColumnHeight;
+	const heightValue =
+		maxColumnHeight > 0 ? String(Math.round(maxColumnHeight * scale)) : "";
+
+	const commitHeight = () => {
+		if (heightDraft === null) return;
+		const parsed = Number(heightDraft);
+		setHeightDraft(null);
+		const next =
+			heightDraft.trim() !== "" && Number.isFinite(parsed) && parsed > 0
+				? parsed / scale
+				: 0;
+		if (next !== maxColumnHeight) onChange({ maxColumnHeight: next });
+	};
+
+	return (
+		<div className="flex flex-col gap-3 rounded-md border p-3">
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">列距</div>
+				<Slider
+					className="flex-1"
+					value={[activeObject.columnGap]}
+					min={0}
+					max={MAX_COLUMN_GAP}
+					step={10}
+					onValueChange={([value]) => onChange({ columnGap: value })}
+				/>
+				<div className="w-12 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+					{Math.round(activeObject.columnGap)}
+				</div>
+			</div>
+
+			<div className="flex items-center gap-3">
+				<div className="w-16 shrink-0 text-xs text-muted-foreground">列高</div>
+				<Input
+					className="h-8 flex-1"
+					inputMode="decimal"
+					placeholder="不限（仅按换行分列）"
+					title="超过该高度（原图像素）时自动换到左侧新列，留空不限"
+					value={heightDraft ?? heightValue}
+					onChange={(e) => setHeightDraft(e.target.value)}
+					onBlur={commitHeight}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") e.currentTarget.blur();
+						// Blurring would commit the draft, so Escape only reverts
+						if (e.key === "Escape") setHeightDraft(null);
+					}}
+				/>
+				<div className="flex items-center rounded-md border p-0.5">
+					{COLUMN_ALIGN_OPTIONS.map(({ align, label, Icon }) => (
+						<Button
+							key={align}
+							type="button"
+							size="icon-xs"
+							variant={
+								activeObject.columnAlign === align ? "default" : "ghost"
+							}
+							title={label}
+							onClick={() => onChange({ columnAlign: align })}
+						>
+							<Icon className="size-3.5" />
+						</Button>
+					))}
+				</div>
+			</div>
+		</div>
+	);
+}
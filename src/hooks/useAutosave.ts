@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { buildProjectFile, type ProjectFile } from "@/lib/project-file";
+import {
+	type RecoveryRecord,
+	readRecoveryRecords,
+	writeRecoveryRecord,
+} from "@/lib/recovery-db";
+import { useEditorStore } from "@/store/editor-store";
+import { getUploadedFontBuffer, useFontStore } from "@/store/font-store";
+import { useGuidesStore } from "@/store/guides-store";
+import { useHistoryStore } from "@/store/history-store";
+
+const AUTOSAVE_DEBOUNCE_MS = 1500;
+const AUTOSAVE_INTERVAL_MS = 30 * 1000;
+
+let dirty = false;
+let pendingSave: Promise<void> | null = null;
+let cachedImageBlob: { dataUrl: string; blob: Blob } | null = null;
+
+async function getImageBlob(dataUrl: string): Promise<Blob> {
+	if (cachedImageBlob?.dataUrl === dataUrl) return cachedImageBlob.blob;
+	// data: URLs resolve locally, nothing leaves the browser
+	const blob = await (await fetch(dataUrl)).blob();
+	cachedImageBlob = { dataUrl, blob };
+	return blob;
+}
+
+function getFontBuffers(project: ProjectFile): Record<string, ArrayBuffer> {
+	const buffers: Record<string, ArrayBuffer> = {};
+	for (const { family, source } of project.fonts) {
+		const buffer = source === "uploaded" && getUploadedFontBuffer(family);
+		if (buffer) buffers[family] = buffer;
+	}
+	return buffers;
+}
+
+async function saveNow(): Promise<void> {
+	const { canvas, image } = useEditorStore.getState();
+	if (!canvas || !image || !dirty) return;
+	dirty = false;
+
+	try {
+		// Fonts stay raw buffers; base64 is only for downloaded project files
+		const project = buildProjectFile(
+			canvas,
+			image,
+			useFontStore.getState().getAllFonts(),
+			useGuidesStore.getState().guides,
+			false,
+		);
+		const imageBlob = await getImageBlob(image.dataUrl);
+		await writeRecoveryRecord(
+			imageBlob,
+			{ ...project, image: { ...project.image, dataUrl: "" } },
+			getFontBuffers(project),
+		);
+	} catch (err) {
+		dirty = true;
+		if (import.meta.env.DEV)
+			console.warn("[jx3-photo-maker] autosave failed:", err);
+	}
+}
+
+/** Persists any unsaved change immediately, e.g. right before a reload. */
+export function flushAutosave(): Promise<void> {
+	const run = (pendingSave ?? Promise.resolve()).then(saveNow);
+	pendingSave = run;
+	void run.finally(() => {
+		if (pendingSave === run) pendingSave = null;
+	});
+	return run;
+}
+
+export function useAutosave() {
+	useEffect(() => {
+		let timer: ReturnType<typeof setTimeout> | null = null;
+		const markDirty = () => {
+			dirty = true;
+			if (timer) clearTimeout(timer);
+			timer = setTimeout(() => {
+				timer = null;
+				void flushAutosave();
+			}, AUTOSAVE_DEBOUNCE_MS);
+		};
+
+		const unsubscribeHistory = useHistoryStore.subscribe((state, prev) => {
+			if (state.entries !== prev.entries || state.index !== prev.index) {
+				markDirty();
+			}
+		});
+		const unsubscribeGuides = useGuidesStore.subscribe((state, prev) => {
+			if (state.guides !== prev.guides) markDirty();
+		});
+		const interval = setInterval(
+			() => void flushAutosave(),
+			AUTOSAVE_INTERVAL_MS,
+		);
+		const onPageHide = () => void flushAutosave();
+		const onVisibilityChange = () => {
+			if (document.visibilityState === "hidden") void flushAutosave();
+		};
+
+		window.addEventListener("pagehide", onPageHide);
+		document.addEventListener("visibilitychange", onVisibilityChange);
+
+		return () => {
+			if (timer) clearTimeout(timer);
+			clearInterval(interval);
+			unsubscribeHistory();
+			unsubscribeGuides();
+			window.removeEventListener("pagehide", onPageHide);
+			document.removeEventListener("visibilitychange", onVisibilityChange);
+		};
+	}, []);
+}
+
+export function useRecoveryRecords() {
+	const [records, setRecords] = useState<RecoveryRecord[]>([]);
+
+	useEffect(() => {
+		let cancelled = false;
+		void readRecoveryRecords()
+			.then((found) => {
+				if (!cancelled) setRecords(found);
+			})
+			.catch((err) => {
+				if (import.meta.env.DEV)
+					console.warn("[jx3-photo-maker] recovery read failed:", err);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	return records;
+}
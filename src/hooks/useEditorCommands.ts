@@ -0,0 +1,561 @@
+import { IText } from "fabric";
+import { useEffect } from "react";
+import {
+	type AlignDirection,
+	canUngroup,
+	type useFabricEditor,
+} from "@/hooks/useFabricEditor";
+import { BRUSH_PRESET_KEYS, BRUSH_PRESETS } from "@/lib/brushes";
+import { SHAPE_KINDS, SHAPE_LABELS } from "@/lib/shapes";
+import { eventToShortcut, isTypingTarget } from "@/lib/shortcuts";
+import { useBrushStore } from "@/store/brush-store";
+import {
+	type EditorCommand,
+	findCommandByShortcut,
+	useCommandStore,
+	useKeymapStore,
+} from "@/store/command-store";
+import { useEditorStore } from "@/store/editor-store";
+import { useGuidesStore } from "@/store/guides-store";
+
+type FabricEditor = ReturnType<typeof useFabricEditor>;
+
+export interface EditorCommandContext {
+	editor: FabricEditor;
+	openImagePicker: () => void;
+	openProjectPicker: () => void;
+	exportImage: () => void | Promise<void>;
+}
+
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+function hasImage() {
+	return !!useEditorStore.getState().image;
+}
+
+function hasSelection() {
+	return !!useEditorStore.getState().canvas?.getActiveObject();
+}
+
+function countSelected() {
+	return useEditorStore.getState().canvas?.getActiveObjects().length ?? 0;
+}
+
+function buildNudgeCommands(editor: FabricEditor): EditorCommand[] {
+	const directions = [
+		{ id: "left", key: "ArrowLeft", title: "左移", dx: -1, dy: 0 },
+		{ id: "right", key: "ArrowRight", title: "右移", dx: 1, dy: 0 },
+		{ id: "up", key: "ArrowUp", title: "上移", dx: 0, dy: -1 },
+		{ id: "down", key: "ArrowDown", title: "下移", dx: 0, dy: 1 },
+	];
+	return directions.flatMap(({ id, key, title, dx, dy }) => [
+		{
+			id: `edit.nudge-${id}`,
+			title: `微调：${title} ${NUDGE_STEP}px`,
+			group: "编辑",
+			defaultShortcuts: [key],
+			hiddenInPalette: true,
+			enabled: hasSelection,
+			run: () => {
+				editor.nudgeSelection(dx * NUDGE_STEP, dy * NUDGE_STEP);
+			},
+		},
+		{
+			id: `edit.nudge-${id}-large`,
+			title: `微调：${title} ${NUDGE_STEP_LARGE}px`,
+			group: "编辑",
+			defaultShortcuts: [`Shift+${key}`],
+			hiddenInPalette: true,
+			enabled: hasSelection,
+			run: () => {
+				editor.nudgeSelection(dx * NUDGE_STEP_LARGE, dy * NUDGE_STEP_LARGE);
+			},
+		},
+	]);
+}
+
+function buildCanvasAlignCommands(editor: FabricEditor): EditorCommand[] {
+	const alignments: Array<{ id: AlignDirection; title: string }> = [
+		{ id: "left", title: "左对齐" },
+		{ id: "center-horizontal", title: "水平居中" },
+		{ id: "right", title: "右对齐" },
+		{ id: "top", title: "顶对齐" },
+		{ id: "center-vertical", title: "垂直居中" },
+		{ id: "bottom", title: "底对齐" },
+	];
+	return alignments.map(({ id, title }) => ({
+		id: `arrange.canvas-align-${id}`,
+		title: `相对画布${title}`,
+		group: "排列",
+		keywords: ["align canvas", "画布"],
+		enabled: hasSelection,
+		run: () => {
+			editor.alignSelectedObjects(id, "canvas");
+		},
+	}));
+}
+
+export function buildEditorCommands({
+	editor,
+	openImagePicker,
+	openProjectPicker,
+	exportImage,
+}: EditorCommandContext): EditorCommand[] {
+	const { setPaletteOpen, setShortcutSettingsOpen } =
+		useCommandStore.getState();
+
+	return [
+		{
+			id: "file.open-image",
+			title: "选择图片",
+			group: "文件",
+			keywords: ["导入", "open", "image"],
+			defaultShortcuts: ["Mod+O"],
+			run: openImagePicker,
+		},
+		{
+			id: "file.open-project",
+			title: "打开项目",
+			group: "文件",
+			keywords: ["project", "jx3proj"],
+			defaultShortcuts: ["Mod+Shift+O"],
+			run: openProjectPicker,
+		},
+		{
+			id: "file.save-project",
+			title: "保存项目",
+			group: "文件",
+			keywords: ["project", "save", "jx3proj"],
+			defaultShortcuts: ["Mod+S"],
+			enabled: hasImage,
+			run: editor.saveProject,
+		},
+		{
+			id: "file.export",
+			title: "导出图片",
+			group: "文件",
+			keywords: ["export", "png", "jpg", "下载"],
+			defaultShortcuts: ["Mod+E"],
+			enabled: hasImage,
+			run: exportImage,
+		},
+		{
+			id: "edit.undo",
+			title: "撤销",
+			group: "编辑",
+			keywords: ["undo"],
+			defaultShortcuts: ["Mod+Z"],
+			run: editor.undo,
+		},
+		{
+			id: "edit.redo",
+			title: "重做",
+			group: "编辑",
+			keywords: ["redo"],
+			defaultShortcuts: ["Mod+Shift+Z", "Mod+Y"],
+			run: editor.redo,
+		},
+		{
+			id: "edit.copy",
+			title: "复制",
+			group: "编辑",
+			keywords: ["copy"],
+			defaultShortcuts: ["Mod+C"],
+			enabled: hasSelection,
+			run: () => {
+				editor.copySelection();
+			},
+		},
+		{
+			id: "edit.cut",
+			title: "剪切",
+			group: "编辑",
+			keywords: ["cut"],
+			defaultShortcuts: ["Mod+X"],
+			enabled: hasSelection,
+			run: () => {
+				editor.cutSelection();
+			},
+		},
+		{
+			id: "edit.paste",
+			title: "粘贴",
+			group: "编辑",
+			keywords: ["paste"],
+			defaultShortcuts: ["Mod+V"],
+			enabled: editor.hasClipboard,
+			run: editor.pasteClipboard,
+		},
+		{
+			id: "edit.duplicate",
+			title: "创建副本",
+			group: "编辑",
+			keywords: ["duplicate", "复制"],
+			defaultShortcuts: ["Mod+D"],
+			enabled: hasSelection,
+			run: editor.duplicateSelection,
+		},
+		{
+			id: "edit.select-all",
+			title: "全选",
+			group: "编辑",
+			keywords: ["select all"],
+			defaultShortcuts: ["Mod+A"],
+			enabled: hasImage,
+			run: editor.selectAll,
+		},
+		{
+			id: "edit.delete",
+			title: "删除选中对象",
+			group: "编辑",
+			keywords: ["delete", "remove"],
+			defaultShortcuts: ["Delete", "Backspace"],
+			enabled: hasSelection,
+			run: editor.deleteActiveObject,
+		},
+		...buildNudgeCommands(editor),
+		{
+			id: "insert.text",
+			title: "添加文字",
+			group: "插入",
+			keywords: ["text", "文本"],
+			defaultShortcuts: ["T"],
+			enabled: hasImage,
+			run: () => editor.addText("请输入"),
+		},
+		...editor.presets.map(
+			(preset): EditorCommand => ({
+				id: `insert.preset.${preset.key}`,
+				title: `门派预设：${preset.label}`,
+				group: "插入",
+				keywords: [preset.key, preset.key.replace(/-/g, "")],
+				enabled: hasImage,
+				run: () => editor.addPreset(preset.key),
+			}),
+		),
+		{
+			id: "insert.nameplate",
+			title: "添加名牌",
+			group: "插入",
+			keywords: ["nameplate", "mingpai", "称号", "帮会"],
+			enabled: hasImage,
+			run: () => editor.addNameplate(),
+		},
+		...SHAPE_KINDS.map(
+			(kind): EditorCommand => ({
+				id: `insert.shape.${kind}`,
+				title: `添加${SHAPE_LABELS[kind]}`,
+				group: "插入",
+				keywords: ["shape", "形状", kind],
+				enabled: hasImage,
+				run: () => editor.addShape(kind),
+			}),
+		),
+		{
+			id: "insert.brush",
+			title: "自由绘制",
+			group: "插入",
+			keywords: ["brush", "draw", "画笔", "涂鸦"],
+			defaultShortcuts: ["B"],
+			enabled: hasImage,
+			run: () => {
+				const { drawing, setDrawing } = useBrushStore.getState();
+				setDrawing(!drawing);
+			},
+		},
+		...BRUSH_PRESET_KEYS.map(
+			(presetKey): EditorCommand => ({
+				id: `insert.brush.${presetKey}`,
+				title: `画笔：${BRUSH_PRESETS[presetKey].label}`,
+				group: "插入",
+				keywords: ["brush", "draw", "画笔", presetKey],
+				enabled: hasImage,
+				run: () => {
+					const { setPresetKey, setDrawing } = useBrushStore.getState();
+					setPresetKey(presetKey);
+					setDrawing(true);
+				},
+			}),
+		),
+		{
+			id: "insert.redaction-rect",
+			title: "添加矩形打码",
+			group: "插入",
+			keywords: ["redact", "mosaic", "blur", "打码", "马赛克", "模糊"],
+			enabled: hasImage,
+			run: () => editor.addRedactionRect(),
+		},
+		{
+			id: "insert.redaction-brush",
+			title: "涂抹打码",
+			group: "插入",
+			keywords: ["redact", "mosaic", "blur", "打码", "马赛克", "涂抹"],
+			enabled: hasImage,
+			run: () => {
+				const { redacting, setRedacting } = useBrushStore.getState();
+				setRedacting(!redacting);
+			},
+		},
+		{
+			id: "arrange.align-left",
+			title: "左对齐",
+			group: "排列",
+			keywords: ["align left"],
+			enabled: () => countSelected() > 1,
+			run: () => {
+				editor.alignSelectedObjects("left");
+			},
+		},
+		{
+			id: "arrange.align-center-horizontal",
+			title: "水平居中",
+			group: "排列",
+			keywords: ["align center"],
+			enabled: () => countSelected() > 1,
+			run: () => {
+				editor.alignSelectedObjects("center-horizontal");
+			},
+		},
+		{
+			id: "arrange.align-right",
+			title: "右对齐",
+			group: "排列",
+			keywords: ["align right"],
+			enabled: () => countSelected() > 1,
+			run: () => {
+				editor.alignSelectedObjects("right");
+			},
+		},
+		{
+			id: "arrange.align-top",
+			title: "顶对齐",
+			group: "排列",
+			keywords: ["align top"],
+			enabled: () => countSelected() > 1,
+			run: () => {
+				editor.alignSelectedObjects("top");
+			},
+		},
+		{
+			id: "arrange.align-center-vertical",
+			title: "垂直居中",
+			group: "排列",
+			keywords: ["align middle"],
+			enabled: () => countSelected() > 1,
+			run: () => {
+				editor.alignSelectedObjects("center-vertical");
+			},
+		},
+		{
+			id: "arrange.align-bottom",
+			title: "底对齐",
+			group: "排列",
+			keywords: ["align bottom"],
+			enabled: () => countSelected() > 1,
+			run: () => {
+				editor.alignSelectedObjects("bottom");
+			},
+		},
+		{
+			id: "arrange.distribute-horizontal",
+			title: "水平等距分布",
+			group: "排列",
+			keywords: ["distribute"],
+			enabled: () => countSelected() > 2,
+			run: () => {
+				editor.distributeSelectedObjects("horizontal");
+			},
+		},
+		{
+			id: "arrange.distribute-vertical",
+			title: "垂直等距分布",
+			group: "排列",
+			keywords: ["distribute"],
+			enabled: () => countSelected() > 2,
+			run: () => {
+				editor.distributeSelectedObjects("vertical");
+			},
+		},
+		...buildCanvasAlignCommands(editor),
+		{
+			id: "arrange.group",
+			title: "组合",
+			group: "排列",
+			keywords: ["group", "编组"],
+			defaultShortcuts: ["Mod+G"],
+			enabled: () => countSelected() > 1,
+			run: () => {
+				editor.groupSelection();
+			},
+		},
+		{
+			id: "arrange.ungroup",
+			title: "取消组合",
+			group: "排列",
+			keywords: ["ungroup", "解组"],
+			defaultShortcuts: ["Mod+Shift+G"],
+			enabled: () => canUngroup(useEditorStore.getState().canvas),
+			run: () => {
+				editor.ungroupSelection();
+			},
+		},
+		{
+			id: "arrange.bring-forward",
+			title: "上移一层",
+			group: "排列",
+			keywords: ["layer", "forward", "图层"],
+			defaultShortcuts: ["Mod+]"],
+			enabled: hasSelection,
+			run: () => {
+				const active = useEditorStore.getState().canvas?.getActiveObject();
+				if (active) editor.moveLayer(active, "forward");
+			},
+		},
+		{
+			id: "arrange.send-backward",
+			title: "下移一层",
+			group: "排列",
+			keywords: ["layer", "backward", "图层"],
+			defaultShortcuts: ["Mod+["],
+			enabled: hasSelection,
+			run: () => {
+				const active = useEditorStore.getState().canvas?.getActiveObject();
+				if (active) editor.moveLayer(active, "backward");
+			},
+		},
+		{
+			id: "arrange.bring-to-front",
+			title: "置于顶层",
+			group: "排列",
+			keywords: ["layer", "front", "图层"],
+			defaultShortcuts: ["Mod+Shift+]"],
+			enabled: hasSelection,
+			run: () => {
+				const active = useEditorStore.getState().canvas?.getActiveObject();
+				if (active) editor.moveLayer(active, "front");
+			},
+		},
+		{
+			id: "arrange.send-to-back",
+			title: "置于底层",
+			group: "排列",
+			keywords: ["layer", "back", "图层"],
+			defaultShortcuts: ["Mod+Shift+["],
+			enabled: hasSelection,
+			run: () => {
+				const active = useEditorStore.getState().canvas?.getActiveObject();
+				if (active) editor.moveLayer(active, "back");
+			},
+		},
+		{
+			id: "view.zoom-in",
+			title: "放大画布",
+			group: "视图",
+			keywords: ["zoom in"],
+			defaultShortcuts: ["Mod+="],
+			enabled: hasImage,
+			run: () => editor.setPreviewZoom(editor.previewZoom * 1.1),
+		},
+		{
+			id: "view.zoom-out",
+			title: "缩小画布",
+			group: "视图",
+			keywords: ["zoom out"],
+			defaultShortcuts: ["Mod+-"],
+			enabled: hasImage,
+			run: () => editor.setPreviewZoom(editor.previewZoom / 1.1),
+		},
+		{
+			id: "view.zoom-reset",
+			title: "重置缩放",
+			group: "视图",
+			keywords: ["zoom reset", "100%"],
+			defaultShortcuts: ["Mod+0"],
+			enabled: hasImage,
+			run: () => editor.setPreviewZoom(1),
+		},
+		{
+			id: "view.toggle-snapping",
+			title: "智能吸附开关",
+			group: "视图",
+			keywords: ["snap", "吸附", "参考线"],
+			run: () => {
+				const { snappingEnabled, setSnappingEnabled } =
+					useEditorStore.getState();
+				setSnappingEnabled(!snappingEnabled);
+			},
+		},
+		{
+			id: "view.toggle-rulers",
+			title: "显示 / 隐藏标尺",
+			group: "视图",
+			keywords: ["ruler", "标尺", "参考线"],
+			defaultShortcuts: ["Shift+R"],
+			enabled: hasImage,
+			run: () => {
+				const { rulersVisible, setRulersVisible } = useGuidesStore.getState();
+				setRulersVisible(!rulersVisible);
+			},
+		},
+		{
+			id: "view.clear-guides",
+			title: "清除参考线",
+			group: "视图",
+			keywords: ["guides", "参考线"],
+			enabled: () => useGuidesStore.getState().guides.length > 0,
+			run: () => useGuidesStore.getState().setGuides([]),
+		},
+		{
+			id: "app.command-palette",
+			title: "命令面板",
+			group: "应用",
+			keywords: ["command", "palette"],
+			defaultShortcuts: ["Mod+K"],
+			hiddenInPalette: true,
+			run: () => setPaletteOpen(true),
+		},
+		{
+			id: "app.shortcut-settings",
+			title: "快捷键设置",
+			group: "应用",
+			keywords: ["keymap", "shortcut", "快捷键"],
+			run: () => setShortcutSettingsOpen(true),
+		},
+	];
+}
+
+/**
+ * Publishes the editor's commands to the registry and dispatches
+ * keyboard shortcuts to them using the user's key map.
+ */
+export function useEditorCommands(context: EditorCommandContext) {
+	useEffect(() => {
+		useCommandStore.getState().setCommands(buildEditorCommands(context));
+	});
+
+	useEffect(() => {
+		const onKeyDown = (event: KeyboardEvent) => {
+			if (event.defaultPrevented || isTypingTarget(event.target)) return;
+			const { canvas } = useEditorStore.getState();
+			const active = canvas?.getActiveObject();
+			if (active instanceof IText && active.isEditing) return;
+
+			const shortcut = eventToShortcut(event);
+			if (!shortcut) return;
+
+			const command = findCommandByShortcut(
+				useCommandStore.getState().commands,
+				useKeymapStore.getState().overrides,
+				shortcut,
+			);
+			if (!command || command.enabled?.() === false) return;
+
+			event.preventDefault();
+			void command.run();
+		};
+
+		window.addEventListener("keydown", onKeyDown);
+		return () => window.removeEventListener("keydown", onKeyDown);
+	}, []);
+}
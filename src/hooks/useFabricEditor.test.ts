@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildSnapshotKey,
+	mergeUniqueSnapshots,
+	type TextStyleSnapshot,
+} from "@/hooks/useFabricEditor";
+import { CURVE_LAYOUT_DEFAULTS } from "@/lib/curved-text";
+import { createTextEffect } from "@/lib/text-effects";
+
+function snapshot(patch: Partial<TextStyleSnapshot> = {}): TextStyleSnapshot {
+	return {
+		text: "长歌门",
+		vertical: false,
+		fill: "#000000",
+		fontFamily: "sans-serif",
+		fontSize: 100,
+		scaleX: 1,
+		scaleY: 1,
+		fontWeight: 400,
+		charSpacing: 0,
+		opacity: 1,
+		stroke: null,
+		strokeWidth: 0,
+		shadowColor: null,
+		shadowBlur: 0,
+		paintFirst: "fill",
+		...patch,
+	};
+}
+
+describe("buildSnapshotKey", () => {
+	it("keeps curved and straight IDs apart", () => {
+		const curved = snapshot({ curve: CURVE_LAYOUT_DEFAULTS });
+		const wave = snapshot({
+			curve: { ...CURVE_LAYOUT_DEFAULTS, curveKind: "wave" },
+		});
+		const keys = new Set([snapshot(), curved, wave].map(buildSnapshotKey));
+		expect(keys.size).toBe(3);
+	});
+
+	it("keeps IDs from different presets apart", () => {
+		expect(buildSnapshotKey(snapshot({ presetKey: "a" }))).not.toBe(
+			buildSnapshotKey(snapshot({ presetKey: "b" })),
+		);
+	});
+
+	it("ignores effect ids", () => {
+		const [a, b] = [createTextEffect("glow"), createTextEffect("glow")];
+		expect(a.id).not.toBe(b.id);
+		expect(buildSnapshotKey(snapshot({ effects: [a] }))).toBe(
+			buildSnapshotKey(snapshot({ effects: [b] })),
+		);
+	});
+});
+
+describe("mergeUniqueSnapshots", () => {
+	it("adds new IDs in front and skips known ones", () => {
+		const known = snapshot();
+		const curved = snapshot({ curve: CURVE_LAYOUT_DEFAULTS });
+		expect(mergeUniqueSnapshots([known], [snapshot(), curved])).toEqual([
+			curved,
+			known,
+		]);
+	});
+
+	it("keeps the current history when nothing is new", () => {
+		const history = [snapshot()];
+		expect(mergeUniqueSnapshots(history, [snapshot()])).toBe(history);
+	});
+
+	it("drops the oldest IDs past 40", () => {
+		const history = Array.from({ length: 40 }, (_, i) =>
+			snapshot({ text: String(i) }),
+		);
+		const merged = mergeUniqueSnapshots(history, [snapshot({ text: "new" })]);
+		expect(merged).toHaveLength(40);
+		expect(merged[0].text).toBe("new");
+		expect(merged.at(-1)?.text).toBe("38");
+	});
+});
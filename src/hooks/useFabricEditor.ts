@@ -1,18 +1,141 @@
-import type { FabricObject } from "fabric";
-import { Canvas, FabricImage, IText, Shadow } from "fabric";
+import type { FabricObject, SerializedITextProps } from "fabric";
+import {
+	ActiveSelection,
+	Canvas,
+	cache,
+	FabricImage,
+	Group,
+	IText,
+	Point,
+	Shadow,
+} from "fabric";
 import FontFaceObserver from "fontfaceobserver";
 import { useCallback, useEffect, useMemo, useRef } from "react";
 import type { SchoolPreset } from "@/constants/colors";
 import { JX3_SCHOOL_PRESETS } from "@/constants/colors";
 import { useResizeObserver } from "@/hooks/useResizeObserver";
-import { fileToDataURL, loadImageElement } from "@/lib/file";
+import { useSnapping } from "@/hooks/useSnapping";
+import { type BlendMode, readBlendMode } from "@/lib/blend-mode";
+import { PresetBrush } from "@/lib/brushes";
+import {
+	type Callout,
+	createCallout,
+	isCalloutLabel,
+	offsetCallout,
+} from "@/lib/callout";
+import {
+	applyObjectMeta,
+	deserializeObjects,
+	getObjectCallout,
+	getObjectPlate,
+	getObjectPresetKey,
+	isObjectLocked,
+	isObjectVertical,
+	readObjectMeta,
+	restoreCanvas,
+	type SerializedObject,
+	serializeCanvas,
+	serializeObject,
+	setObjectCallout,
+	setObjectEffects,
+	setObjectLocked,
+	setObjectPlate,
+	setObjectName,
+	setObjectPresetKey,
+	setObjectVertical,
+} from "@/lib/canvas-snapshot";
+import {
+	type CurveLayoutProps,
+	CurvedText,
+	readCurveLayout,
+} from "@/lib/curved-text";
+import {
+	base64ToArrayBuffer,
+	downloadBlob,
+	fileToDataURL,
+	loadImageElement,
+} from "@/lib/file";
+import {
+	getFillSwatchColor,
+	isTextFillLoaded,
+	preloadTextFill,
+	readTextFill,
+	type TextFill,
+	toFabricFill,
+} from "@/lib/gradient-fill";
+import { HorizontalText } from "@/lib/horizontal-text";
+import {
+	buildProjectFile,
+	PROJECT_FILE_EXTENSION,
+	type ProjectFile,
+	type ProjectFontRef,
+	parseProjectFile,
+} from "@/lib/project-file";
+import type { RecoveryRecord } from "@/lib/recovery-db";
+import {
+	isRedactionRegion,
+	RedactionBrush,
+	RedactionRect,
+	type RedactionStyle,
+	RedactionStroke,
+} from "@/lib/redaction";
+import {
+	createNameplate,
+	loadNameplateIcon,
+	NAMEPLATE_DEFAULTS,
+	Nameplate,
+	type NameplateProps,
+	readNameplateProps,
+} from "@/lib/nameplate";
+import {
+	createShape,
+	isShapeObject,
+	type ShapeKind,
+	type ShapeStyle,
+	setShapeStyle,
+} from "@/lib/shapes";
+import { isTypingTarget } from "@/lib/shortcuts";
+import {
+	cloneTextEffects,
+	getTextEffects,
+	type TextEffect,
+} from "@/lib/text-effects";
+import type { TextPlate } from "@/lib/text-plates";
+import {
+	type CharStylePatch,
+	getTypedText,
+	hasCharStyles,
+	readCharStyles,
+	remapCharStyles,
+	splitTypedText,
+	writeCharStyles,
+} from "@/lib/text-styles";
+import {
+	applyObjectTransform,
+	snapAngle,
+	type TransformPatch,
+} from "@/lib/transform";
+import {
+	fromVerticalText,
+	toVerticalText,
+	type VerticalLayoutProps,
+	VerticalText,
+} from "@/lib/vertical-text";
+import { WrappedText } from "@/lib/wrapped-text";
+import { useBrushStore } from "@/store/brush-store";
 import { useEditorStore } from "@/store/editor-store";
+import type { HistoryEntry } from "@/store/history-store";
+import { useHistoryStore } from "@/store/history-store";
 import {
 	DEFAULT_FONT_FAMILY,
 	fetchFontManifest,
+	initFontStore,
 	loadCustomFont,
+	registerFontBuffer,
 	useFontStore,
 } from "@/store/font-store";
+import { sanitizeGuides, useGuidesStore } from "@/store/guides-store";
+import { useRedactionStore } from "@/store/redaction-store";
 import { useStyleInheritanceStore } from "@/store/style-inheritance-store";
 
 export type { SchoolPreset as Preset };
@@ -20,7 +143,7 @@ export type { SchoolPreset as Preset };
 export interface TextStyleSnapshot {
 	text: string;
 	vertical: boolean;
-	fill: string;
+	fill: TextFill;
 	fontFamily: string;
 	fontSize: number;
 	scaleX: number;
@@ -33,46 +156,158 @@ export interface TextStyleSnapshot {
 	shadowColor: string | null;
 	shadowBlur: number;
 	paintFirst: "fill" | "stroke";
+	/** Older entries only have the single stroke and shadow above */
+	effects?: TextEffect[];
+	/** Box width of wrapped text, before scaling */
+	wrapWidth?: number;
+	/** Shape of curved text */
+	curve?: CurveLayoutProps;
+	plate?: TextPlate;
+	textAlign?: IText["textAlign"];
+	lineHeight?: number;
 	presetKey?: string;
 }
 
+/** How a text object lays out its lines */
+export type TextLayoutMode = "horizontal" | "wrapped" | "vertical" | "curved";
+
+type TextObjectClass = Pick<typeof IText, "fromObject">;
+
+const TEXT_LAYOUT_CLASSES: Record<TextLayoutMode, TextObjectClass> = {
+	horizontal: HorizontalText,
+	wrapped: WrappedText,
+	vertical: VerticalText,
+	curved: CurvedText,
+};
+
+const TEXT_LAYOUT_LABELS: Record<TextLayoutMode, string> = {
+	horizontal: "切换横排",
+	wrapped: "切换文本框",
+	vertical: "切换竖排",
+	curved: "切换曲线文字",
+};
+
+export type AlignDirection =
+	| "left"
+	| "center-horizontal"
+	| "right"
+	| "top"
+	| "center-vertical"
+	| "bottom";
+
+/** What align / distribute measures against */
+export type AlignReference = "selection" | "canvas";
+
 function isEditableText(obj: FabricObject | null): obj is IText {
-	return !!obj && obj.type === "i-text";
+	return obj instanceof IText;
 }
 
-function isTypingTarget(target: EventTarget | null): boolean {
-	if (!(target instanceof HTMLElement)) return false;
-	if (target.isContentEditable) return true;
+/** Copies a text object into `TextClass`, e.g. to switch layout. */
+async function rebuildTextObject(
+	obj: IText,
+	TextClass: TextObjectClass,
+	patch: Partial<Pick<IText, "text" | "textAlign" | "lineHeight" | "width">>,
+): Promise<IText> {
+	const charStyles = readCharStyles(obj);
+	const data = {
+		...obj.toObject(["editable", "objectCaching"]),
+		...patch,
+		styles: [],
+	};
+	// Curved text rebuilds its path from its curve settings
+	delete data.path;
+	const next = await TextClass.fromObject<SerializedITextProps, IText>(data);
+	// Styles are keyed by line, which the conversion reflows
+	writeCharStyles(next, charStyles);
+	return next;
+}
 
-	const tag = target.tagName.toLowerCase();
-	return tag === "input" || tag === "textarea" || tag === "select";
+/** Replaces the text's own stroke and shadow with an effect stack. */
+function setTextEffects(text: FabricObject, effects: TextEffect[]) {
+	// Per-character strokes stay behind the fill, as the old outline had them
+	text.set({
+		stroke: null,
+		strokeWidth: 0,
+		shadow: null,
+		paintFirst: "stroke",
+	});
+	setObjectEffects(text, effects);
 }
 
-function toVerticalText(text: string): string {
-	return text.split("").join("\n");
+export function isTextVertical(obj: IText): boolean {
+	return isObjectVertical(obj);
 }
 
-function fromVerticalText(text: string): string {
-	return text.replace(/\n/g, "");
+export function getTextLayoutMode(obj: IText): TextLayoutMode {
+	if (isObjectVertical(obj)) return "vertical";
+	if (obj instanceof CurvedText) return "curved";
+	return obj instanceof WrappedText ? "wrapped" : "horizontal";
 }
 
-// WeakMap avoids polluting fabric object serialisation
-const verticalMap = new WeakMap<IText, boolean>();
-const presetKeyMap = new WeakMap<IText, string>();
+export { toVerticalText, fromVerticalText };
 
-export function isTextVertical(obj: IText): boolean {
-	return verticalMap.get(obj) ?? false;
+const ID_HISTORY_LIMIT = 40;
+
+/**
+ * Identifies an ID in the history. Effect ids are per text, so IDs are
+ * compared without them.
+ */
+export function buildSnapshotKey(snapshot: TextStyleSnapshot): string {
+	return JSON.stringify([
+		snapshot.text,
+		snapshot.vertical,
+		snapshot.fill,
+		snapshot.fontFamily,
+		snapshot.fontSize,
+		snapshot.scaleX,
+		snapshot.scaleY,
+		snapshot.fontWeight,
+		snapshot.charSpacing,
+		snapshot.opacity,
+		snapshot.stroke,
+		snapshot.strokeWidth,
+		snapshot.shadowColor,
+		snapshot.shadowBlur,
+		snapshot.paintFirst,
+		snapshot.effects?.map((effect) => ({ ...effect, id: "" })),
+		snapshot.plate,
+		snapshot.wrapWidth,
+		snapshot.textAlign,
+		snapshot.lineHeight,
+		snapshot.curve,
+		snapshot.presetKey,
+	]);
 }
 
-export { toVerticalText, fromVerticalText };
+/** Adds new IDs in front of the history, skipping ones it already has. */
+export function mergeUniqueSnapshots(
+	current: TextStyleSnapshot[],
+	incoming: TextStyleSnapshot[],
+): TextStyleSnapshot[] {
+	if (incoming.length === 0) return current;
+
+	const seen = new Set(current.map((item) => buildSnapshotKey(item)));
+	const additions: TextStyleSnapshot[] = [];
+
+	for (const snapshot of incoming) {
+		const key = buildSnapshotKey(snapshot);
+		if (seen.has(key)) continue;
+		seen.add(key);
+		additions.push(snapshot);
+	}
+
+	if (additions.length === 0) return current;
+	return [...additions, ...current].slice(0, ID_HISTORY_LIMIT);
+}
 
 function clamp(value: number, min: number, max: number): number {
 	return Math.min(max, Math.max(min, value));
 }
 
 const DEFAULT_TEXT_LINE_HEIGHT = 1.16;
+/** Widest a text box starts out, as a share of the image width */
+const WRAPPED_TEXT_MAX_WIDTH_RATIO = 0.8;
 const MIN_TEXT_LINE_HEIGHT = 0.2;
-const STROKE_WIDTH_MIN = 1;
 const STROKE_WIDTH_MAX = 32;
 
 function getVerticalLineHeight(charSpacing: number): number {
@@ -84,24 +319,256 @@ function getVerticalLineHeight(charSpacing: number): number {
 }
 
 const BASE_TEXT_FONT_SIZE = 100;
+/** Shortest distance from a label to where its new callout points */
+const CALLOUT_MIN_OFFSET = 80;
+/** New shapes span this much of the image's shorter side */
+const SHAPE_SIZE_RATIO = 0.25;
+/** New redaction rectangles span this much of the image's shorter side */
+const REDACTION_SIZE_RATIO = 0.2;
 
 function toPositiveZoom(zoom: number): number {
 	if (!Number.isFinite(zoom)) return 1;
 	return zoom > 0 ? zoom : Number.MIN_VALUE;
 }
 
-function normalizeStrokeWidth(width: number): number {
-	return clamp(Math.round(width), STROKE_WIDTH_MIN, STROKE_WIDTH_MAX);
+const WHEEL_ZOOM_SENSITIVITY = 0.002;
+
+let isRestoringHistory = false;
+
+function commitCanvasHistory(
+	canvas: Canvas,
+	label: string,
+	coalesceKey?: string,
+) {
+	if (isRestoringHistory) return;
+	useHistoryStore
+		.getState()
+		.commit(label, JSON.stringify(serializeCanvas(canvas)), coalesceKey);
 }
 
-function getShadowBlur(width: number, soft: boolean): number {
-	const safeWidth = normalizeStrokeWidth(width);
-	return soft
-		? Math.max(4, Math.round(safeWidth * 3.2))
-		: Math.max(2, Math.round(safeWidth * 1.8 + 1));
+function resetCanvasHistory(canvas: Canvas) {
+	useHistoryStore
+		.getState()
+		.reset("打开图片", JSON.stringify(serializeCanvas(canvas)));
 }
 
-const WHEEL_ZOOM_SENSITIVITY = 0.002;
+/** The entry the canvas should show next; only the latest one is restored */
+let pendingHistoryEntry: HistoryEntry | null = null;
+/** Restores run one at a time, in order, on this chain */
+let historyRestore: Promise<void> = Promise.resolve();
+
+async function restorePendingHistoryEntry() {
+	const entry = pendingHistoryEntry;
+	pendingHistoryEntry = null;
+	const { canvas, setActiveObject, bumpActiveObjectRevision } =
+		useEditorStore.getState();
+	if (!canvas || !entry) return;
+
+	isRestoringHistory = true;
+	try {
+		await restoreCanvas(canvas, JSON.parse(entry.state));
+	} catch (err) {
+		if (import.meta.env.DEV)
+			console.warn("[jx3-photo-maker] history restore failed:", err);
+	} finally {
+		isRestoringHistory = false;
+	}
+	setActiveObject(null);
+	bumpActiveObjectRevision();
+}
+
+/**
+ * Shows `entry` on the canvas once earlier restores finish. Rapid undos
+ * skip the entries in between, so the canvas ends on the history index.
+ */
+function applyHistoryEntry(entry: HistoryEntry | null): Promise<void> {
+	if (!entry) return historyRestore;
+	const queued = pendingHistoryEntry !== null;
+	pendingHistoryEntry = entry;
+	if (!queued) {
+		historyRestore = historyRestore.then(restorePendingHistoryEntry);
+	}
+	return historyRestore;
+}
+
+function undoCanvas() {
+	return applyHistoryEntry(useHistoryStore.getState().undo());
+}
+
+function redoCanvas() {
+	return applyHistoryEntry(useHistoryStore.getState().redo());
+}
+
+const PASTE_OFFSET = 20;
+
+let clipboard: { objects: SerializedObject[]; pasteCount: number } | null =
+	null;
+
+function getCopyableObjects(canvas: Canvas): FabricObject[] {
+	return canvas.getActiveObjects().filter((obj) => !isObjectLocked(obj));
+}
+
+function selectObjects(canvas: Canvas, objects: FabricObject[]) {
+	canvas.discardActiveObject();
+	if (objects.length === 1 && objects[0]) {
+		canvas.setActiveObject(objects[0]);
+	} else if (objects.length > 1) {
+		canvas.setActiveObject(new ActiveSelection(objects, { canvas }));
+	}
+	useEditorStore.getState().setActiveObject(canvas.getActiveObject() ?? null);
+	canvas.requestRenderAll();
+}
+
+async function pasteSerializedObjects(
+	canvas: Canvas,
+	serialized: SerializedObject[],
+	offset: number,
+	label: string,
+) {
+	const objects = await deserializeObjects(serialized);
+	for (const obj of objects) {
+		obj.set({
+			left: (obj.left ?? 0) + offset,
+			top: (obj.top ?? 0) + offset,
+		});
+		obj.setCoords();
+		// The copy points at the same spot relative to itself
+		const callout = getObjectCallout(obj);
+		if (callout) setObjectCallout(obj, offsetCallout(callout, offset, offset));
+	}
+	canvas.add(...objects);
+	selectObjects(canvas, objects);
+	commitCanvasHistory(canvas, label);
+}
+
+function copyCanvasSelection(canvas: Canvas): boolean {
+	const objects = getCopyableObjects(canvas);
+	if (!objects.length) return false;
+	clipboard = {
+		objects: objects.map((obj) => serializeObject(obj)),
+		pasteCount: 0,
+	};
+	return true;
+}
+
+function cutCanvasSelection(canvas: Canvas): boolean {
+	const objects = getCopyableObjects(canvas);
+	if (!copyCanvasSelection(canvas)) return false;
+	canvas.discardActiveObject();
+	canvas.remove(...objects);
+	useEditorStore.getState().setActiveObject(null);
+	canvas.requestRenderAll();
+	commitCanvasHistory(canvas, "剪切");
+	return true;
+}
+
+async function pasteCanvasClipboard(canvas: Canvas) {
+	if (!clipboard) return;
+	clipboard.pasteCount += 1;
+	await pasteSerializedObjects(
+		canvas,
+		clipboard.objects,
+		PASTE_OFFSET * clipboard.pasteCount,
+		"粘贴",
+	);
+}
+
+async function duplicateCanvasSelection(canvas: Canvas) {
+	const objects = getCopyableObjects(canvas);
+	if (!objects.length) return;
+	await pasteSerializedObjects(
+		canvas,
+		objects.map((obj) => serializeObject(obj)),
+		PASTE_OFFSET,
+		"创建副本",
+	);
+}
+
+function nudgeCanvasSelection(canvas: Canvas, dx: number, dy: number) {
+	const active = canvas.getActiveObject();
+	if (!active) return false;
+	active.set({
+		left: (active.left ?? 0) + dx,
+		top: (active.top ?? 0) + dy,
+	});
+	active.setCoords();
+	canvas.requestRenderAll();
+	useEditorStore.getState().bumpActiveObjectRevision();
+	commitCanvasHistory(canvas, "微调位置", "nudge");
+	return true;
+}
+
+/** Groups the user made; nameplates are groups too but act as one object. */
+function isPlainGroup(obj: FabricObject | null | undefined): obj is Group {
+	return (
+		obj instanceof Group &&
+		!(obj instanceof ActiveSelection) &&
+		!(obj instanceof Nameplate)
+	);
+}
+
+/** Leaves "member editing" on any group that no longer holds the selection. */
+function releaseInteractiveGroups(canvas: Canvas) {
+	const active = canvas.getActiveObject();
+	for (const obj of canvas.getObjects()) {
+		if (!isPlainGroup(obj) || !obj.interactive) continue;
+		if (active && active.group === obj) continue;
+		obj.set({ interactive: false });
+	}
+}
+
+function groupCanvasSelection(canvas: Canvas): boolean {
+	const all = canvas.getObjects();
+	const objects = canvas
+		.getActiveObjects()
+		.filter((obj) => !isObjectLocked(obj))
+		.sort((a, b) => all.indexOf(a) - all.indexOf(b));
+	if (objects.length < 2) return false;
+
+	const topIndex = all.indexOf(objects[objects.length - 1] as FabricObject);
+	canvas.discardActiveObject();
+	canvas.remove(...objects);
+
+	const group = new Group(objects, {
+		subTargetCheck: true,
+		interactive: false,
+		objectCaching: false,
+	});
+	canvas.insertAt(topIndex - (objects.length - 1), group);
+	selectObjects(canvas, [group]);
+	commitCanvasHistory(canvas, "组合");
+	return true;
+}
+
+/** Whether the active object is a group the editor would ungroup. */
+export function canUngroup(canvas: Canvas | null): boolean {
+	return isPlainGroup(canvas?.getActiveObject());
+}
+
+function ungroupCanvasSelection(canvas: Canvas): boolean {
+	const group = canvas.getActiveObject();
+	if (!isPlainGroup(group)) return false;
+
+	const index = canvas.getObjects().indexOf(group);
+	canvas.discardActiveObject();
+	const items = group.removeAll();
+	canvas.remove(group);
+	canvas.insertAt(index, ...items);
+	for (const item of items) {
+		if (!isObjectLocked(item)) item.set({ selectable: true, evented: true });
+		item.setCoords();
+	}
+	selectObjects(canvas, items);
+	commitCanvasHistory(canvas, "取消组合");
+	return true;
+}
+
+function selectAllCanvasObjects(canvas: Canvas) {
+	const objects = canvas
+		.getObjects()
+		.filter((obj) => obj.selectable && obj.visible);
+	selectObjects(canvas, objects);
+}
 
 export function useFabricEditor() {
 	const canvasElRef = useRef<HTMLCanvasElement | null>(null);
@@ -117,6 +584,7 @@ export function useFabricEditor() {
 	const bumpActiveObjectRevision = useEditorStore(
 		(s) => s.bumpActiveObjectRevision,
 	);
+	const bumpLayersRevision = useEditorStore((s) => s.bumpLayersRevision);
 	const previewZoom = useEditorStore((s) => s.previewZoom);
 	const setPreviewZoomRaw = useEditorStore((s) => s.setPreviewZoom);
 	const setPreviewZoom = useCallback(
@@ -139,6 +607,17 @@ export function useFabricEditor() {
 		scrollTop: 0,
 	});
 	const spacePressedRef = useRef(false);
+	// Blend modes of the selection before a preview, to put back afterwards
+	const blendPreviewRef = useRef<Map<FabricObject, BlendMode> | null>(null);
+
+	const drawing = useBrushStore((s) => s.drawing);
+	const brushPresetKey = useBrushStore((s) => s.presetKey);
+	const brushColor = useBrushStore((s) => s.color);
+	const brushWidth = useBrushStore((s) => s.widths[s.presetKey]);
+	const brushSmoothing = useBrushStore((s) => s.smoothing);
+	const redacting = useBrushStore((s) => s.redacting);
+	const redactionStyle = useRedactionStore((s) => s.style);
+	const redactionBrushWidth = useRedactionStore((s) => s.brushWidth);
 
 	const customFontsLoaded = useFontStore((s) => s.customFontsLoaded);
 	const setCustomFonts = useFontStore((s) => s.setCustomFonts);
@@ -159,6 +638,8 @@ export function useFabricEditor() {
 		[fitScale, previewZoom],
 	);
 
+	useSnapping(canvas, displayScale);
+
 	useEffect(() => {
 		const el = canvasElRef.current;
 		if (!el) return;
@@ -169,13 +650,51 @@ export function useFabricEditor() {
 			selection: true,
 		});
 
-		c.on("selection:created", () =>
-			setActiveObject(c.getActiveObject() ?? null),
-		);
-		c.on("selection:updated", () =>
-			setActiveObject(c.getActiveObject() ?? null),
-		);
-		c.on("selection:cleared", () => setActiveObject(null));
+		c.on("selection:created", () => {
+			releaseInteractiveGroups(c);
+			setActiveObject(c.getActiveObject() ?? null);
+		});
+		c.on("selection:updated", () => {
+			releaseInteractiveGroups(c);
+			setActiveObject(c.getActiveObject() ?? null);
+		});
+		c.on("selection:cleared", () => {
+			releaseInteractiveGroups(c);
+			setActiveObject(null);
+		});
+
+		// Double-click a group to select one of its members for editing
+		c.on("mouse:dblclick", (e) => {
+			const group = e.target;
+			if (!isPlainGroup(group)) return;
+			const members = e.subTargets ?? [];
+			const member =
+				members.find((obj) => isEditableText(obj)) ?? members[0] ?? null;
+			if (!member) return;
+			group.set({ interactive: true });
+			c.setActiveObject(member);
+			setActiveObject(member);
+			c.requestRenderAll();
+		});
+
+		// Double-click a text to select characters for per-range styling
+		c.on("mouse:dblclick", (e) => {
+			const text = e.target ?? null;
+			if (!isEditableText(text) || text.isEditing) return;
+			if (isObjectLocked(text)) return;
+			text.set({ editable: true });
+			text.enterEditing();
+			text.selectAll();
+			c.requestRenderAll();
+		});
+		c.on("text:editing:exited", ({ target }) => {
+			target.set({ editable: false });
+			target.parent?.triggerLayout();
+			commitCanvasHistory(c, "编辑文字");
+			bumpActiveObjectRevision();
+		});
+		c.on("text:editing:entered", bumpActiveObjectRevision);
+		c.on("text:selection:changed", bumpActiveObjectRevision);
 
 		c.on("object:scaling", (e) => {
 			const obj = e.target;
@@ -187,17 +706,33 @@ export function useFabricEditor() {
 			bumpActiveObjectRevision();
 		});
 
+		c.on("object:rotating", ({ target, e }) => {
+			if (!e.shiftKey) return;
+			target.rotate(snapAngle(target.angle ?? 0));
+		});
+
 		c.on("object:modified", (e) => {
+			e.target?.parent?.triggerLayout();
+			commitCanvasHistory(c, "变换对象");
+			bumpLayersRevision();
 			if (!isEditableText(e.target)) return;
 			bumpActiveObjectRevision();
 		});
 
+		c.on("object:added", bumpLayersRevision);
+		c.on("object:removed", bumpLayersRevision);
+
 		setCanvas(c);
 		return () => {
 			setCanvas(null);
 			c.dispose();
 		};
-	}, [bumpActiveObjectRevision, setActiveObject, setCanvas]);
+	}, [
+		bumpActiveObjectRevision,
+		bumpLayersRevision,
+		setActiveObject,
+		setCanvas,
+	]);
 
 	useEffect(() => {
 		if (customFontsLoaded) return;
@@ -258,14 +793,26 @@ export function useFabricEditor() {
 			target?: FabricObject | null;
 		}) => {
 			const candidate = target ?? null;
-			if (!isEditableText(candidate)) return;
-			if (!verticalMap.get(candidate)) return;
+			if (isEditableText(candidate)) bumpActiveObjectRevision();
+			if (!(candidate instanceof VerticalText)) return;
 
 			const currentText = candidate.text ?? "";
 			const normalizedText = toVerticalText(fromVerticalText(currentText));
 			if (normalizedText === currentText) return;
 
+			// Re-splitting cells moves characters between lines, so carry the
+			// styles and the selection over by typed position
+			const charStyles = readCharStyles(candidate);
+			const selectionStart = candidate.toTypedOffset(candidate.selectionStart);
+			const selectionEnd = candidate.toTypedOffset(candidate.selectionEnd);
 			candidate.set({ text: normalizedText });
+			writeCharStyles(candidate, charStyles);
+			candidate.selectionStart = candidate.fromTypedOffset(selectionStart);
+			candidate.selectionEnd = candidate.fromTypedOffset(selectionEnd);
+			if (candidate.hiddenTextarea) {
+				candidate.hiddenTextarea.value = normalizedText;
+				candidate._updateTextarea();
+			}
 			candidate.setCoords();
 			canvas.requestRenderAll();
 		};
@@ -274,6 +821,56 @@ export function useFabricEditor() {
 		return () => {
 			canvas.off("text:changed", handleTextChanged);
 		};
+	}, [bumpActiveObjectRevision, canvas]);
+
+	useEffect(() => {
+		if (!canvas) return;
+		canvas.set("isDrawingMode", (drawing || redacting) && !!image);
+		if (!canvas.isDrawingMode) return;
+
+		canvas.discardActiveObject();
+		setActiveObject(null);
+		canvas.set(
+			"freeDrawingBrush",
+			redacting
+				? new RedactionBrush(canvas, redactionStyle, redactionBrushWidth)
+				: new PresetBrush(canvas, {
+						presetKey: brushPresetKey,
+						color: brushColor,
+						width: brushWidth,
+						smoothing: brushSmoothing,
+					}),
+		);
+		canvas.requestRenderAll();
+	}, [
+		brushColor,
+		brushPresetKey,
+		brushSmoothing,
+		brushWidth,
+		canvas,
+		drawing,
+		image,
+		redacting,
+		redactionBrushWidth,
+		redactionStyle,
+		setActiveObject,
+	]);
+
+	useEffect(() => {
+		if (!canvas) return;
+
+		// Every stroke is its own object and its own undo step
+		const handlePathCreated = ({ path }: { path: FabricObject }) => {
+			commitCanvasHistory(
+				canvas,
+				path instanceof RedactionStroke ? "涂抹打码" : "绘制笔画",
+			);
+		};
+
+		canvas.on("path:created", handlePathCreated);
+		return () => {
+			canvas.off("path:created", handlePathCreated);
+		};
 	}, [canvas]);
 
 	useEffect(() => {
@@ -300,23 +897,6 @@ export function useFabricEditor() {
 				}
 				return;
 			}
-
-			if (event.code === "Delete" || event.code === "Backspace") {
-				const state = useEditorStore.getState();
-				const c = state.canvas;
-				if (!c) return;
-				const activeObjects = c.getActiveObjects();
-				if (!activeObjects.length) return;
-				if (activeObjects.length === 1) {
-					const only = activeObjects[0] ?? null;
-					if (only instanceof IText && only.isEditing) return;
-				}
-				event.preventDefault();
-				c.discardActiveObject();
-				for (const obj of activeObjects) c.remove(obj);
-				state.setActiveObject(null);
-				c.requestRenderAll();
-			}
 		};
 
 		const onKeyUp = (event: KeyboardEvent) => {
@@ -434,10 +1014,9 @@ export function useFabricEditor() {
 		};
 	}, [image, previewZoom, setPreviewZoom]);
 
-	async function loadLocalImage(file: File) {
+	async function applyBackgroundImage(dataUrl: string, fileName: string) {
 		if (!canvas) return;
 
-		const dataUrl = await fileToDataURL(file);
 		const imgEl = await loadImageElement(dataUrl);
 
 		const w = imgEl.naturalWidth;
@@ -486,10 +1065,19 @@ export function useFabricEditor() {
 			dataUrl,
 			width: w,
 			height: h,
-			fileName: file.name,
+			fileName,
 		});
 	}
 
+	async function loadLocalImage(file: File) {
+		if (!canvas) return;
+
+		const dataUrl = await fileToDataURL(file);
+		await applyBackgroundImage(dataUrl, file.name);
+		useGuidesStore.getState().setGuides([]);
+		resetCanvasHistory(canvas);
+	}
+
 	function addText(text: string, color = "#000000", presetKey?: string) {
 		if (!canvas || !image) return;
 
@@ -500,27 +1088,8 @@ export function useFabricEditor() {
 			? toVerticalText(text)
 			: text;
 
-		let shadow: IText["shadow"] | null = null;
-		if (inheritedStyle.strokeEnabled) {
-			const strokeWidth = normalizeStrokeWidth(inheritedStyle.strokeWidth);
-			if (inheritedStyle.strokeStyle === "shadow") {
-				shadow = new Shadow({
-					color: inheritedStyle.strokeColor,
-					offsetX: 0,
-					offsetY: 0,
-					blur: getShadowBlur(strokeWidth, true),
-				});
-			} else if (inheritedStyle.strokeStyle === "hybrid") {
-				shadow = new Shadow({
-					color: inheritedStyle.strokeColor,
-					offsetX: 0,
-					offsetY: 0,
-					blur: getShadowBlur(strokeWidth, false),
-				});
-			}
-		}
-
-		const it = new IText(verticalContent, {
+		const TextClass = inheritedStyle.vertical ? VerticalText : HorizontalText;
+		const it = new TextClass(verticalContent, {
 			left: image.width / 2,
 			top: image.height / 2,
 			originX: "center",
@@ -537,41 +1106,17 @@ export function useFabricEditor() {
 			opacity: inheritedStyle.opacity,
 			scaleX: inheritedStyle.scaleX,
 			scaleY: inheritedStyle.scaleY,
-			stroke:
-				inheritedStyle.strokeEnabled &&
-				(inheritedStyle.strokeStyle === "outline" ||
-					inheritedStyle.strokeStyle === "hybrid")
-					? inheritedStyle.strokeColor
-					: null,
-			strokeWidth:
-				inheritedStyle.strokeEnabled &&
-				(inheritedStyle.strokeStyle === "outline" ||
-					inheritedStyle.strokeStyle === "hybrid")
-					? inheritedStyle.strokeStyle === "hybrid"
-						? Math.max(
-								1,
-								Math.round(
-									normalizeStrokeWidth(inheritedStyle.strokeWidth) * 0.6,
-								),
-							)
-						: normalizeStrokeWidth(inheritedStyle.strokeWidth)
-					: 0,
-			shadow,
-			paintFirst:
-				inheritedStyle.strokeEnabled &&
-				(inheritedStyle.strokeStyle === "outline" ||
-					inheritedStyle.strokeStyle === "hybrid")
-					? "stroke"
-					: "fill",
 			objectCaching: false,
 			textAlign: inheritedStyle.vertical ? "center" : "left",
 		});
-		verticalMap.set(it, inheritedStyle.vertical);
-		if (presetKey) presetKeyMap.set(it, presetKey);
+		setTextEffects(it, cloneTextEffects(inheritedStyle.effects));
+		setObjectVertical(it, inheritedStyle.vertical);
+		setObjectPresetKey(it, presetKey);
 		canvas.add(it);
 		canvas.setActiveObject(it);
 		setActiveObject(it);
 		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, "添加文字");
 	}
 
 	function readSnapshotFromText(obj: IText): TextStyleSnapshot {
@@ -591,7 +1136,7 @@ export function useFabricEditor() {
 		const snapshot: TextStyleSnapshot = {
 			text: flatText,
 			vertical,
-			fill: typeof obj.fill === "string" ? obj.fill : "#000000",
+			fill: readTextFill(obj.fill),
 			fontFamily: obj.fontFamily ?? DEFAULT_FONT_FAMILY,
 			fontSize: Math.max(1, Math.round(obj.fontSize ?? BASE_TEXT_FONT_SIZE)),
 			scaleX: obj.scaleX ?? 1,
@@ -607,9 +1152,19 @@ export function useFabricEditor() {
 			shadowColor,
 			shadowBlur,
 			paintFirst: obj.paintFirst === "fill" ? "fill" : "stroke",
+			effects: getTextEffects(obj),
 		};
 
-		const pk = presetKeyMap.get(obj);
+		if (obj instanceof WrappedText) snapshot.wrapWidth = obj.width;
+		if (obj instanceof CurvedText) snapshot.curve = readCurveLayout(obj);
+		const plate = getObjectPlate(obj);
+		if (plate) snapshot.plate = { ...plate };
+		if (!vertical) {
+			snapshot.textAlign = obj.textAlign;
+			snapshot.lineHeight = obj.lineHeight;
+		}
+
+		const pk = getObjectPresetKey(obj);
 		if (pk) snapshot.presetKey = pk;
 
 		return snapshot;
@@ -623,8 +1178,9 @@ export function useFabricEditor() {
 			.map((obj) => readSnapshotFromText(obj));
 	}
 
-	function addTextFromSnapshot(snapshot: TextStyleSnapshot) {
+	async function addTextFromSnapshot(snapshot: TextStyleSnapshot) {
 		if (!canvas || !image) return;
+		await preloadTextFill(snapshot.fill);
 
 		const nextText = snapshot.vertical
 			? toVerticalText(snapshot.text)
@@ -639,13 +1195,20 @@ export function useFabricEditor() {
 			});
 		}
 
-		const textObject = new IText(nextText, {
+		const TextClass = snapshot.vertical
+			? VerticalText
+			: snapshot.curve
+				? CurvedText
+				: snapshot.wrapWidth
+					? WrappedText
+					: HorizontalText;
+		const textObject = new TextClass(nextText, {
 			left: image.width / 2,
 			top: image.height / 2,
 			originX: "center",
 			originY: "center",
 			editable: false,
-			fill: snapshot.fill,
+			fill: toFabricFill(snapshot.fill),
 			fontFamily: snapshot.fontFamily,
 			fontSize: snapshot.fontSize ?? BASE_TEXT_FONT_SIZE,
 			scaleX: snapshot.scaleX ?? 1,
@@ -658,16 +1221,26 @@ export function useFabricEditor() {
 			shadow: nextShadow,
 			paintFirst: snapshot.paintFirst,
 			objectCaching: false,
-			textAlign: snapshot.vertical ? "center" : "left",
+			textAlign: snapshot.vertical ? "center" : (snapshot.textAlign ?? "left"),
+			...(snapshot.lineHeight !== undefined && {
+				lineHeight: snapshot.lineHeight,
+			}),
+			...(snapshot.wrapWidth !== undefined && { width: snapshot.wrapWidth }),
+			...snapshot.curve,
 		});
 
-		verticalMap.set(textObject, snapshot.vertical);
-		if (snapshot.presetKey) presetKeyMap.set(textObject, snapshot.presetKey);
+		if (snapshot.effects) {
+			setTextEffects(textObject, cloneTextEffects(snapshot.effects));
+		}
+		setObjectPlate(textObject, snapshot.plate && { ...snapshot.plate });
+		setObjectVertical(textObject, snapshot.vertical);
+		setObjectPresetKey(textObject, snapshot.presetKey);
 		canvas.add(textObject);
 		canvas.setActiveObject(textObject);
 		setActiveObject(textObject);
 		textObject.setCoords();
 		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, "添加文字");
 	}
 
 	function getSelectedEditableTexts(): IText[] {
@@ -679,7 +1252,7 @@ export function useFabricEditor() {
 		return isEditableText(activeObject) ? [activeObject] : [];
 	}
 
-	function getBoundingRectEdges(obj: IText) {
+	function getBoundingRectEdges(obj: FabricObject) {
 		const rect = obj.getBoundingRect();
 		return {
 			left: rect.left,
@@ -703,7 +1276,6 @@ export function useFabricEditor() {
 		Pick<
 			IText,
 			| "text"
-			| "fill"
 			| "fontFamily"
 			| "fontSize"
 			| "fontWeight"
@@ -711,6 +1283,7 @@ export function useFabricEditor() {
 			| "scaleX"
 			| "scaleY"
 			| "lineHeight"
+			| "textAlign"
 			| "opacity"
 			| "stroke"
 			| "strokeWidth"
@@ -718,18 +1291,39 @@ export function useFabricEditor() {
 			| "paintFirst"
 		>
 	> & {
+		fill?: TextFill;
 		stroke?: IText["stroke"] | null;
 		shadow?: IText["shadow"] | null;
 	};
 
 	function applyToActiveText(patch: ActiveTextPatch) {
+		// A pattern paints from its image, so apply once that has loaded
+		if (patch.fill !== undefined && !isTextFillLoaded(patch.fill)) {
+			void preloadTextFill(patch.fill).then(() => patchActiveTexts(patch));
+			return;
+		}
+		patchActiveTexts(patch);
+	}
+
+	function patchActiveTexts(patch: ActiveTextPatch) {
 		if (!canvas) return;
 		const selectedTexts = getSelectedEditableTexts();
 		if (!selectedTexts.length) return;
 
 		for (const text of selectedTexts) {
 			let nextPatch: ActiveTextPatch = { ...patch };
-			const isVertical = verticalMap.get(text) ?? false;
+			const isVertical = isObjectVertical(text);
+
+			// Keep per-character styles on the characters that stay
+			const charStyles =
+				patch.text !== undefined && hasCharStyles(text)
+					? remapCharStyles(
+							readCharStyles(text),
+							splitTypedText(text, getTypedText(text)),
+							splitTypedText(text, patch.text),
+						)
+					: null;
+			if (patch.text !== undefined && text.isEditing) text.exitEditing();
 
 			if (nextPatch.text !== undefined && isVertical) {
 				nextPatch = { ...nextPatch, text: toVerticalText(nextPatch.text) };
@@ -742,21 +1336,34 @@ export function useFabricEditor() {
 				};
 			}
 
-			const fillValue = nextPatch.fill;
-			if (typeof fillValue === "string") {
+			const { fill, ...restPatch } = nextPatch;
+			if (fill !== undefined) {
+				// A gradient counts as the school of its first colour
+				const fillColor = getFillSwatchColor(fill).toLowerCase();
 				const matchedPreset = JX3_SCHOOL_PRESETS.find(
-					(p) => p.color.toLowerCase() === fillValue.toLowerCase(),
+					(p) => p.color.toLowerCase() === fillColor,
 				);
 				if (matchedPreset) {
-					presetKeyMap.set(text, matchedPreset.key);
+					setObjectPresetKey(text, matchedPreset.key);
 				}
 			}
 
-			text.set(nextPatch);
+			// Each text gets its own fabric gradient
+			text.set({
+				...restPatch,
+				...(fill !== undefined && { fill: toFabricFill(fill) }),
+			});
+			if (charStyles) writeCharStyles(text, charStyles);
 			text.setCoords();
+			text.parent?.triggerLayout();
 		}
 
 		refreshCanvasSelection();
+		commitCanvasHistory(
+			canvas,
+			"修改文字",
+			`style:${Object.keys(patch).sort().join(",")}`,
+		);
 
 		const { setInheritedStyle } = useStyleInheritanceStore.getState();
 		if (patch.fontFamily !== undefined) {
@@ -787,32 +1394,82 @@ export function useFabricEditor() {
 		}
 	}
 
-	function alignSelectedTexts(
-		alignment:
-			| "left"
-			| "center-horizontal"
-			| "right"
-			| "top"
-			| "center-vertical"
-			| "bottom",
+	function applyTextEffects(effects: TextEffect[]) {
+		if (!canvas) return;
+		const selectedTexts = getSelectedEditableTexts();
+		if (!selectedTexts.length) return;
+
+		for (const text of selectedTexts) {
+			setTextEffects(
+				text,
+				effects.map((effect) => ({ ...effect })),
+			);
+		}
+
+		refreshCanvasSelection();
+		commitCanvasHistory(canvas, "修改效果", "effects");
+		useStyleInheritanceStore.getState().setInheritedStyle({ effects });
+	}
+
+	/** Puts `plate` behind every selected text; null removes their plates. */
+	function applyTextPlate(plate: TextPlate | null) {
+		if (!canvas) return;
+		const selectedTexts = getSelectedEditableTexts();
+		if (!selectedTexts.length) return;
+
+		for (const text of selectedTexts) {
+			setObjectPlate(text, plate ? { ...plate } : undefined);
+			// The plate is part of the text's box and cache
+			text.set("dirty", true);
+			text.setCoords();
+			text.parent?.triggerLayout();
+		}
+
+		refreshCanvasSelection();
+		commitCanvasHistory(canvas, "修改背景板", "plate");
+	}
+
+	/** Sets a colour, gradient or pattern fill, loading a pattern's image. */
+	async function applyTextFill(fill: TextFill) {
+		await preloadTextFill(fill);
+		applyToActiveText({ fill });
+	}
+
+	/** Objects an align / distribute command moves: any unlocked selection. */
+	function getSelectedObjects(): FabricObject[] {
+		if (!canvas) return [];
+		return canvas.getActiveObjects().filter((obj) => !isObjectLocked(obj));
+	}
+
+	function alignSelectedObjects(
+		alignment: AlignDirection,
+		relativeTo: AlignReference = "selection",
 	): boolean {
 		if (!canvas) return false;
-		const selectedTexts = getSelectedEditableTexts();
-		if (selectedTexts.length < 2) return false;
+		const targets = getSelectedObjects();
+		if (targets.length < (relativeTo === "canvas" ? 1 : 2)) return false;
 
-		const rects = selectedTexts.map((obj) => ({
+		const rects = targets.map((obj) => ({
 			obj,
 			edges: getBoundingRectEdges(obj),
 		}));
 
-		const selectionLeft = Math.min(...rects.map((entry) => entry.edges.left));
-		const selectionTop = Math.min(...rects.map((entry) => entry.edges.top));
-		const selectionRight = Math.max(...rects.map((entry) => entry.edges.right));
-		const selectionBottom = Math.max(
-			...rects.map((entry) => entry.edges.bottom),
-		);
-		const selectionCenterX = (selectionLeft + selectionRight) / 2;
-		const selectionCenterY = (selectionTop + selectionBottom) / 2;
+		const bounds =
+			relativeTo === "canvas"
+				? {
+						left: 0,
+						top: 0,
+						right: canvas.getWidth(),
+						bottom: canvas.getHeight(),
+					}
+				: {
+						left: Math.min(...rects.map((entry) => entry.edges.left)),
+						top: Math.min(...rects.map((entry) => entry.edges.top)),
+						right: Math.max(...rects.map((entry) => entry.edges.right)),
+						bottom: Math.max(...rects.map((entry) => entry.edges.bottom)),
+					};
+		const boundsCenterX = (bounds.left + bounds.right) / 2;
+		const boundsCenterY = (bounds.top + bounds.bottom) / 2;
 
 		for (const { obj, edges } of rects) {
 			let deltaX = 0;
@@ -820,22 +1477,22 @@ export function useFabricEditor() {
 
 			switch (alignment) {
 				case "left":
-					deltaX = selectionLeft - edges.left;
+					deltaX = bounds.left - edges.left;
 					break;
 				case "center-horizontal":
-					deltaX = selectionCenterX - (edges.left + edges.width / 2);
+					deltaX = boundsCenterX - (edges.left + edges.width / 2);
 					break;
 				case "right":
-					deltaX = selectionRight - edges.right;
+					deltaX = bounds.right - edges.right;
 					break;
 				case "top":
-					deltaY = selectionTop - edges.top;
+					deltaY = bounds.top - edges.top;
 					break;
 				case "center-vertical":
-					deltaY = selectionCenterY - (edges.top + edges.height / 2);
+					deltaY = boundsCenterY - (edges.top + edges.height / 2);
 					break;
 				case "bottom":
-					deltaY = selectionBottom - edges.bottom;
+					deltaY = bounds.bottom - edges.bottom;
 					break;
 			}
 
@@ -847,98 +1504,322 @@ export function useFabricEditor() {
 		}
 
 		refreshCanvasSelection();
+		commitCanvasHistory(canvas, "对齐");
 		return true;
 	}
 
-	function distributeSelectedTexts(
+	function distributeSelectedObjects(
 		direction: "horizontal" | "vertical",
+		relativeTo: AlignReference = "selection",
 	): boolean {
 		if (!canvas) return false;
-		const selectedTexts = getSelectedEditableTexts();
-		if (selectedTexts.length < 3) return false;
+		const targets = getSelectedObjects();
+		if (targets.length < (relativeTo === "canvas" ? 1 : 3)) return false;
+
+		const horizontal = direction === "horizontal";
+		const entries = targets
+			.map((obj) => {
+				const edges = getBoundingRectEdges(obj);
+				return horizontal
+					? { obj, start: edges.left, end: edges.right, size: edges.width }
+					: { obj, start: edges.top, end: edges.bottom, size: edges.height };
+			})
+			.sort((a, b) => a.start - b.start);
+
+		const first = entries[0];
+		const last = entries[entries.length - 1];
+		if (!first || !last) return false;
+
+		const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+		// Against the canvas the outer gaps count too, so a single object centres
+		const span =
+			relativeTo === "canvas"
+				? horizontal
+					? canvas.getWidth()
+					: canvas.getHeight()
+				: last.end - first.start;
+		const gap =
+			relativeTo === "canvas"
+				? (span - totalSize) / (entries.length + 1)
+				: (span - totalSize) / (entries.length - 1);
+
+		let current = relativeTo === "canvas" ? gap : first.end + gap;
+		const movable = relativeTo === "canvas" ? entries : entries.slice(1, -1);
+		for (const entry of movable) {
+			const delta = current - entry.start;
+			entry.obj.set(
+				horizontal
+					? { left: (entry.obj.left ?? 0) + delta }
+					: { top: (entry.obj.top ?? 0) + delta },
+			);
+			entry.obj.setCoords();
+			current += entry.size + gap;
+		}
 
-		if (direction === "horizontal") {
-			const entries = selectedTexts
-				.map((obj) => ({ obj, edges: getBoundingRectEdges(obj) }))
-				.sort((a, b) => a.edges.left - b.edges.left);
+		refreshCanvasSelection();
+		commitCanvasHistory(canvas, "等距分布");
+		return true;
+	}
 
-			const first = entries[0];
-			const last = entries[entries.length - 1];
-			if (!first || !last) return false;
+	function transformSelection(patch: TransformPatch, keepAspectRatio = false) {
+		if (!canvas) return;
+		const targets = canvas
+			.getActiveObjects()
+			.filter((obj) => !isObjectLocked(obj));
+		if (!targets.length) return;
+
+		for (const obj of targets) {
+			applyObjectTransform(obj, patch, keepAspectRatio);
+			obj.parent?.triggerLayout();
+		}
+		const active = canvas.getActiveObject();
+		if (active instanceof ActiveSelection) active.triggerLayout();
 
-			const totalWidth = entries.reduce(
-				(sum, entry) => sum + entry.edges.width,
-				0,
-			);
-			const span = last.edges.right - first.edges.left;
-			const gap = (span - totalWidth) / (entries.length - 1);
-
-			let currentLeft = first.edges.right + gap;
-			for (let i = 1; i < entries.length - 1; i += 1) {
-				const entry = entries[i];
-				if (!entry) continue;
-				const deltaX = currentLeft - entry.edges.left;
-				entry.obj.set({ left: (entry.obj.left ?? 0) + deltaX });
-				entry.obj.setCoords();
-				currentLeft += entry.edges.width + gap;
+		refreshCanvasSelection();
+		bumpLayersRevision();
+		commitCanvasHistory(
+			canvas,
+			"变换对象",
+			`transform:${Object.keys(patch).sort().join(",")}`,
+		);
+	}
+
+	function applyCurveLayout(patch: Partial<CurveLayoutProps>) {
+		if (!canvas) return;
+		const targets = getSelectedEditableTexts().filter(
+			(text): text is CurvedText => text instanceof CurvedText,
+		);
+		if (!targets.length) return;
+
+		for (const text of targets) {
+			text.set(patch);
+			text.setCoords();
+			text.parent?.triggerLayout();
+		}
+		refreshCanvasSelection();
+		commitCanvasHistory(
+			canvas,
+			"调整曲线文字",
+			`curve-layout:${Object.keys(patch).sort().join(",")}`,
+		);
+	}
+
+	/** Just below the label, or above it when that would leave the image. */
+	function getDefaultCalloutAnchor(obj: FabricObject): Point {
+		const rect = obj.getBoundingRect();
+		const offset = Math.max(rect.height, CALLOUT_MIN_OFFSET);
+		const below = rect.top + rect.height + offset;
+		const fitsBelow = !image || below <= image.height;
+		return new Point(
+			rect.left + rect.width / 2,
+			fitsBelow ? below : Math.max(0, rect.top - offset),
+		);
+	}
+
+	/**
+	 * Merges `patch` into the callouts of the selected labels; labels without
+	 * one get a line to just below them. null removes the lines.
+	 */
+	function applyCallout(patch: Partial<Callout> | null) {
+		if (!canvas) return;
+		const targets = canvas
+			.getActiveObjects()
+			.filter((obj) => isCalloutLabel(obj) && !isObjectLocked(obj));
+		if (!targets.length) return;
+
+		for (const obj of targets) {
+			if (!patch) {
+				setObjectCallout(obj, undefined);
+				continue;
 			}
-		} else {
-			const entries = selectedTexts
-				.map((obj) => ({ obj, edges: getBoundingRectEdges(obj) }))
-				.sort((a, b) => a.edges.top - b.edges.top);
-
-			const first = entries[0];
-			const last = entries[entries.length - 1];
-			if (!first || !last) return false;
-
-			const totalHeight = entries.reduce(
-				(sum, entry) => sum + entry.edges.height,
-				0,
-			);
-			const span = last.edges.bottom - first.edges.top;
-			const gap = (span - totalHeight) / (entries.length - 1);
-
-			let currentTop = first.edges.bottom + gap;
-			for (let i = 1; i < entries.length - 1; i += 1) {
-				const entry = entries[i];
-				if (!entry) continue;
-				const deltaY = currentTop - entry.edges.top;
-				entry.obj.set({ top: (entry.obj.top ?? 0) + deltaY });
-				entry.obj.setCoords();
-				currentTop += entry.edges.height + gap;
+			const callout =
+				getObjectCallout(obj) ?? createCallout(getDefaultCalloutAnchor(obj));
+			setObjectCallout(obj, { ...callout, ...patch });
+			obj.setCoords();
+		}
+
+		refreshCanvasSelection();
+		commitCanvasHistory(canvas, "修改指引线", "callout");
+	}
+
+	/** Restyles the selected shapes; fields a shape lacks are skipped. */
+	function applyShapeStyle(patch: Partial<ShapeStyle>) {
+		if (!canvas) return;
+		const targets = getSelectedObjects().filter(isShapeObject);
+		if (!targets.length) return;
+
+		for (const shape of targets) {
+			setShapeStyle(shape, patch);
+			shape.parent?.triggerLayout();
+		}
+		refreshCanvasSelection();
+		bumpLayersRevision();
+		commitCanvasHistory(
+			canvas,
+			"修改形状",
+			`shape:${Object.keys(patch).sort().join(",")}`,
+		);
+	}
+
+	/** Restyles the selected redaction regions and remembers the style. */
+	function applyRedactionStyle(patch: Partial<RedactionStyle>) {
+		useRedactionStore.getState().setStyle(patch);
+		if (!canvas) return;
+		const targets = getSelectedObjects().filter(isRedactionRegion);
+		if (!targets.length) return;
+
+		for (const region of targets) {
+			region.set(patch);
+			region.setCoords();
+		}
+		refreshCanvasSelection();
+		bumpLayersRevision();
+		commitCanvasHistory(
+			canvas,
+			"修改打码",
+			`redaction:${Object.keys(patch).sort().join(",")}`,
+		);
+	}
+
+	function getBlendTargets(): FabricObject[] {
+		if (!canvas) return [];
+		return canvas.getActiveObjects().filter((obj) => !isObjectLocked(obj));
+	}
+
+	/** Shows `mode` on the selection without committing; null reverts. */
+	function previewBlendMode(mode: BlendMode | null) {
+		if (!canvas) return;
+		const saved = blendPreviewRef.current;
+		if (mode === null) {
+			if (!saved) return;
+			for (const [obj, original] of saved) {
+				obj.set("globalCompositeOperation", original);
 			}
+			blendPreviewRef.current = null;
+			canvas.requestRenderAll();
+			return;
 		}
 
+		const targets = getBlendTargets();
+		if (!saved) {
+			blendPreviewRef.current = new Map(
+				targets.map((obj) => [obj, readBlendMode(obj)]),
+			);
+		}
+		for (const obj of targets) obj.set("globalCompositeOperation", mode);
+		canvas.requestRenderAll();
+	}
+
+	function applyBlendMode(mode: BlendMode) {
+		if (!canvas) return;
+		blendPreviewRef.current = null;
+		const targets = getBlendTargets();
+		if (!targets.length) return;
+
+		for (const obj of targets) obj.set("globalCompositeOperation", mode);
 		refreshCanvasSelection();
-		return true;
+		commitCanvasHistory(canvas, "修改混合模式");
 	}
 
-	function setActiveTextVertical(vertical: boolean) {
+	function applyVerticalLayout(patch: Partial<VerticalLayoutProps>) {
 		if (!canvas) return;
-		const obj = canvas.getActiveObject() ?? null;
-		if (!isEditableText(obj)) return;
+		const targets = getSelectedEditableTexts().filter(
+			(text): text is VerticalText => text instanceof VerticalText,
+		);
+		if (!targets.length) return;
 
-		const wasVertical = verticalMap.get(obj) ?? false;
-		if (vertical === wasVertical) return;
+		for (const text of targets) {
+			text.set(patch);
+			text.setCoords();
+			text.parent?.triggerLayout();
+		}
+		refreshCanvasSelection();
+		commitCanvasHistory(
+			canvas,
+			"调整竖排",
+			`vertical-layout:${Object.keys(patch).sort().join(",")}`,
+		);
+	}
 
-		const flat = fromVerticalText(obj.text ?? "");
-		const newText = vertical ? toVerticalText(flat) : flat;
+	async function setActiveTextLayout(mode: TextLayoutMode) {
+		if (!canvas || !image) return;
+		const obj = canvas.getActiveObject() ?? null;
+		if (!isEditableText(obj)) return;
 
-		verticalMap.set(obj, vertical);
-		obj.set({
-			text: newText,
-			textAlign: vertical ? "center" : "left",
+		const current = getTextLayoutMode(obj);
+		if (mode === current) return;
+
+		const vertical = mode === "vertical";
+		const curved = mode === "curved";
+		const wasVertical = current === "vertical";
+		const unstacked = wasVertical ? fromVerticalText(obj.text ?? "") : obj.text;
+		// Curved text follows a single path; one space per break keeps styles
+		const flat = curved ? unstacked.replace(/\n/g, " ") : unstacked;
+		const keepsParagraph = !vertical && !wasVertical && !curved;
+		const maxWrapWidth =
+			(image.width * WRAPPED_TEXT_MAX_WIDTH_RATIO) /
+			Math.abs(obj.scaleX || 1);
+		const next = await rebuildTextObject(obj, TEXT_LAYOUT_CLASSES[mode], {
+			text: vertical ? toVerticalText(flat) : flat,
+			textAlign:
+				vertical || curved
+					? "center"
+					: keepsParagraph && !obj.textAlign.includes("justify")
+						? obj.textAlign
+						: "left",
 			lineHeight: vertical
 				? getVerticalLineHeight(obj.charSpacing ?? 0)
-				: DEFAULT_TEXT_LINE_HEIGHT,
+				: keepsParagraph
+					? obj.lineHeight
+					: DEFAULT_TEXT_LINE_HEIGHT,
+			// A text box starts as wide as the text, up to most of the image
+			...(mode === "wrapped" && {
+				width: Math.min(wasVertical ? maxWrapWidth : obj.width, maxWrapWidth),
+			}),
 		});
-		obj.setCoords();
+
+		// Each layout lives in its own class, so swap the object in place
+		const parent = isPlainGroup(obj.parent) ? obj.parent : canvas;
+		const index = parent.getObjects().indexOf(obj);
+		if (index === -1) return;
+		applyObjectMeta(next, readObjectMeta(obj));
+		setObjectVertical(next, vertical);
+		parent.remove(obj);
+		parent.insertAt(index, next);
+		next.setCoords();
+		canvas.setActiveObject(next);
+		setActiveObject(next);
+		bumpLayersRevision();
 		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, TEXT_LAYOUT_LABELS[mode]);
 
 		useStyleInheritanceStore.getState().setInheritedStyle({ vertical });
 	}
 
-	async function setActiveFontFamily(fontFamily: string) {
+	/** Styles the characters selected on the canvas (see double-click). */
+	async function applyToTextSelection(patch: CharStylePatch) {
+		const obj = canvas?.getActiveObject() ?? null;
+		if (!canvas || !isEditableText(obj) || !obj.isEditing) return;
+		const { selectionStart, selectionEnd } = obj;
+		if (selectionStart === selectionEnd) return;
+		if (patch.fontFamily && !(await ensureFontLoaded(patch.fontFamily))) {
+			return;
+		}
+
+		obj.setSelectionStyles(patch, selectionStart, selectionEnd);
+		obj.initDimensions();
+		obj.setCoords();
+		obj.parent?.triggerLayout();
+		obj.renderCursorOrSelection();
+		refreshCanvasSelection();
+		commitCanvasHistory(
+			canvas,
+			"修改字符样式",
+			`char-style:${Object.keys(patch).sort().join(",")}`,
+		);
+	}
+
+	async function ensureFontLoaded(fontFamily: string): Promise<boolean> {
 		const { customFonts, fontLoadStates, setFontLoadState } =
 			useFontStore.getState();
 		const customEntry = customFonts.find((f) => f.family === fontFamily);
@@ -952,13 +1833,25 @@ export function useFabricEditor() {
 				setFontLoadState(fontFamily, { status: "loaded", progress: 100 });
 			} catch {
 				setFontLoadState(fontFamily, { status: "error", progress: 0 });
-				return;
+				return false;
 			}
 		}
+		return true;
+	}
+
+	async function setActiveFontFamily(fontFamily: string) {
+		if (!(await ensureFontLoaded(fontFamily))) return;
 
 		applyToActiveText({ fontFamily });
 		try {
 			await new FontFaceObserver(fontFamily).load(null, 5000);
+			// Curves are sized to the measured text, so measure with the real font
+			cache.clearFontCache(fontFamily);
+			for (const text of getSelectedEditableTexts()) {
+				if (!(text instanceof CurvedText)) continue;
+				text.initDimensions();
+				text.setCoords();
+			}
 			canvas?.requestRenderAll();
 		} catch (err) {
 			if (import.meta.env.DEV)
@@ -971,9 +1864,86 @@ export function useFabricEditor() {
 		const activeObjects = canvas.getActiveObjects();
 		if (!activeObjects.length) return;
 		canvas.discardActiveObject();
-		for (const obj of activeObjects) canvas.remove(obj);
+		for (const obj of activeObjects) {
+			// Members being edited inside a group are removed from that group
+			const parent = obj.parent;
+			if (isPlainGroup(parent)) parent.remove(obj);
+			else canvas.remove(obj);
+		}
 		setActiveObject(null);
 		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, "删除对象");
+	}
+
+	function moveLayer(
+		obj: FabricObject,
+		direction: "forward" | "backward" | "front" | "back",
+	) {
+		if (!canvas) return;
+		switch (direction) {
+			case "forward":
+				canvas.bringObjectForward(obj);
+				break;
+			case "backward":
+				canvas.sendObjectBackwards(obj);
+				break;
+			case "front":
+				canvas.bringObjectToFront(obj);
+				break;
+			case "back":
+				canvas.sendObjectToBack(obj);
+				break;
+		}
+		canvas.requestRenderAll();
+		bumpLayersRevision();
+		commitCanvasHistory(canvas, "调整图层顺序");
+	}
+
+	function moveLayerTo(obj: FabricObject, index: number) {
+		if (!canvas) return;
+		const maxIndex = canvas.getObjects().length - 1;
+		canvas.moveObjectTo(obj, clamp(index, 0, maxIndex));
+		canvas.requestRenderAll();
+		bumpLayersRevision();
+		commitCanvasHistory(canvas, "调整图层顺序");
+	}
+
+	function setLayerVisible(obj: FabricObject, visible: boolean) {
+		if (!canvas) return;
+		obj.set({ visible });
+		if (!visible && canvas.getActiveObjects().includes(obj)) {
+			canvas.discardActiveObject();
+			setActiveObject(null);
+		}
+		canvas.requestRenderAll();
+		bumpLayersRevision();
+		commitCanvasHistory(canvas, visible ? "显示图层" : "隐藏图层");
+	}
+
+	function setLayerLocked(obj: FabricObject, locked: boolean) {
+		if (!canvas) return;
+		setObjectLocked(obj, locked);
+		if (locked && canvas.getActiveObjects().includes(obj)) {
+			canvas.discardActiveObject();
+			setActiveObject(null);
+		}
+		canvas.requestRenderAll();
+		bumpLayersRevision();
+		commitCanvasHistory(canvas, locked ? "锁定图层" : "解锁图层");
+	}
+
+	function renameLayer(obj: FabricObject, name: string) {
+		if (!canvas) return;
+		setObjectName(obj, name);
+		bumpLayersRevision();
+		commitCanvasHistory(canvas, "重命名图层", "layer-name");
+	}
+
+	function selectLayer(obj: FabricObject) {
+		if (!canvas || isObjectLocked(obj) || !obj.visible) return;
+		canvas.setActiveObject(obj);
+		setActiveObject(obj);
+		canvas.requestRenderAll();
 	}
 
 	async function exportImage(format: "png" | "jpeg") {
@@ -981,6 +1951,8 @@ export function useFabricEditor() {
 
 		await document.fonts.ready;
 
+		// Redaction regions sample the full-size screenshot, so they bake in
+		// at its resolution; nothing leaves the browser
 		const prevBg = canvas.backgroundColor;
 		if (format === "jpeg") canvas.set("backgroundColor", "#ffffff");
 
@@ -996,19 +1968,239 @@ export function useFabricEditor() {
 
 		if (!blob) return;
 
-		const url = URL.createObjectURL(blob);
-		const a = document.createElement("a");
-		a.href = url;
 		const ext = format === "jpeg" ? "jpg" : "png";
-		a.download = `${image.fileName.replace(/\.[^.]+$/, "") || "export"}.${ext}`;
-		document.body.appendChild(a);
-		a.click();
-		a.remove();
-		URL.revokeObjectURL(url);
+		downloadBlob(
+			blob,
+			`${image.fileName.replace(/\.[^.]+$/, "") || "export"}.${ext}`,
+		);
+	}
+
+	/**
+	 * Loads a project's fonts; resolves to the families that failed.
+	 * Uploaded fonts come from their base64 data or from `fontBuffers`.
+	 */
+	async function restoreProjectFonts(
+		fonts: ProjectFontRef[],
+		fontBuffers: Record<string, ArrayBuffer> = {},
+	): Promise<string[]> {
+		const { addUploadedFont } = useFontStore.getState();
+		const getBuffer = (font: ProjectFontRef) =>
+			font.data ? base64ToArrayBuffer(font.data) : fontBuffers[font.family];
+		// Manifest fonts are looked up by family, so wait for the manifest
+		if (fonts.some((font) => !font.data && !fontBuffers[font.family])) {
+			try {
+				await initFontStore();
+			} catch (err) {
+				if (import.meta.env.DEV)
+					console.warn("[jx3-photo-maker] font manifest failed:", err);
+			}
+		}
+
+		const failed: string[] = [];
+		await Promise.all(
+			fonts.map(async (font) => {
+				try {
+					const buffer = getBuffer(font);
+					if (buffer) {
+						await registerFontBuffer(font.family, buffer);
+						addUploadedFont({ family: font.family, source: "uploaded" });
+					} else {
+						if (!(await ensureFontLoaded(font.family))) {
+							throw new Error(`Font not loaded: ${font.family}`);
+						}
+						await new FontFaceObserver(font.family).load(null, 5000);
+					}
+					// Drop widths measured with a fallback before the font arrived
+					cache.clearFontCache(font.family);
+				} catch (err) {
+					failed.push(font.family);
+					if (import.meta.env.DEV)
+						console.warn("[jx3-photo-maker] project font failed:", err);
+				}
+			}),
+		);
+		return failed;
+	}
+
+	function saveProject() {
+		if (!canvas || !image) return;
+
+		const project = buildProjectFile(
+			canvas,
+			image,
+			useFontStore.getState().getAllFonts(),
+			useGuidesStore.getState().guides,
+		);
+		const blob = new Blob([JSON.stringify(project)], {
+			type: "application/json",
+		});
+		const baseName = image.fileName.replace(/\.[^.]+$/, "") || "project";
+		downloadBlob(blob, `${baseName}${PROJECT_FILE_EXTENSION}`);
+	}
+
+	/** Resolves to the fonts that could not be restored. */
+	async function openProject(file: File): Promise<string[]> {
+		return loadProject(parseProjectFile(await file.text()));
+	}
+
+	/**
+	 * Tries the newest recovery slot first and falls back to older ones.
+	 * Resolves to the fonts that could not be restored, or null if no slot
+	 * loads.
+	 */
+	async function restoreRecovery(
+		records: RecoveryRecord[],
+	): Promise<string[] | null> {
+		for (const record of records) {
+			try {
+				const dataUrl = await fileToDataURL(record.imageBlob);
+				return await loadProject(
+					{ ...record.project, image: { ...record.project.image, dataUrl } },
+					record.fontBuffers,
+				);
+			} catch (err) {
+				if (import.meta.env.DEV)
+					console.warn("[jx3-photo-maker] recovery slot failed:", err);
+			}
+		}
+		return null;
+	}
+
+	async function loadProject(
+		project: ProjectFile,
+		fontBuffers?: Record<string, ArrayBuffer>,
+	): Promise<string[]> {
+		if (!canvas) return [];
+
+		const missingFonts = await restoreProjectFonts(project.fonts, fontBuffers);
+		await applyBackgroundImage(project.image.dataUrl, project.image.fileName);
+		await restoreCanvas(canvas, project.canvas);
+		// Recovery records written before guides existed have none
+		useGuidesStore.getState().setGuides(sanitizeGuides(project.guides));
+		resetCanvasHistory(canvas);
+		bumpActiveObjectRevision();
+		return missingFonts;
 	}
 
 	const presets = JX3_SCHOOL_PRESETS;
 
+	/** Adds a nameplate in the school's colour and icon, if one is given. */
+	async function addNameplate(schoolKey = "") {
+		if (!canvas || !image) return;
+
+		const { fontFamily } = useStyleInheritanceStore
+			.getState()
+			.getInheritedStyle();
+		const nameplate = createNameplate(
+			{
+				...NAMEPLATE_DEFAULTS,
+				schoolKey,
+				styleKey: schoolKey ? "school" : "classic",
+				fontFamily,
+			},
+			await loadNameplateIcon(schoolKey),
+		);
+		nameplate.set({ left: image.width / 2, top: image.height / 2 });
+		nameplate.setCoords();
+		canvas.add(nameplate);
+		canvas.setActiveObject(nameplate);
+		setActiveObject(nameplate);
+		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, "添加名牌");
+	}
+
+	/** Rebuilds the selected nameplate with `patch`, where the old one was. */
+	async function applyNameplate(patch: Partial<NameplateProps>) {
+		if (!canvas) return;
+		const current = canvas.getActiveObject();
+		if (!(current instanceof Nameplate) || isObjectLocked(current)) return;
+
+		const props = { ...readNameplateProps(current), ...patch };
+		const placement = {
+			left: current.left,
+			top: current.top,
+			originX: current.originX,
+			originY: current.originY,
+			angle: current.angle,
+			scaleX: current.scaleX,
+			scaleY: current.scaleY,
+			flipX: current.flipX,
+			flipY: current.flipY,
+			skewX: current.skewX,
+			skewY: current.skewY,
+			opacity: current.opacity,
+			globalCompositeOperation: current.globalCompositeOperation,
+		};
+
+		let icon: FabricImage | null = null;
+		if (props.showIcon && props.schoolKey) {
+			const currentIcon = current.getIcon();
+			if (currentIcon && props.schoolKey === current.schoolKey) {
+				current.remove(currentIcon);
+				icon = currentIcon;
+			} else {
+				icon = await loadNameplateIcon(props.schoolKey);
+				// Another edit may have replaced the plate while the icon loaded
+				if (canvas.getActiveObject() !== current) return;
+			}
+		}
+
+		const parent = isPlainGroup(current.parent) ? current.parent : canvas;
+		const index = parent.getObjects().indexOf(current);
+		if (index === -1) return;
+		const next = createNameplate(props, icon);
+		next.set(placement);
+		applyObjectMeta(next, readObjectMeta(current));
+		parent.remove(current);
+		parent.insertAt(index, next);
+		next.setCoords();
+		canvas.setActiveObject(next);
+		setActiveObject(next);
+		bumpLayersRevision();
+		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, "编辑名牌", "nameplate");
+	}
+
+	/** Adds a shape sized to the image, in the middle of it. */
+	function addShape(kind: ShapeKind) {
+		if (!canvas || !image) return;
+
+		const shape = createShape(
+			kind,
+			Math.min(image.width, image.height) * SHAPE_SIZE_RATIO,
+		);
+		shape.set({ left: image.width / 2, top: image.height / 2 });
+		shape.setCoords();
+		canvas.add(shape);
+		canvas.setActiveObject(shape);
+		setActiveObject(shape);
+		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, "添加形状");
+	}
+
+	/** Adds a redaction rectangle in the middle of the image. */
+	function addRedactionRect() {
+		if (!canvas || !image) return;
+
+		const size = Math.min(image.width, image.height) * REDACTION_SIZE_RATIO;
+		const region = new RedactionRect({
+			...useRedactionStore.getState().style,
+			left: image.width / 2,
+			top: image.height / 2,
+			width: size * 1.5,
+			height: size,
+			originX: "center",
+			originY: "center",
+			objectCaching: false,
+		});
+		region.setCoords();
+		canvas.add(region);
+		canvas.setActiveObject(region);
+		setActiveObject(region);
+		canvas.requestRenderAll();
+		commitCanvasHistory(canvas, "添加打码");
+	}
+
 	function addPreset(presetKey: string) {
 		const preset = presets.find((p) => p.key === presetKey);
 		if (!preset) return;
@@ -1028,12 +2220,55 @@ export function useFabricEditor() {
 		getAllTextSnapshots,
 		addPreset,
 		presets,
+		addNameplate,
+		applyNameplate,
+		addShape,
+		applyShapeStyle,
+		addRedactionRect,
+		applyRedactionStyle,
 		applyToActiveText,
+		applyTextFill,
+		applyTextEffects,
+		applyTextPlate,
+		applyToTextSelection,
 		setActiveFontFamily,
-		setActiveTextVertical,
-		alignSelectedTexts,
-		distributeSelectedTexts,
+		setActiveTextLayout,
+		alignSelectedObjects,
+		distributeSelectedObjects,
+		transformSelection,
+		previewBlendMode,
+		applyBlendMode,
+		applyCallout,
+		applyVerticalLayout,
+		applyCurveLayout,
 		deleteActiveObject,
+		moveLayer,
+		moveLayerTo,
+		setLayerVisible,
+		setLayerLocked,
+		renameLayer,
+		selectLayer,
 		exportImage,
+		saveProject,
+		openProject,
+		restoreRecovery,
+		undo: undoCanvas,
+		redo: redoCanvas,
+		hasClipboard: () => clipboard !== null,
+		copySelection: () => !!canvas && copyCanvasSelection(canvas),
+		cutSelection: () => !!canvas && cutCanvasSelection(canvas),
+		pasteClipboard: async () => {
+			if (canvas) await pasteCanvasClipboard(canvas);
+		},
+		duplicateSelection: async () => {
+			if (canvas) await duplicateCanvasSelection(canvas);
+		},
+		nudgeSelection: (dx: number, dy: number) =>
+			!!canvas && nudgeCanvasSelection(canvas, dx, dy),
+		selectAll: () => {
+			if (canvas) selectAllCanvasObjects(canvas);
+		},
+		groupSelection: () => !!canvas && groupCanvasSelection(canvas),
+		ungroupSelection: () => !!canvas && ungroupCanvasSelection(canvas),
 	};
 }
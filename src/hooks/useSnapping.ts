@@ -0,0 +1,225 @@
+import type {
+	BasicTransformEvent,
+	Canvas,
+	FabricObject,
+	TPointerEvent,
+} from "fabric";
+import { ActiveSelection } from "fabric";
+import { useEffect, useRef } from "react";
+import { getGridLines } from "@/lib/grid";
+import {
+	drawSnapGuides,
+	edgeGuides,
+	getSnapThreshold,
+	rectFromObject,
+	type SnapContext,
+	type SnapGuide,
+	snapEdge,
+	snapMovingRect,
+} from "@/lib/snapping";
+import { useEditorStore } from "@/store/editor-store";
+import { useGuidesStore } from "@/store/guides-store";
+
+type TransformEvent = BasicTransformEvent<TPointerEvent> & {
+	target: FabricObject;
+};
+
+/** Hold Ctrl / ⌘ while dragging to move freely */
+function isSnapSuppressed(event: TPointerEvent) {
+	return event.ctrlKey || event.metaKey;
+}
+
+function buildSnapContext(
+	canvas: Canvas,
+	active: FabricObject,
+	displayScale: number,
+): SnapContext {
+	const moving = new Set<FabricObject>(
+		active instanceof ActiveSelection ? active.getObjects() : [active],
+	);
+	const targets = canvas
+		.getObjects()
+		.filter(
+			(obj) =>
+				!moving.has(obj) &&
+				obj !== active.parent &&
+				obj.visible !== false &&
+				!obj.excludeFromExport,
+		)
+		.map(rectFromObject);
+	const width = canvas.getWidth();
+	const height = canvas.getHeight();
+
+	const { guides, grid, snapToGrid } = useGuidesStore.getState();
+	const extraLines = snapToGrid
+		? getGridLines(grid, width, height)
+		: { x: [], y: [] };
+	for (const guide of guides) extraLines[guide.axis].push(guide.position);
+
+	return {
+		targets,
+		width,
+		height,
+		threshold: getSnapThreshold(displayScale),
+		extraLines,
+	};
+}
+
+/**
+ * Figma-style smart guides: snaps moved / scaled objects to the canvas,
+ * other objects, equal spacing, ruler guides and the grid, drawing the
+ * guides on the top layer.
+ */
+export function useSnapping(canvas: Canvas | null, displayScale: number) {
+	const enabled = useEditorStore((s) => s.snappingEnabled);
+	const displayScaleRef = useRef(displayScale);
+
+	useEffect(() => {
+		displayScaleRef.current = displayScale;
+	}, [displayScale]);
+
+	useEffect(() => {
+		if (!canvas || !enabled) return;
+
+		let guides: SnapGuide[] = [];
+		let guidesDrawn = false;
+
+		const handleMoving = ({ target, e }: TransformEvent) => {
+			if (isSnapSuppressed(e)) {
+				guides = [];
+				return;
+			}
+			const context = buildSnapContext(
+				canvas,
+				target,
+				displayScaleRef.current,
+			);
+			const result = snapMovingRect(rectFromObject(target), context);
+			if (result.dx || result.dy) {
+				target.set({
+					left: (target.left ?? 0) + result.dx,
+					top: (target.top ?? 0) + result.dy,
+				});
+				target.setCoords();
+			}
+			guides = result.guides;
+		};
+
+		const handleScaling = ({ target, e, transform }: TransformEvent) => {
+			guides = [];
+			const corner = transform.corner;
+			// Centred (Alt) or rotated scaling has no single edge to snap
+			if (!corner || e.altKey || isSnapSuppressed(e)) return;
+			if ((target.angle ?? 0) % 360 !== 0) return;
+
+			const context = buildSnapContext(
+				canvas,
+				target,
+				displayScaleRef.current,
+			);
+			const rect = rectFromObject(target);
+			const width = rect.right - rect.left;
+			const height = rect.bottom - rect.top;
+			if (width <= 0 || height <= 0) return;
+
+			const movesLeft = corner.includes("l");
+			const movesRight = corner.includes("r");
+			const movesTop = corner.includes("t");
+			const movesBottom = corner.includes("b");
+
+			const xSnap =
+				movesLeft || movesRight
+					? snapEdge(movesLeft ? rect.left : rect.right, context, "x")
+					: null;
+			const ySnap =
+				movesTop || movesBottom
+					? snapEdge(movesTop ? rect.top : rect.bottom, context, "y")
+					: null;
+			let useX = !!xSnap?.matches.length;
+			let useY = !!ySnap?.matches.length;
+			if (!useX && !useY) return;
+
+			let factorX = 1;
+			let factorY = 1;
+			if (xSnap && useX) {
+				factorX = (width + (movesLeft ? -xSnap.offset : xSnap.offset)) / width;
+			}
+			if (ySnap && useY) {
+				factorY =
+					(height + (movesTop ? -ySnap.offset : ySnap.offset)) / height;
+			}
+			if (xSnap && ySnap) {
+				// Corner handles keep their ratio: follow the closer edge
+				useX =
+					useX && (!useY || Math.abs(xSnap.offset) <= Math.abs(ySnap.offset));
+				useY = !useX;
+				const factor = useX ? factorX : factorY;
+				factorX = factor;
+				factorY = factor;
+			}
+			if (factorX <= 0 || factorY <= 0) return;
+
+			target.set({
+				scaleX: (target.scaleX ?? 1) * factorX,
+				scaleY: (target.scaleY ?? 1) * factorY,
+			});
+			target.setCoords();
+			// Keep the edge opposite the handle where it was
+			const scaled = rectFromObject(target);
+			target.set({
+				left:
+					(target.left ?? 0) +
+					(movesLeft ? rect.right - scaled.right : rect.left - scaled.left),
+				top:
+					(target.top ?? 0) +
+					(movesTop ? rect.bottom - scaled.bottom : rect.top - scaled.top),
+			});
+			target.setCoords();
+
+			const snapped = rectFromObject(target);
+			if (xSnap && useX) {
+				guides.push(...edgeGuides(snapped, xSnap.matches, context, "x"));
+			}
+			if (ySnap && useY) {
+				guides.push(...edgeGuides(snapped, ySnap.matches, context, "y"));
+			}
+		};
+
+		const clearGuides = () => {
+			if (!guides.length) return;
+			guides = [];
+			canvas.requestRenderAll();
+		};
+
+		const handleBeforeRender = () => {
+			if (!guidesDrawn) return;
+			canvas.clearContext(canvas.contextTop);
+			guidesDrawn = false;
+		};
+
+		const handleAfterRender = () => {
+			if (!guides.length) return;
+			const ctx = canvas.contextTop;
+			ctx.save();
+			ctx.transform(...canvas.viewportTransform);
+			drawSnapGuides(ctx, guides, 1 / displayScaleRef.current);
+			ctx.restore();
+			guidesDrawn = true;
+		};
+
+		canvas.on("object:moving", handleMoving);
+		canvas.on("object:scaling", handleScaling);
+		canvas.on("mouse:up", clearGuides);
+		canvas.on("before:render", handleBeforeRender);
+		canvas.on("after:render", handleAfterRender);
+		return () => {
+			canvas.off("object:moving", handleMoving);
+			canvas.off("object:scaling", handleScaling);
+			canvas.off("mouse:up", clearGuides);
+			canvas.off("before:render", handleBeforeRender);
+			canvas.off("after:render", handleAfterRender);
+			guides = [];
+			handleBeforeRender();
+		};
+	}, [canvas, enabled]);
+}
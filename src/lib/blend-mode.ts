@@ -0,0 +1,40 @@
+import type { FabricObject } from "fabric";
+import type { CSSProperties } from "react";
+
+export type BlendMode = GlobalCompositeOperation;
+
+export const DEFAULT_BLEND_MODE: BlendMode = "source-over";
+
+/** Canvas blend modes that also exist in CSS `mix-blend-mode`, in PS order */
+export const BLEND_MODES: Array<{ mode: BlendMode; label: string }> = [
+	{ mode: "source-over", label: "正常" },
+	{ mode: "darken", label: "变暗" },
+	{ mode: "multiply", label: "正片叠底" },
+	{ mode: "color-burn", label: "颜色加深" },
+	{ mode: "lighten", label: "变亮" },
+	{ mode: "screen", label: "滤色" },
+	{ mode: "color-dodge", label: "颜色减淡" },
+	{ mode: "overlay", label: "叠加" },
+	{ mode: "soft-light", label: "柔光" },
+	{ mode: "hard-light", label: "强光" },
+	{ mode: "difference", label: "差值" },
+	{ mode: "exclusion", label: "排除" },
+	{ mode: "hue", label: "色相" },
+	{ mode: "saturation", label: "饱和度" },
+	{ mode: "color", label: "颜色" },
+	{ mode: "luminosity", label: "明度" },
+];
+
+export function readBlendMode(obj: FabricObject): BlendMode {
+	return obj.globalCompositeOperation || DEFAULT_BLEND_MODE;
+}
+
+/** The same mode for CSS previews; canvas calls "normal" source-over. */
+export function toCssBlendMode(
+	mode: BlendMode,
+): CSSProperties["mixBlendMode"] {
+	// Every mode in BLEND_MODES other than source-over shares its CSS name
+	return mode === DEFAULT_BLEND_MODE
+		? "normal"
+		: (mode as CSSProperties["mixBlendMode"]);
+}
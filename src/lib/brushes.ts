@@ -0,0 +1,168 @@
+import type { Canvas, PathProps, TSimplePathData } from "fabric";
+import { Color, classRegistry, Path, PencilBrush, Point } from "fabric";
+import type { BlendMode } from "@/lib/blend-mode";
+
+export type BrushPresetKey = "pen" | "marker" | "calligraphy";
+
+export interface BrushPreset {
+	label: string;
+	/** Opacity of finished strokes; the live preview uses the same alpha */
+	opacity: number;
+	blendMode: BlendMode;
+	defaultWidth: number;
+}
+
+export const BRUSH_PRESETS: Record<BrushPresetKey, BrushPreset> = {
+	pen: {
+		label: "钢笔",
+		opacity: 1,
+		blendMode: "source-over",
+		defaultWidth: 6,
+	},
+	// Multiply keeps the screenshot readable under the ink
+	marker: {
+		label: "荧光笔",
+		opacity: 0.45,
+		blendMode: "multiply",
+		defaultWidth: 24,
+	},
+	calligraphy: {
+		label: "毛笔",
+		opacity: 1,
+		blendMode: "source-over",
+		defaultWidth: 16,
+	},
+};
+
+export const BRUSH_PRESET_KEYS = Object.keys(BRUSH_PRESETS) as BrushPresetKey[];
+
+export const MAX_BRUSH_SMOOTHING = 10;
+
+export interface BrushSettings {
+	presetKey: BrushPresetKey;
+	color: string;
+	width: number;
+	/** 0 keeps every wobble; higher values average more neighbouring points */
+	smoothing: number;
+}
+
+/** A calligraphy nib is held at this angle, so strokes swell and thin */
+const NIB_ANGLE = -Math.PI / 4;
+/** Most passes a nib stroke is drawn with, whatever its width */
+const MAX_NIB_PASSES = 24;
+
+/**
+ * Calls `draw` once per pass of a flat nib `width` wide, shifting the
+ * context along the nib each time; the passes overlap into one stroke.
+ */
+function drawWithNib(
+	ctx: CanvasRenderingContext2D,
+	width: number,
+	draw: (passWidth: number) => void,
+) {
+	const passes = Math.min(Math.max(Math.ceil(width), 2), MAX_NIB_PASSES);
+	const step = width / (passes - 1);
+	const nib = new Point(Math.cos(NIB_ANGLE), Math.sin(NIB_ANGLE));
+	for (let i = 0; i < passes; i++) {
+		const offset = -width / 2 + step * i;
+		ctx.save();
+		ctx.translate(nib.x * offset, nib.y * offset);
+		draw(Math.max(step * 1.5, 1));
+		ctx.restore();
+	}
+}
+
+/** Averages each point with `radius` neighbours on both sides. */
+function smoothPoints(points: Point[], radius: number): Point[] {
+	if (radius < 1 || points.length < 3) return points;
+	return points.map((point, i) => {
+		if (i === 0 || i === points.length - 1) return point;
+		const near = points.slice(Math.max(0, i - radius), i + radius + 1);
+		return near
+			.reduce((sum, p) => sum.add(p), new Point(0, 0))
+			.scalarDivide(near.length);
+	});
+}
+
+interface BrushStrokeProps extends PathProps {
+	brush: BrushPresetKey;
+}
+
+/** One freehand stroke; remembers its brush so calligraphy keeps its nib. */
+export class BrushStroke extends Path<Partial<BrushStrokeProps>> {
+	static type = "BrushStroke";
+	static customProperties = ["brush"];
+
+	declare brush: BrushPresetKey;
+
+	_renderStroke(ctx: CanvasRenderingContext2D) {
+		if (this.brush !== "calligraphy" || !this.stroke || !this.strokeWidth) {
+			super._renderStroke(ctx);
+			return;
+		}
+		ctx.save();
+		this._setStrokeStyles(ctx, this);
+		drawWithNib(ctx, this.strokeWidth, (passWidth) => {
+			ctx.lineWidth = passWidth;
+			this._renderPathCommands(ctx);
+			ctx.stroke();
+		});
+		ctx.restore();
+	}
+}
+
+classRegistry.setClass(BrushStroke);
+
+/** Fabric's pencil with the pen, marker and calligraphy presets on top. */
+export class PresetBrush extends PencilBrush {
+	declare presetKey: BrushPresetKey;
+	declare smoothing: number;
+	/** The colour at full strength; `color` carries the preview's alpha */
+	declare ink: string;
+
+	constructor(canvas: Canvas, settings: BrushSettings) {
+		super(canvas);
+		const preset = BRUSH_PRESETS[settings.presetKey];
+		this.presetKey = settings.presetKey;
+		this.smoothing = settings.smoothing;
+		this.width = settings.width;
+		this.ink = settings.color;
+		this.color = new Color(settings.color).setAlpha(preset.opacity).toRgba();
+	}
+
+	needsFullRender() {
+		return super.needsFullRender() || this.presetKey === "calligraphy";
+	}
+
+	_render(ctx: CanvasRenderingContext2D = this.canvas.contextTop) {
+		if (this.presetKey !== "calligraphy") {
+			super._render(ctx);
+			return;
+		}
+		// The nib shifts the context before the pencil applies the zoom
+		const zoom = this.canvas.getZoom();
+		drawWithNib(ctx, this.width * zoom, (passWidth) => {
+			ctx.lineWidth = passWidth / zoom;
+			super._render(ctx);
+		});
+	}
+
+	convertPointsToSVGPath(points: Point[]): TSimplePathData {
+		return super.convertPointsToSVGPath(smoothPoints(points, this.smoothing));
+	}
+
+	createPath(pathData: TSimplePathData): BrushStroke {
+		const preset = BRUSH_PRESETS[this.presetKey];
+		return new BrushStroke(pathData, {
+			fill: null,
+			stroke: this.ink,
+			strokeWidth: this.width,
+			strokeLineCap: this.strokeLineCap,
+			strokeLineJoin: this.strokeLineJoin,
+			opacity: preset.opacity,
+			globalCompositeOperation: preset.blendMode,
+			objectCaching: false,
+			brush: this.presetKey,
+		});
+	}
+}
@@ -0,0 +1,20 @@
+import { Point } from "fabric";
+import { describe, expect, it } from "vitest";
+import { createCallout, offsetCallout } from "@/lib/callout";
+
+describe("offsetCallout", () => {
+	it("moves the anchor and keeps the line's look", () => {
+		const callout = { ...createCallout(new Point(100, 50)), width: 6 };
+		expect(offsetCallout(callout, 20, -10)).toEqual({
+			...callout,
+			anchorX: 120,
+			anchorY: 40,
+		});
+	});
+
+	it("leaves the original callout alone", () => {
+		const callout = createCallout(new Point(100, 50));
+		offsetCallout(callout, 20, 20);
+		expect(callout).toMatchObject({ anchorX: 100, anchorY: 50 });
+	});
+});
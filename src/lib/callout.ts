@@ -0,0 +1,269 @@
+import {
+	Control,
+	controlsUtils,
+	FabricObject,
+	IText,
+	Point,
+	type TransformActionHandler,
+	util,
+} from "fabric";
+import { JX3_SCHOOL_PRESETS } from "@/constants/colors";
+import { getObjectCallout, getObjectPresetKey } from "@/lib/canvas-snapshot";
+import { getFillSwatchColor, readTextFill } from "@/lib/gradient-fill";
+import { Nameplate } from "@/lib/nameplate";
+
+export type CalloutStyle = "straight" | "elbow" | "curved";
+
+export type CalloutHead = "none" | "dot" | "arrow";
+
+/** A leader line from a label to the spot on the screenshot it tags. */
+export interface Callout {
+	style: CalloutStyle;
+	head: CalloutHead;
+	/** The tagged spot in image pixels; it stays put when the label moves */
+	anchorX: number;
+	anchorY: number;
+	width: number;
+	/** null follows the label's school colour */
+	color: string | null;
+}
+
+export const CALLOUT_STYLE_LABELS: Record<CalloutStyle, string> = {
+	straight: "直线",
+	elbow: "折线",
+	curved: "曲线",
+};
+
+export const CALLOUT_HEAD_LABELS: Record<CalloutHead, string> = {
+	none: "无",
+	dot: "圆点",
+	arrow: "箭头",
+};
+
+export const CALLOUT_STYLES = Object.keys(
+	CALLOUT_STYLE_LABELS,
+) as CalloutStyle[];
+
+export const CALLOUT_HEADS = Object.keys(CALLOUT_HEAD_LABELS) as CalloutHead[];
+
+const CALLOUT_ANCHOR_CONTROL = "calloutAnchor";
+/** Space between the label's box and where its line starts */
+const CALLOUT_GAP = 8;
+/** A dark edge keeps thin lines readable on busy screenshots */
+const CALLOUT_HALO = "rgba(0, 0, 0, 0.45)";
+const CALLOUT_HALO_WIDTH = 3;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+
+export function createCallout(anchor: Point): Callout {
+	return {
+		style: "straight",
+		head: "dot",
+		anchorX: anchor.x,
+		anchorY: anchor.y,
+		width: 4,
+		color: null,
+	};
+}
+
+/** The same callout with its anchor moved, e.g. along with a pasted copy. */
+export function offsetCallout(
+	callout: Callout,
+	dx: number,
+	dy: number,
+): Callout {
+	return {
+		...callout,
+		anchorX: callout.anchorX + dx,
+		anchorY: callout.anchorY + dy,
+	};
+}
+
+/** Texts and nameplates can point at something; other objects cannot. */
+export function isCalloutLabel(obj: FabricObject): obj is IText | Nameplate {
+	return obj instanceof IText || obj instanceof Nameplate;
+}
+
+export function getCalloutColor(obj: FabricObject, callout: Callout): string {
+	if (callout.color) return callout.color;
+	const schoolKey =
+		obj instanceof Nameplate ? obj.schoolKey : getObjectPresetKey(obj);
+	const school = JX3_SCHOOL_PRESETS.find((p) => p.key === schoolKey);
+	if (school) return school.color;
+	return obj instanceof IText
+		? getFillSwatchColor(readTextFill(obj.fill))
+		: "#ffffff";
+}
+
+interface CalloutRoute {
+	start: Point;
+	/** Corner of elbows and pull of curves */
+	bend: Point | null;
+	end: Point;
+}
+
+/**
+ * The line in scene coordinates, leaving the label's box on the side that
+ * faces the anchor; null while the anchor is under the label.
+ */
+function getCalloutRoute(
+	obj: FabricObject,
+	callout: Callout,
+): CalloutRoute | null {
+	const matrix = obj.calcTransformMatrix();
+	const end = new Point(callout.anchorX, callout.anchorY);
+	const local = util.sendPointToPlane(end, undefined, matrix);
+	// Unscaled, since `local` is; text dimensions include their plate
+	const box = obj
+		._getTransformedDimensions({ scaleX: 1, scaleY: 1, skewX: 0, skewY: 0 })
+		.scalarAdd(CALLOUT_GAP * 2);
+	const reachX = local.x ? box.x / 2 / Math.abs(local.x) : 1;
+	const reachY = local.y ? box.y / 2 / Math.abs(local.y) : 1;
+	const reach = Math.min(reachX, reachY);
+	if (reach >= 1) return null;
+
+	const exit = local.scalarMultiply(reach);
+	// Elbows leave their side at a right angle, then turn to the anchor
+	const bend =
+		callout.style === "straight"
+			? null
+			: reachX < reachY
+				? new Point(local.x, exit.y)
+				: new Point(exit.x, local.y);
+	return {
+		start: exit.transform(matrix),
+		bend: bend?.transform(matrix) ?? null,
+		end,
+	};
+}
+
+function traceRoute(
+	ctx: CanvasRenderingContext2D,
+	style: CalloutStyle,
+	{ start, bend, end }: CalloutRoute,
+) {
+	ctx.beginPath();
+	ctx.moveTo(start.x, start.y);
+	if (bend && style === "curved") {
+		ctx.quadraticCurveTo(bend.x, bend.y, end.x, end.y);
+	} else {
+		if (bend) ctx.lineTo(bend.x, bend.y);
+		ctx.lineTo(end.x, end.y);
+	}
+}
+
+/** Traces the head at `end`; false when there is none to fill. */
+function traceHead(
+	ctx: CanvasRenderingContext2D,
+	head: CalloutHead,
+	from: Point,
+	end: Point,
+	size: number,
+): boolean {
+	if (head === "none") return false;
+	ctx.beginPath();
+	if (head === "dot") {
+		ctx.arc(end.x, end.y, size, 0, Math.PI * 2);
+		return true;
+	}
+	const angle = Math.atan2(end.y - from.y, end.x - from.x);
+	const length = size * 2.5;
+	ctx.moveTo(end.x, end.y);
+	for (const side of [-1, 1]) {
+		const wing = angle + Math.PI + side * ARROW_HEAD_ANGLE;
+		ctx.lineTo(end.x + length * Math.cos(wing), end.y + length * Math.sin(wing));
+	}
+	ctx.closePath();
+	return true;
+}
+
+function renderCallout(
+	ctx: CanvasRenderingContext2D,
+	obj: FabricObject,
+	callout: Callout,
+) {
+	const route = getCalloutRoute(obj, callout);
+	if (!route) return;
+
+	ctx.save();
+	// Members of a group are drawn in the group's plane; the route is not
+	const { group } = obj;
+	if (group?._transformDone) {
+		const [a, b, c, d, e, f] = util.invertTransform(
+			group.calcTransformMatrix(),
+		);
+		ctx.transform(a, b, c, d, e, f);
+	}
+	ctx.globalAlpha *= obj.opacity;
+	ctx.lineCap = "round";
+	ctx.lineJoin = "round";
+	const color = getCalloutColor(obj, callout);
+	const headSize = callout.width * 1.5 + 2;
+	const from = route.bend ?? route.start;
+	for (const [paint, extra] of [
+		[CALLOUT_HALO, CALLOUT_HALO_WIDTH],
+		[color, 0],
+	] as const) {
+		ctx.strokeStyle = paint;
+		ctx.fillStyle = paint;
+		ctx.lineWidth = callout.width + extra;
+		traceRoute(ctx, callout.style, route);
+		ctx.stroke();
+		if (traceHead(ctx, callout.head, from, route.end, headSize + extra / 2)) {
+			ctx.fill();
+		}
+	}
+	ctx.restore();
+}
+
+/**
+ * Draws the label's callout, if any, under it and before it is transformed.
+ * Label classes call this at the start of `render`.
+ */
+export function renderObjectCallout(
+	obj: FabricObject,
+	ctx: CanvasRenderingContext2D,
+) {
+	const callout = getObjectCallout(obj);
+	if (callout && obj.visible) renderCallout(ctx, obj, callout);
+}
+
+const moveAnchor: TransformActionHandler = (_, transform, x, y) => {
+	const callout = getObjectCallout(transform.target);
+	if (!callout) return false;
+	callout.anchorX = x;
+	callout.anchorY = y;
+	return true;
+};
+
+function createCalloutAnchorControl(): Control {
+	return new Control({
+		actionName: "moveCalloutAnchor",
+		cursorStyle: "crosshair",
+		getVisibility: (fabricObject) =>
+			!!getObjectCallout(fabricObject as FabricObject),
+		positionHandler: (_, __, fabricObject) => {
+			const callout = getObjectCallout(fabricObject as FabricObject);
+			const anchor = callout
+				? new Point(callout.anchorX, callout.anchorY)
+				: fabricObject.getCenterPoint();
+			return anchor.transform(fabricObject.getViewportTransform());
+		},
+		actionHandler: moveAnchor,
+		render: controlsUtils.renderCircleControl,
+	});
+}
+
+/**
+ * `controls` plus the anchor handle, which only shows once there is a line.
+ * Label classes return this from `createControls`.
+ */
+export function withCalloutAnchor(controls: Record<string, Control>): {
+	controls: Record<string, Control>;
+} {
+	return {
+		controls: {
+			...controls,
+			[CALLOUT_ANCHOR_CONTROL]: createCalloutAnchorControl(),
+		},
+	};
+}
@@ -0,0 +1,106 @@
+import { IText, Shadow } from "fabric";
+import { describe, expect, it } from "vitest";
+import {
+	deserializeObjects,
+	getObjectEffects,
+	type SerializedObject,
+	upgradeSerializedObject,
+} from "@/lib/canvas-snapshot";
+import { HorizontalText } from "@/lib/horizontal-text";
+import { VerticalText } from "@/lib/vertical-text";
+
+/** A text as saved before the effect stack, with one stroke and shadow */
+function legacyText(props: Partial<IText> = {}): SerializedObject {
+	const text = new IText("剑网三", {
+		fill: "#ff0000",
+		stroke: "#ffffff",
+		strokeWidth: 14,
+		paintFirst: "stroke",
+		shadow: new Shadow({ color: "#000000", blur: 20 }),
+		...props,
+	});
+	const data = text.toObject(["editable", "objectCaching"]);
+	return JSON.parse(JSON.stringify({ ...data, meta: { vertical: false } }));
+}
+
+describe("upgradeSerializedObject", () => {
+	it("turns a legacy stroke and shadow into effects", () => {
+		const upgraded = upgradeSerializedObject(legacyText());
+		expect(upgraded.meta?.effects).toEqual([
+			expect.objectContaining({ kind: "stroke", color: "#ffffff", width: 7 }),
+			expect.objectContaining({ kind: "glow", color: "#000000", blur: 20 }),
+		]);
+		expect(upgraded).toMatchObject({
+			stroke: null,
+			strokeWidth: 0,
+			shadow: null,
+			paintFirst: "stroke",
+		});
+	});
+
+	it("gives a text without stroke or shadow an empty stack", () => {
+		const upgraded = upgradeSerializedObject(
+			legacyText({ stroke: null, shadow: null }),
+		);
+		expect(upgraded.meta?.effects).toEqual([]);
+	});
+
+	it("keeps the rest of the meta", () => {
+		const entry = legacyText();
+		entry.meta = { vertical: true, name: "标题", locked: true };
+		expect(upgradeSerializedObject(entry).meta).toMatchObject({
+			vertical: true,
+			name: "标题",
+			locked: true,
+		});
+	});
+
+	it("leaves texts that already have effects alone", () => {
+		const entry = legacyText();
+		entry.meta = { effects: [] };
+		const upgraded = upgradeSerializedObject(entry);
+		expect(upgraded.meta?.effects).toEqual([]);
+		expect(upgraded.stroke).toBe("#ffffff");
+	});
+
+	it("leaves objects that are not text alone", () => {
+		const rect = { type: "Rect", stroke: "#000000", strokeWidth: 4 };
+		expect(upgradeSerializedObject(rect)).toEqual(rect);
+	});
+
+	it("upgrades texts inside groups", () => {
+		const group = { type: "Group", objects: [legacyText()] };
+		const [child] = upgradeSerializedObject(group)
+			.objects as SerializedObject[];
+		expect(child.meta?.effects).toHaveLength(2);
+		expect(child.type).toBe(HorizontalText.type);
+	});
+
+	it("does not modify the saved data", () => {
+		const entry = legacyText();
+		const saved = JSON.stringify(entry);
+		upgradeSerializedObject(entry);
+		expect(JSON.stringify(entry)).toBe(saved);
+	});
+});
+
+describe("deserializeObjects", () => {
+	it("loads a legacy text as the editor's own class with effects", async () => {
+		const [text] = await deserializeObjects([legacyText()]);
+		expect(text).toBeInstanceOf(HorizontalText);
+		expect(text.stroke).toBeNull();
+		expect(text.shadow).toBeNull();
+		expect(getObjectEffects(text)?.map((effect) => effect.kind)).toEqual([
+			"stroke",
+			"glow",
+		]);
+	});
+
+	it("loads a legacy vertical text as VerticalText", async () => {
+		const entry = legacyText({ text: "剑\n网\n三" });
+		entry.meta = { vertical: true };
+		const [text] = await deserializeObjects([entry]);
+		expect(text).toBeInstanceOf(VerticalText);
+		expect((text as VerticalText).text).toBe("剑\n网\n三");
+	});
+});
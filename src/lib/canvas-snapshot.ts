@@ -0,0 +1,296 @@
+import type { Canvas, FabricObject } from "fabric";
+import { ActiveSelection, Group, IText, util } from "fabric";
+import type { Callout } from "@/lib/callout";
+import { HorizontalText } from "@/lib/horizontal-text";
+import { legacyTextEffects, type TextEffect } from "@/lib/text-effects";
+import type { TextPlate } from "@/lib/text-plates";
+import {
+	fromVerticalText,
+	toVerticalText,
+	VerticalText,
+} from "@/lib/vertical-text";
+
+export interface ObjectMeta {
+	vertical?: boolean;
+	presetKey?: string;
+	name?: string;
+	locked?: boolean;
+	effects?: TextEffect[];
+	plate?: TextPlate;
+	callout?: Callout;
+}
+
+export type SerializedObject = Record<string, unknown> & { meta?: ObjectMeta };
+
+export interface CanvasSnapshot {
+	objects: SerializedObject[];
+}
+
+// WeakMap avoids polluting fabric object serialisation
+const verticalMap = new WeakMap<FabricObject, boolean>();
+const presetKeyMap = new WeakMap<FabricObject, string>();
+const layerNameMap = new WeakMap<FabricObject, string>();
+const lockedMap = new WeakMap<FabricObject, boolean>();
+const effectsMap = new WeakMap<FabricObject, TextEffect[]>();
+const plateMap = new WeakMap<FabricObject, TextPlate>();
+const calloutMap = new WeakMap<FabricObject, Callout>();
+
+/** Props fabric leaves out of toObject() but the editor relies on. */
+const EXTRA_SERIALIZED_PROPS = ["editable", "objectCaching"];
+
+export function isObjectVertical(obj: FabricObject): boolean {
+	return verticalMap.get(obj) ?? false;
+}
+
+export function setObjectVertical(obj: FabricObject, vertical: boolean) {
+	verticalMap.set(obj, vertical);
+}
+
+export function getObjectPresetKey(obj: FabricObject): string | undefined {
+	return presetKeyMap.get(obj);
+}
+
+export function setObjectPresetKey(obj: FabricObject, presetKey?: string) {
+	if (presetKey) presetKeyMap.set(obj, presetKey);
+	else presetKeyMap.delete(obj);
+}
+
+export function getObjectName(obj: FabricObject): string | undefined {
+	return layerNameMap.get(obj);
+}
+
+export function setObjectName(obj: FabricObject, name?: string) {
+	const trimmed = name?.trim();
+	if (trimmed) layerNameMap.set(obj, trimmed);
+	else layerNameMap.delete(obj);
+}
+
+export function isObjectLocked(obj: FabricObject): boolean {
+	return lockedMap.get(obj) ?? false;
+}
+
+/** Locked layers stay visible but ignore pointer interaction on the canvas. */
+export function setObjectLocked(obj: FabricObject, locked: boolean) {
+	if (locked) lockedMap.set(obj, true);
+	else lockedMap.delete(obj);
+	obj.set({
+		selectable: !locked,
+		evented: !locked,
+	});
+}
+
+/** The object's effect stack; texts without one use their own stroke. */
+export function getObjectEffects(obj: FabricObject): TextEffect[] | undefined {
+	return effectsMap.get(obj);
+}
+
+export function setObjectEffects(obj: FabricObject, effects?: TextEffect[]) {
+	if (effects) effectsMap.set(obj, effects);
+	else effectsMap.delete(obj);
+}
+
+/** The plate drawn behind a text, if it has one. */
+export function getObjectPlate(obj: FabricObject): TextPlate | undefined {
+	return plateMap.get(obj);
+}
+
+export function setObjectPlate(obj: FabricObject, plate?: TextPlate) {
+	if (plate) plateMap.set(obj, plate);
+	else plateMap.delete(obj);
+}
+
+/** The leader line from a label to the point it tags, if it has one. */
+export function getObjectCallout(obj: FabricObject): Callout | undefined {
+	return calloutMap.get(obj);
+}
+
+export function setObjectCallout(obj: FabricObject, callout?: Callout) {
+	if (callout) calloutMap.set(obj, callout);
+	else calloutMap.delete(obj);
+}
+
+export function readObjectMeta(obj: FabricObject): ObjectMeta {
+	const meta: ObjectMeta = {};
+	if (verticalMap.has(obj)) meta.vertical = verticalMap.get(obj);
+	const presetKey = presetKeyMap.get(obj);
+	if (presetKey) meta.presetKey = presetKey;
+	const name = layerNameMap.get(obj);
+	if (name) meta.name = name;
+	if (lockedMap.get(obj)) meta.locked = true;
+	const effects = effectsMap.get(obj);
+	if (effects) meta.effects = effects.map((effect) => ({ ...effect }));
+	const plate = plateMap.get(obj);
+	if (plate) meta.plate = { ...plate };
+	const callout = calloutMap.get(obj);
+	if (callout) meta.callout = { ...callout };
+	return meta;
+}
+
+export function applyObjectMeta(obj: FabricObject, meta: ObjectMeta = {}) {
+	if (meta.vertical !== undefined) verticalMap.set(obj, meta.vertical);
+	setObjectPresetKey(obj, meta.presetKey);
+	setObjectName(obj, meta.name);
+	if (meta.locked !== undefined) setObjectLocked(obj, meta.locked);
+	setObjectEffects(obj, meta.effects);
+	setObjectPlate(obj, meta.plate);
+	setObjectCallout(obj, meta.callout);
+}
+
+const GROUP_TRANSFORM_PROPS = [
+	"angle",
+	"flipX",
+	"flipY",
+	"left",
+	"scaleX",
+	"scaleY",
+	"skewX",
+	"skewY",
+	"top",
+] as const;
+
+/**
+ * Serialises an object as it would look on its own; members of an
+ * ActiveSelection otherwise report coordinates relative to the selection.
+ */
+export function serializeObject(obj: FabricObject): SerializedObject {
+	const { group } = obj;
+	const inSelection = !!group && group instanceof ActiveSelection;
+	const original = inSelection
+		? Object.fromEntries(GROUP_TRANSFORM_PROPS.map((key) => [key, obj[key]]))
+		: null;
+	if (inSelection) util.addTransformToObject(obj, group.calcOwnMatrix());
+
+	const data = obj.toObject(EXTRA_SERIALIZED_PROPS) as Record<string, unknown>;
+
+	if (original) obj.set(original);
+	lockEditingText(obj, data);
+	attachChildMeta(obj, data);
+	return { ...data, meta: readObjectMeta(obj) };
+}
+
+function isPlainGroup(obj: FabricObject): obj is Group {
+	return obj instanceof Group && !(obj instanceof ActiveSelection);
+}
+
+/** Texts are only editable on the canvas while characters are selected. */
+function lockEditingText(obj: FabricObject, data: Record<string, unknown>) {
+	if (obj instanceof IText && obj.isEditing) data.editable = false;
+}
+
+/** Group members carry their own side state, stored next to their props. */
+function attachChildMeta(obj: FabricObject, data: Record<string, unknown>) {
+	if (!isPlainGroup(obj) || !Array.isArray(data.objects)) return;
+	const children = data.objects as Record<string, unknown>[];
+	obj.getObjects().forEach((child, index) => {
+		const childData = children[index];
+		if (!childData) return;
+		lockEditingText(child, childData);
+		attachChildMeta(child, childData);
+		childData.meta = readObjectMeta(child);
+	});
+}
+
+function isLegacyText(data: Record<string, unknown>): boolean {
+	return data.type === "IText" || data.type === "i-text";
+}
+
+/**
+ * Texts used to be fabric's own IText; vertical ones had one character per
+ * line.
+ */
+function upgradeLegacyText(data: Record<string, unknown>, vertical = false) {
+	if (!isLegacyText(data)) return;
+	if (!vertical) {
+		data.type = HorizontalText.type;
+		return;
+	}
+	data.type = VerticalText.type;
+	if (typeof data.text === "string") {
+		data.text = toVerticalText(fromVerticalText(data.text));
+	}
+}
+
+/**
+ * Texts used to carry one stroke and centred shadow; they load as the effect
+ * stack that draws the same, with fabric's own stroke and shadow cleared.
+ */
+function upgradeLegacyStroke(data: SerializedObject) {
+	if (typeof data.text !== "string" || data.meta?.effects) return;
+	const shadow = data.shadow as { color?: unknown; blur?: unknown } | null;
+	const effects = legacyTextEffects({
+		stroke: typeof data.stroke === "string" ? data.stroke : null,
+		strokeWidth: typeof data.strokeWidth === "number" ? data.strokeWidth : 0,
+		shadowColor: typeof shadow?.color === "string" ? shadow.color : null,
+		shadowBlur: typeof shadow?.blur === "number" ? shadow.blur : 0,
+	});
+	data.meta = { ...data.meta, effects };
+	data.stroke = null;
+	data.strokeWidth = 0;
+	data.shadow = null;
+	data.paintFirst = "stroke";
+}
+
+/** Brings an entry saved by an older version up to the current format. */
+export function upgradeSerializedObject(
+	entry: SerializedObject,
+): SerializedObject {
+	const data: SerializedObject = { ...entry };
+	upgradeLegacyText(data, entry.meta?.vertical);
+	upgradeLegacyStroke(data);
+	if (Array.isArray(data.objects)) {
+		data.objects = (data.objects as SerializedObject[]).map(
+			upgradeSerializedObject,
+		);
+	}
+	return data;
+}
+
+function stripMeta(entry: SerializedObject): Record<string, unknown> {
+	const data: Record<string, unknown> = { ...entry };
+	delete data.meta;
+	if (Array.isArray(data.objects)) {
+		data.objects = (data.objects as SerializedObject[]).map(stripMeta);
+	}
+	return data;
+}
+
+function applyMetaTree(obj: FabricObject, entry?: SerializedObject) {
+	applyObjectMeta(obj, entry?.meta);
+	if (!isPlainGroup(obj) || !Array.isArray(entry?.objects)) return;
+	const children = entry.objects as SerializedObject[];
+	obj.getObjects().forEach((child, index) => {
+		applyMetaTree(child, children[index]);
+	});
+}
+
+export function serializeCanvas(canvas: Canvas): CanvasSnapshot {
+	return {
+		objects: canvas
+			.getObjects()
+			.filter((obj) => !obj.excludeFromExport)
+			.map((obj) => serializeObject(obj)),
+	};
+}
+
+export async function deserializeObjects(
+	serialized: SerializedObject[],
+): Promise<FabricObject[]> {
+	const upgraded = serialized.map(upgradeSerializedObject);
+	const objects = await util.enlivenObjects<FabricObject>(
+		upgraded.map(stripMeta),
+	);
+	objects.forEach((obj, index) => {
+		applyMetaTree(obj, upgraded[index]);
+	});
+	return objects;
+}
+
+/** Replaces every object on the canvas; the background image is left alone. */
+export async function restoreCanvas(canvas: Canvas, snapshot: CanvasSnapshot) {
+	const objects = await deserializeObjects(snapshot.objects);
+	canvas.discardActiveObject();
+	canvas.remove(...canvas.getObjects());
+	if (objects.length) canvas.add(...objects);
+	for (const obj of objects) obj.setCoords();
+	canvas.requestRenderAll();
+}
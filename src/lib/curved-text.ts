@@ -0,0 +1,313 @@
+import type {
+	ControlRenderingStyleOverride,
+	ITextProps,
+	TOptions,
+	TransformActionHandler,
+} from "fabric";
+import {
+	classRegistry,
+	Control,
+	controlsUtils,
+	IText,
+	Path,
+	Point,
+	util,
+} from "fabric";
+import { renderObjectCallout, withCalloutAnchor } from "@/lib/callout";
+import { renderTextEffects } from "@/lib/text-effects";
+import { includeTextPlate, renderTextPlate } from "@/lib/text-plates";
+
+export type TextCurveKind = "arc" | "circle" | "wave" | "bezier";
+
+/** Arcs and circles read along their top (bulging up) or their bottom */
+export type TextCurveDirection = "up" | "down";
+
+export interface CurveLayoutProps {
+	curveKind: TextCurveKind;
+	/** Radius of arcs and circles, before scaling */
+	curveRadius: number;
+	curveDirection: TextCurveDirection;
+	/** Height of the wave crests; negative values start with a trough */
+	waveAmplitude: number;
+	/** Distance between two crests */
+	waveLength: number;
+	/**
+	 * Start, two control points and end of the Bézier curve as
+	 * `[x0, y0, x1, y1, x2, y2, x3, y3]`; empty until first laid out.
+	 */
+	curvePoints: number[];
+}
+
+export const CURVE_LAYOUT_DEFAULTS: CurveLayoutProps = {
+	curveKind: "arc",
+	curveRadius: 300,
+	curveDirection: "up",
+	waveAmplitude: 30,
+	waveLength: 320,
+	curvePoints: [],
+};
+
+const CURVE_LAYOUT_PROPS = Object.keys(CURVE_LAYOUT_DEFAULTS);
+
+export const MIN_CURVE_RADIUS = 20;
+const MIN_WAVE_LENGTH = 20;
+/** Arcs are drawn in pieces of at most a quarter turn */
+const MAX_ARC_PIECE = Math.PI / 2;
+const WAVE_SAMPLES_PER_LENGTH = 24;
+const MAX_WAVE_SAMPLES = 480;
+
+const CURVE_POINT_CONTROLS = ["cp0", "cp1", "cp2", "cp3"];
+
+function formatPoint(x: number, y: number): string {
+	return `${x.toFixed(2)} ${y.toFixed(2)}`;
+}
+
+/** Formats `[x0, y0, x1, y1, …]` as one string per point. */
+function formatPoints(values: number[]): string[] {
+	const points: string[] = [];
+	for (let i = 0; i + 1 < values.length; i += 2) {
+		points.push(formatPoint(values[i] ?? 0, values[i + 1] ?? 0));
+	}
+	return points;
+}
+
+/** Arc around the origin from angle `start` through `span` radians. */
+function arcPathData(radius: number, start: number, span: number): string {
+	const pieces = Math.max(1, Math.ceil(Math.abs(span) / MAX_ARC_PIECE));
+	const sweep = span > 0 ? 1 : 0;
+	const at = (angle: number) =>
+		formatPoint(radius * Math.cos(angle), radius * Math.sin(angle));
+	let data = `M ${at(start)}`;
+	for (let i = 1; i <= pieces; i++) {
+		const angle = start + (span * i) / pieces;
+		data += ` A ${radius} ${radius} 0 0 ${sweep} ${at(angle)}`;
+	}
+	return data;
+}
+
+function wavePathData(length: number, amplitude: number, wave: number) {
+	const samples = Math.min(
+		MAX_WAVE_SAMPLES,
+		Math.max(2, Math.ceil((length / wave) * WAVE_SAMPLES_PER_LENGTH)),
+	);
+	const points: string[] = [];
+	for (let i = 0; i <= samples; i++) {
+		const x = -length / 2 + (length * i) / samples;
+		const y = -amplitude * Math.sin((2 * Math.PI * x) / wave);
+		points.push(formatPoint(x, y));
+	}
+	return `M ${points.join(" L ")}`;
+}
+
+export function readCurveLayout(text: CurveLayoutProps): CurveLayoutProps {
+	return {
+		curveKind: text.curveKind,
+		curveRadius: text.curveRadius,
+		curveDirection: text.curveDirection,
+		waveAmplitude: text.waveAmplitude,
+		waveLength: text.waveLength,
+		curvePoints: [...text.curvePoints],
+	};
+}
+
+/** A gentle curve over `length`, the starting point for Bézier text. */
+export function getDefaultCurvePoints(length: number): number[] {
+	const half = length / 2;
+	const lift = length / 4;
+	return [-half, 0, -half / 3, -lift, half / 3, -lift, half, 0];
+}
+
+function getCurvePointPosition(text: CurvedText, index: number): Point {
+	const { curvePoints } = text;
+	return new Point(
+		curvePoints[index * 2] ?? 0,
+		curvePoints[index * 2 + 1] ?? 0,
+	).subtract(text.path?.pathOffset ?? new Point());
+}
+
+function createCurvePointControl(index: number): Control {
+	const actionHandler: TransformActionHandler = (_, transform, x, y) => {
+		const text = transform.target as CurvedText;
+		// Keep the point at the other end of the curve where it is on screen
+		const anchorIndex = index === 0 ? 3 : 0;
+		const before = getCurvePointPosition(text, anchorIndex).transform(
+			text.calcOwnMatrix(),
+		);
+		const local = util
+			.sendPointToPlane(new Point(x, y), undefined, text.calcTransformMatrix())
+			.add(text.path?.pathOffset ?? new Point());
+		const curvePoints = [...text.curvePoints];
+		curvePoints[index * 2] = local.x;
+		curvePoints[index * 2 + 1] = local.y;
+		text.set({ curvePoints });
+		const after = getCurvePointPosition(text, anchorIndex).transform(
+			text.calcOwnMatrix(),
+		);
+		text.set({
+			left: text.left + before.x - after.x,
+			top: text.top + before.y - after.y,
+		});
+		return true;
+	};
+
+	return new Control({
+		actionName: "modifyCurve",
+		cursorStyle: "crosshair",
+		positionHandler: (_, __, fabricObject) =>
+			getCurvePointPosition(fabricObject as CurvedText, index).transform(
+				util.multiplyTransformMatrices(
+					fabricObject.getViewportTransform(),
+					fabricObject.calcTransformMatrix(),
+				),
+			),
+		actionHandler,
+		render: controlsUtils.renderCircleControl,
+	});
+}
+
+/**
+ * Single-line text set along an arc, a full circle, a wave or a Bézier
+ * curve. The curve is rebuilt from the settings above whenever the text is
+ * measured, so arcs always span exactly the text.
+ */
+export class CurvedText extends IText implements CurveLayoutProps {
+	static type = "CurvedText";
+	static customProperties = CURVE_LAYOUT_PROPS;
+	static textLayoutProperties = [
+		...IText.textLayoutProperties,
+		...CURVE_LAYOUT_PROPS,
+	];
+
+	declare curveKind: TextCurveKind;
+	declare curveRadius: number;
+	declare curveDirection: TextCurveDirection;
+	declare waveAmplitude: number;
+	declare waveLength: number;
+	declare curvePoints: number[];
+
+	constructor(
+		text: string,
+		options?: TOptions<ITextProps> & Partial<CurveLayoutProps>,
+	) {
+		// Centred text sits in the middle of arcs and on top of circles
+		super(text, { ...CURVE_LAYOUT_DEFAULTS, textAlign: "center", ...options });
+	}
+
+	static getDefaults(): Record<string, unknown> {
+		return { ...super.getDefaults(), ...CURVE_LAYOUT_DEFAULTS };
+	}
+
+	static createControls() {
+		return withCalloutAnchor({
+			...controlsUtils.createObjectDefaultControls(),
+			...Object.fromEntries(
+				CURVE_POINT_CONTROLS.map((key, index) => [
+					key,
+					createCurvePointControl(index),
+				]),
+			),
+		});
+	}
+
+	/** Path data for a line of text `length` long. */
+	buildCurvePathData(length: number): string {
+		const radius = Math.max(MIN_CURVE_RADIUS, this.curveRadius);
+		const up = this.curveDirection === "up";
+		switch (this.curveKind) {
+			case "arc": {
+				const span = Math.min(2 * Math.PI, length / radius);
+				const middle = up ? -Math.PI / 2 : Math.PI / 2;
+				return up
+					? arcPathData(radius, middle - span / 2, span)
+					: arcPathData(radius, middle + span / 2, -span);
+			}
+			case "circle":
+				// Start opposite the middle so centred text sits on top / bottom
+				return up
+					? arcPathData(radius, Math.PI / 2, 2 * Math.PI)
+					: arcPathData(radius, -Math.PI / 2, -2 * Math.PI);
+			case "wave":
+				return wavePathData(
+					length,
+					this.waveAmplitude,
+					Math.max(MIN_WAVE_LENGTH, this.waveLength),
+				);
+			case "bezier": {
+				if (this.curvePoints.length !== 8) {
+					this.curvePoints = getDefaultCurvePoints(length * 1.2);
+				}
+				const [start, ...controls] = formatPoints(this.curvePoints);
+				return `M ${start} C ${controls.join(" ")}`;
+			}
+		}
+	}
+
+	initDimensions() {
+		if (!this.initialized) return;
+		// Measure the text straight first; arcs and waves are sized to it
+		this.path = undefined;
+		super.initDimensions();
+		this.path = new Path(this.buildCurvePathData(this.width));
+		this.setPathInfo();
+		super.initDimensions();
+		// The box fits the curve; grow it so glyphs on either side stay inside
+		const pad = this.getHeightOfLine(0);
+		this.width += pad * 2;
+		this.height += pad * 2;
+	}
+
+	render(ctx: CanvasRenderingContext2D) {
+		renderObjectCallout(this, ctx);
+		super.render(ctx);
+	}
+
+	_getTransformedDimensions(options: Record<string, number> = {}) {
+		return super._getTransformedDimensions(
+			includeTextPlate(this, options),
+		);
+	}
+
+	_renderBackground(ctx: CanvasRenderingContext2D) {
+		renderTextPlate(this, ctx);
+		super._renderBackground(ctx);
+	}
+
+	_renderText(ctx: CanvasRenderingContext2D) {
+		renderTextEffects(this, ctx, (target) => super._renderText(target));
+	}
+
+	isControlVisible(controlKey: string): boolean {
+		if (CURVE_POINT_CONTROLS.includes(controlKey)) {
+			return this.curveKind === "bezier" && super.isControlVisible(controlKey);
+		}
+		return super.isControlVisible(controlKey);
+	}
+
+	/** Adds the Bézier handle lines under the control points. */
+	drawControls(
+		ctx: CanvasRenderingContext2D,
+		styleOverride?: ControlRenderingStyleOverride,
+	) {
+		const [p0, p1, p2, p3] = CURVE_POINT_CONTROLS.map(
+			(key) => this.oCoords[key],
+		);
+		if (this.curveKind === "bezier" && p0 && p1 && p2 && p3) {
+			const retina = this.getCanvasRetinaScaling();
+			ctx.save();
+			ctx.setTransform(retina, 0, 0, retina, 0, 0);
+			ctx.strokeStyle = this.borderColor;
+			ctx.lineWidth = 1;
+			ctx.setLineDash([4, 4]);
+			ctx.beginPath();
+			ctx.moveTo(p0.x, p0.y);
+			ctx.lineTo(p1.x, p1.y);
+			ctx.moveTo(p3.x, p3.y);
+			ctx.lineTo(p2.x, p2.y);
+			ctx.stroke();
+			ctx.restore();
+		}
+		super.drawControls(ctx, styleOverride);
+	}
+}
+
+classRegistry.setClass(CurvedText);
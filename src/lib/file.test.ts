@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@/lib/file";
+
+const bytesOf = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer));
+
+describe("arrayBufferToBase64 / base64ToArrayBuffer", () => {
+	it("encodes like btoa", () => {
+		const buffer = new TextEncoder().encode("jx3").buffer as ArrayBuffer;
+		expect(arrayBufferToBase64(buffer)).toBe(btoa("jx3"));
+	});
+
+	it("round-trips every byte value", () => {
+		const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+		const decoded = base64ToArrayBuffer(arrayBufferToBase64(bytes.buffer));
+		expect(bytesOf(decoded)).toEqual(Array.from(bytes));
+	});
+
+	it("round-trips buffers longer than one encoding chunk", () => {
+		const bytes = Uint8Array.from({ length: 0x8000 * 2 + 7 }, (_, i) =>
+			(i * 31) % 256,
+		);
+		const decoded = base64ToArrayBuffer(arrayBufferToBase64(bytes.buffer));
+		expect(bytesOf(decoded)).toEqual(Array.from(bytes));
+	});
+
+	it("handles an empty buffer", () => {
+		expect(arrayBufferToBase64(new ArrayBuffer(0))).toBe("");
+		expect(base64ToArrayBuffer("").byteLength).toBe(0);
+	});
+});
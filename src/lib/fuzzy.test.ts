@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyBestScore, fuzzyScore } from "@/lib/fuzzy";
+
+describe("fuzzyScore", () => {
+	it("matches everything with an empty query", () => {
+		expect(fuzzyScore("", "撤销")).toBe(0);
+		expect(fuzzyScore("  ", "撤销")).toBe(0);
+	});
+
+	it("returns null when the query is not a subsequence", () => {
+		expect(fuzzyScore("xz", "align left")).toBeNull();
+		expect(fuzzyScore("tfel", "align left")).toBeNull();
+	});
+
+	it("ignores case", () => {
+		expect(fuzzyScore("LEFT", "align left")).not.toBeNull();
+	});
+
+	it("ranks an exact substring above any scattered match", () => {
+		const substring = fuzzyScore("left", "align left");
+		const scattered = fuzzyScore("alt", "align left");
+		expect(substring).toBeGreaterThan(scattered ?? Infinity);
+	});
+
+	it("ranks an earlier substring higher", () => {
+		expect(fuzzyScore("dui", "duiqi zuo")).toBeGreaterThan(
+			fuzzyScore("dui", "zuo duiqi") ?? Infinity,
+		);
+	});
+
+	it("favours matches at word starts", () => {
+		expect(fuzzyScore("al", "align-left")).toBeGreaterThan(
+			fuzzyScore("al", "canal") ?? Infinity,
+		);
+		expect(fuzzyScore("gl", "group-layers")).toBeGreaterThan(
+			fuzzyScore("gl", "groupless") ?? Infinity,
+		);
+	});
+
+	it("skips spaces in the query", () => {
+		expect(fuzzyScore("a l", "align left")).not.toBeNull();
+	});
+});
+
+describe("fuzzyBestScore", () => {
+	it("takes the best field", () => {
+		expect(fuzzyBestScore("chex", ["撤销", "chexiao"])).toBe(
+			fuzzyScore("chex", "chexiao"),
+		);
+	});
+
+	it("returns null when no field matches", () => {
+		expect(fuzzyBestScore("zz", ["撤销", "chexiao"])).toBeNull();
+	});
+});
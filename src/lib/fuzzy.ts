@@ -0,0 +1,40 @@
+/**
+ * Subsequence fuzzy match. Returns null when `query` does not match,
+ * otherwise a score where higher is better: consecutive runs and matches
+ * at word starts weigh more, and an exact substring wins outright.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+	const q = query.trim().toLowerCase();
+	if (!q) return 0;
+	const t = text.toLowerCase();
+
+	const substringIndex = t.indexOf(q);
+	if (substringIndex !== -1) return 1000 - substringIndex;
+
+	let score = 0;
+	let run = 0;
+	let searchFrom = 0;
+	for (const char of q) {
+		if (char === " ") continue;
+		const index = t.indexOf(char, searchFrom);
+		if (index === -1) return null;
+
+		run = index === searchFrom ? run + 1 : 1;
+		score += run * 2;
+		const prev = t[index - 1];
+		if (index === 0 || prev === " " || prev === "-" || prev === "：") {
+			score += 3;
+		}
+		searchFrom = index + 1;
+	}
+	return score - (t.length - q.length) * 0.01;
+}
+
+export function fuzzyBestScore(query: string, fields: string[]): number | null {
+	let best: number | null = null;
+	for (const field of fields) {
+		const score = fuzzyScore(query, field);
+		if (score !== null && (best === null || score > best)) best = score;
+	}
+	return best;
+}
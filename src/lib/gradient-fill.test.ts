@@ -0,0 +1,83 @@
+import { Gradient } from "fabric";
+import { describe, expect, it } from "vitest";
+import {
+	createTwoColorGradient,
+	type GradientFill,
+	getFillSwatchColor,
+	readTextFill,
+	toCssGradient,
+	toFabricFill,
+	toFabricGradient,
+} from "@/lib/gradient-fill";
+
+const roundTrip = (fill: GradientFill) =>
+	readTextFill(toFabricGradient(fill));
+
+const unsorted: GradientFill = {
+	type: "linear",
+	angle: 90,
+	colorStops: [
+		{ offset: 1, color: "#0000ff" },
+		{ offset: 0, color: "#ff0000" },
+		{ offset: 0.5, color: "#00ff00" },
+	],
+};
+
+describe("gradient round-trip", () => {
+	it.each([0, 45, 90, 135, 180, 270, 315])(
+		"keeps a linear gradient at %i degrees",
+		(angle) => {
+			const fill = createTwoColorGradient("#f00", "#00f", "linear", angle);
+			expect(roundTrip(fill)).toEqual(fill);
+		},
+	);
+
+	it("keeps a radial gradient", () => {
+		const fill = createTwoColorGradient("#ffffff", "#000000", "radial");
+		expect(roundTrip(fill)).toEqual(fill);
+	});
+
+	it("keeps the stops in their original order", () => {
+		expect(roundTrip(unsorted)).toEqual(unsorted);
+	});
+
+	it("does not share stops with the fabric gradient", () => {
+		const fill = createTwoColorGradient("#ff0000", "#0000ff");
+		const gradient = toFabricGradient(fill);
+		gradient.colorStops[0].color = "#ffffff";
+		expect(fill.colorStops[0].color).toBe("#ff0000");
+	});
+});
+
+describe("readTextFill", () => {
+	it("passes colours through", () => {
+		expect(readTextFill("#123456")).toBe("#123456");
+	});
+
+	it("falls back for empty fills", () => {
+		expect(readTextFill(null)).toBe("#000000");
+		expect(readTextFill(undefined, "#ffffff")).toBe("#ffffff");
+	});
+
+	it("reads the fills toFabricFill builds", () => {
+		expect(readTextFill(toFabricFill("#abcdef"))).toBe("#abcdef");
+		const gradient = toFabricFill(unsorted);
+		expect(gradient).toBeInstanceOf(Gradient);
+		expect(readTextFill(gradient)).toEqual(unsorted);
+	});
+});
+
+describe("stop ordering", () => {
+	it("sorts stops for CSS", () => {
+		expect(toCssGradient(unsorted)).toBe(
+			"linear-gradient(90deg, #ff0000 0%, #00ff00 50%, #0000ff 100%)",
+		);
+	});
+
+	it("uses the first stop by offset as the swatch", () => {
+		expect(getFillSwatchColor(unsorted)).toBe("#ff0000");
+		expect(getFillSwatchColor({ ...unsorted, colorStops: [] })).toBe(
+			"#000000",
+		);
+	});
+});
@@ -0,0 +1,163 @@
+import type { TFiller } from "fabric";
+import { Gradient, Pattern } from "fabric";
+import {
+	getPatternImageUrl,
+	isPatternFill,
+	isPatternFillLoaded,
+	type PatternFill,
+	preloadPatternFill,
+	readPatternFill,
+	toFabricPattern,
+} from "@/lib/pattern-fill";
+
+export type GradientKind = "linear" | "radial";
+
+export interface GradientColorStop {
+	/** Position along the gradient, 0–1 */
+	offset: number;
+	color: string;
+}
+
+/**
+ * A gradient fill in plain data, so it can live in snapshots and the ID
+ * history. Coordinates are relative to the text box.
+ */
+export interface GradientFill {
+	type: GradientKind;
+	/** Direction of a linear gradient in CSS degrees, 90 = left to right */
+	angle: number;
+	colorStops: GradientColorStop[];
+}
+
+/** A text fill as stored outside fabric: a CSS colour, gradient or pattern */
+export type TextFill = string | GradientFill | PatternFill;
+
+export const DEFAULT_GRADIENT_ANGLE = 90;
+
+export function isGradientFill(fill: unknown): fill is GradientFill {
+	return (
+		typeof fill === "object" &&
+		fill !== null &&
+		Array.isArray((fill as GradientFill).colorStops)
+	);
+}
+
+function sortColorStops(stops: GradientColorStop[]) {
+	return [...stops].sort((a, b) => a.offset - b.offset);
+}
+
+/** Two-colour gradient, e.g. from two school colours. */
+export function createTwoColorGradient(
+	from: string,
+	to: string,
+	type: GradientKind = "linear",
+	angle = DEFAULT_GRADIENT_ANGLE,
+): GradientFill {
+	return {
+		type,
+		angle,
+		colorStops: [
+			{ offset: 0, color: from },
+			{ offset: 1, color: to },
+		],
+	};
+}
+
+type FabricGradient = Gradient<"linear"> | Gradient<"radial">;
+
+/** Stops keep their order; canvas gradients don't need them sorted. */
+export function toFabricGradient(fill: GradientFill): FabricGradient {
+	const colorStops = fill.colorStops.map((stop) => ({ ...stop }));
+	if (fill.type === "radial") {
+		return new Gradient<"radial">({
+			type: "radial",
+			gradientUnits: "percentage",
+			coords: { x1: 0.5, y1: 0.5, r1: 0, x2: 0.5, y2: 0.5, r2: 0.5 },
+			colorStops,
+		});
+	}
+	const radians = (fill.angle * Math.PI) / 180;
+	const dx = Math.sin(radians) / 2;
+	const dy = -Math.cos(radians) / 2;
+	return new Gradient<"linear">({
+		type: "linear",
+		gradientUnits: "percentage",
+		coords: { x1: 0.5 - dx, y1: 0.5 - dy, x2: 0.5 + dx, y2: 0.5 + dy },
+		colorStops,
+	});
+}
+
+/** Loads what `toFabricFill` needs, i.e. the image of a pattern. */
+export async function preloadTextFill(fill: TextFill): Promise<void> {
+	if (isPatternFill(fill)) await preloadPatternFill(fill);
+}
+
+export function isTextFillLoaded(fill: TextFill): boolean {
+	return !isPatternFill(fill) || isPatternFillLoaded(fill);
+}
+
+export function toFabricFill(
+	fill: TextFill,
+): string | FabricGradient | Pattern {
+	if (isPatternFill(fill)) return toFabricPattern(fill);
+	return isGradientFill(fill) ? toFabricGradient(fill) : fill;
+}
+
+/** Reads a fabric fill back; anything unknown becomes `fallback`. */
+export function readTextFill(
+	fill: string | TFiller | null | undefined,
+	fallback = "#000000",
+): TextFill {
+	if (typeof fill === "string") return fill;
+	if (fill instanceof Gradient) return readGradientFill(fill);
+	return fill instanceof Pattern ? readPatternFill(fill) : fallback;
+}
+
+function readGradientFill(
+	fill: Gradient<"linear"> | Gradient<"radial">,
+): GradientFill {
+	const colorStops = fill.colorStops.map(({ offset, color }) => ({
+		offset,
+		color,
+	}));
+	if (fill.type === "radial") {
+		return { type: "radial", angle: DEFAULT_GRADIENT_ANGLE, colorStops };
+	}
+	const { x1, y1, x2, y2 } = fill.coords;
+	const angle = (Math.atan2(x2 - x1, y1 - y2) * 180) / Math.PI;
+	return {
+		type: "linear",
+		angle: Math.round((angle + 360) % 360),
+		colorStops,
+	};
+}
+
+/** Same gradient as a CSS image, for swatches and previews. */
+export function toCssGradient(fill: GradientFill): string {
+	const stops = sortColorStops(fill.colorStops)
+		.map(({ offset, color }) => `${color} ${Math.round(offset * 100)}%`)
+		.join(", ");
+	return fill.type === "radial"
+		? `radial-gradient(closest-side, ${stops})`
+		: `linear-gradient(${fill.angle}deg, ${stops})`;
+}
+
+/** A single colour standing in for the fill, e.g. for layer names. */
+export function getFillSwatchColor(fill: TextFill): string {
+	if (isPatternFill(fill)) return "#000000";
+	if (!isGradientFill(fill)) return fill;
+	return sortColorStops(fill.colorStops)[0]?.color ?? "#000000";
+}
+
+/** CSS that paints text with the fill, for previews of saved IDs. */
+export function getTextFillStyle(fill: TextFill): Record<string, string> {
+	if (typeof fill === "string") return { color: fill };
+	return {
+		backgroundImage: isPatternFill(fill)
+			? `url("${getPatternImageUrl(fill.source)}")`
+			: toCssGradient(fill),
+		backgroundClip: "text",
+		WebkitBackgroundClip: "text",
+		color: "transparent",
+	};
+}
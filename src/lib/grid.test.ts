@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { getGridLines, MAX_GRID_DIVISIONS, MIN_GRID_PITCH } from "@/lib/grid";
+import type { GridSettings } from "@/store/guides-store";
+
+function grid(patch: Partial<GridSettings>): GridSettings {
+	return { mode: "off", columns: 4, rows: 4, pitch: 50, ...patch };
+}
+
+describe("getGridLines", () => {
+	it("has no lines when off", () => {
+		expect(getGridLines(grid({ mode: "off" }), 300, 200)).toEqual({
+			x: [],
+			y: [],
+		});
+	});
+
+	it("splits into thirds", () => {
+		expect(getGridLines(grid({ mode: "thirds" }), 300, 90)).toEqual({
+			x: [100, 200],
+			y: [30, 60],
+		});
+	});
+
+	it("splits into columns and rows", () => {
+		expect(
+			getGridLines(grid({ mode: "divisions", columns: 4, rows: 2 }), 400, 100),
+		).toEqual({ x: [100, 200, 300], y: [50] });
+	});
+
+	it("rounds and clamps the division count", () => {
+		const lines = (columns: number) =>
+			getGridLines(grid({ mode: "divisions", columns }), 100, 100).x;
+		expect(lines(2.4)).toEqual([50]);
+		expect(lines(0)).toEqual([]);
+		expect(lines(-3)).toEqual([]);
+		expect(lines(1000)).toHaveLength(MAX_GRID_DIVISIONS - 1);
+	});
+
+	it("repeats at a pitch, leaving out the far edge", () => {
+		expect(getGridLines(grid({ mode: "pitch", pitch: 50 }), 150, 120)).toEqual(
+			{ x: [50, 100], y: [50, 100] },
+		);
+	});
+
+	it("never repeats closer than the minimum pitch", () => {
+		const size = MIN_GRID_PITCH * 5;
+		const { x } = getGridLines(grid({ mode: "pitch", pitch: 1 }), size, size);
+		expect(x).toEqual([1, 2, 3, 4].map((n) => n * MIN_GRID_PITCH));
+	});
+});
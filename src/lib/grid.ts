@@ -0,0 +1,44 @@
+import type { GridSettings } from "@/store/guides-store";
+
+/** Smallest grid pitch, keeps the overlay and snapping cheap on huge images */
+export const MIN_GRID_PITCH = 4;
+export const MAX_GRID_DIVISIONS = 64;
+
+export interface GridLines {
+	x: number[];
+	y: number[];
+}
+
+function divide(size: number, count: number): number[] {
+	const n = Math.min(Math.max(Math.round(count), 1), MAX_GRID_DIVISIONS);
+	const lines: number[] = [];
+	for (let i = 1; i < n; i += 1) lines.push((size * i) / n);
+	return lines;
+}
+
+function repeat(size: number, pitch: number): number[] {
+	const step = Math.max(pitch, MIN_GRID_PITCH);
+	const lines: number[] = [];
+	for (let position = step; position < size; position += step) {
+		lines.push(position);
+	}
+	return lines;
+}
+
+/** Interior grid lines in image pixels; the canvas edges are not included. */
+export function getGridLines(
+	grid: GridSettings,
+	width: number,
+	height: number,
+): GridLines {
+	switch (grid.mode) {
+		case "thirds":
+			return { x: divide(width, 3), y: divide(height, 3) };
+		case "divisions":
+			return { x: divide(width, grid.columns), y: divide(height, grid.rows) };
+		case "pitch":
+			return { x: repeat(width, grid.pitch), y: repeat(height, grid.pitch) };
+		default:
+			return { x: [], y: [] };
+	}
+}
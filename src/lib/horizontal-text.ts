@@ -0,0 +1,39 @@
+import type { ITextProps, TOptions } from "fabric";
+import { classRegistry, IText } from "fabric";
+import { renderObjectCallout, withCalloutAnchor } from "@/lib/callout";
+import { renderTextEffects } from "@/lib/text-effects";
+import { includeTextPlate, renderTextPlate } from "@/lib/text-plates";
+
+/**
+ * Plain horizontal text. Fabric's IText with the editor's own rendering on
+ * top; every text the editor makes is this or one of the other layouts.
+ */
+export class HorizontalText extends IText<TOptions<ITextProps>> {
+	static type = "HorizontalText";
+
+	static createControls() {
+		return withCalloutAnchor(super.createControls().controls);
+	}
+
+	render(ctx: CanvasRenderingContext2D) {
+		renderObjectCallout(this, ctx);
+		super.render(ctx);
+	}
+
+	_getTransformedDimensions(options: Record<string, number> = {}) {
+		return super._getTransformedDimensions(
+			includeTextPlate(this, options),
+		);
+	}
+
+	_renderBackground(ctx: CanvasRenderingContext2D) {
+		renderTextPlate(this, ctx);
+		super._renderBackground(ctx);
+	}
+
+	_renderText(ctx: CanvasRenderingContext2D) {
+		renderTextEffects(this, ctx, (target) => super._renderText(target));
+	}
+}
+
+classRegistry.setClass(HorizontalText);
@@ -0,0 +1,302 @@
+import type { FabricObject, GroupProps } from "fabric";
+import { classRegistry, FabricImage, Group, type IText } from "fabric";
+import { JX3_SCHOOL_PRESETS } from "@/constants/colors";
+import { renderObjectCallout, withCalloutAnchor } from "@/lib/callout";
+import { setObjectEffects, setObjectVertical } from "@/lib/canvas-snapshot";
+import { HorizontalText } from "@/lib/horizontal-text";
+import { createTextEffect, type StrokeEffect } from "@/lib/text-effects";
+import { toVerticalText, VerticalText } from "@/lib/vertical-text";
+import { DEFAULT_FONT_FAMILY } from "@/store/font-store";
+
+export type NameplateStyleKey = "classic" | "school" | "team" | "hostile";
+
+export type NameplateOrientation = "horizontal" | "vertical";
+
+export interface NameplateProps {
+	/** 称号, above the name; empty hides the line */
+	title: string;
+	characterName: string;
+	/** 帮会, below the name; empty hides the line */
+	guild: string;
+	/** School whose colour and icon the plate uses; empty for none */
+	schoolKey: string;
+	showIcon: boolean;
+	styleKey: NameplateStyleKey;
+	/** Vertical plates read in columns from right to left */
+	orientation: NameplateOrientation;
+	fontFamily: string;
+}
+
+interface NameplateStyle {
+	label: string;
+	titleColor: string;
+	/** null uses the school's colour */
+	nameColor: string | null;
+	guildColor: string;
+	outlineColor: string;
+}
+
+/** Overhead colours as the game shows them */
+export const NAMEPLATE_STYLES: Record<NameplateStyleKey, NameplateStyle> = {
+	classic: {
+		label: "白名",
+		titleColor: "#ffd65c",
+		nameColor: "#ffffff",
+		guildColor: "#9be86b",
+		outlineColor: "#141414",
+	},
+	school: {
+		label: "门派色",
+		titleColor: "#ffd65c",
+		nameColor: null,
+		guildColor: "#d8ecff",
+		outlineColor: "#141414",
+	},
+	team: {
+		label: "队友",
+		titleColor: "#ffd65c",
+		nameColor: "#73d8ff",
+		guildColor: "#9be86b",
+		outlineColor: "#0d1a24",
+	},
+	hostile: {
+		label: "敌对",
+		titleColor: "#ffb199",
+		nameColor: "#ff4b3a",
+		guildColor: "#ff9a8a",
+		outlineColor: "#240806",
+	},
+};
+
+export const NAMEPLATE_STYLE_KEYS = Object.keys(
+	NAMEPLATE_STYLES,
+) as NameplateStyleKey[];
+
+export const NAMEPLATE_DEFAULTS: NameplateProps = {
+	title: "初入江湖",
+	characterName: "侠士",
+	guild: "帮会名称",
+	schoolKey: "",
+	showIcon: true,
+	styleKey: "classic",
+	orientation: "horizontal",
+	fontFamily: DEFAULT_FONT_FAMILY,
+};
+
+const NAMEPLATE_PROPS = Object.keys(NAMEPLATE_DEFAULTS);
+
+const NAME_FONT_SIZE = 100;
+/** Title and guild sizes against the name, fixed as in game */
+const TITLE_SIZE_RATIO = 0.6;
+const GUILD_SIZE_RATIO = 0.6;
+const ICON_SIZE_RATIO = 1.1;
+const GAP_RATIO = 0.12;
+const OUTLINE_WIDTH_RATIO = 0.07;
+
+export function readNameplateProps(plate: NameplateProps): NameplateProps {
+	return {
+		title: plate.title,
+		characterName: plate.characterName,
+		guild: plate.guild,
+		schoolKey: plate.schoolKey,
+		showIcon: plate.showIcon,
+		styleKey: plate.styleKey,
+		orientation: plate.orientation,
+		fontFamily: plate.fontFamily,
+	};
+}
+
+function getNameColor(props: NameplateProps): string {
+	const school = JX3_SCHOOL_PRESETS.find((p) => p.key === props.schoolKey);
+	return (
+		NAMEPLATE_STYLES[props.styleKey].nameColor ?? school?.color ?? "#ffffff"
+	);
+}
+
+function createNameplateLine(
+	text: string,
+	fontSize: number,
+	color: string,
+	fontWeight: number,
+	props: NameplateProps,
+): IText {
+	const vertical = props.orientation === "vertical";
+	const TextClass = vertical ? VerticalText : HorizontalText;
+	const line = new TextClass(vertical ? toVerticalText(text) : text, {
+		originX: "center",
+		originY: "center",
+		editable: false,
+		fill: color,
+		fontFamily: props.fontFamily,
+		fontSize,
+		fontWeight,
+		textAlign: "center",
+		stroke: null,
+		strokeWidth: 0,
+		paintFirst: "stroke",
+		objectCaching: false,
+	});
+	const outline: StrokeEffect = {
+		...(createTextEffect("stroke") as StrokeEffect),
+		color: NAMEPLATE_STYLES[props.styleKey].outlineColor,
+		width: Math.round(fontSize * OUTLINE_WIDTH_RATIO),
+	};
+	setObjectEffects(line, [outline]);
+	setObjectVertical(line, vertical);
+	return line;
+}
+
+/**
+ * Stacks slots around the origin: rows from top to bottom, or columns from
+ * right to left when vertical. Items in a slot sit side by side, centred.
+ */
+function arrangeSlots(slots: FabricObject[][], vertical: boolean, gap: number) {
+	const thicknessOf = (obj: FabricObject) =>
+		vertical ? obj.getScaledWidth() : obj.getScaledHeight();
+	const lengthOf = (obj: FabricObject) =>
+		vertical ? obj.getScaledHeight() : obj.getScaledWidth();
+
+	let offset = 0;
+	for (const slot of slots) {
+		const thickness = Math.max(...slot.map(thicknessOf));
+		const length =
+			slot.reduce((sum, obj) => sum + lengthOf(obj), 0) +
+			gap * (slot.length - 1);
+		const across = offset + thickness / 2;
+		let cursor = -length / 2;
+		for (const obj of slot) {
+			const along = cursor + lengthOf(obj) / 2;
+			obj.set(
+				vertical ? { left: -across, top: along } : { left: along, top: across },
+			);
+			cursor += lengthOf(obj) + gap;
+		}
+		offset += thickness + gap;
+	}
+}
+
+/**
+ * An overhead nameplate: 称号, character name and 帮会 in their in-game
+ * sizes, with an optional school icon beside the name. The members are
+ * rebuilt from the props above rather than edited one by one.
+ */
+export class Nameplate extends Group implements NameplateProps {
+	static type = "Nameplate";
+	static customProperties = NAMEPLATE_PROPS;
+
+	declare title: string;
+	declare characterName: string;
+	declare guild: string;
+	declare schoolKey: string;
+	declare showIcon: boolean;
+	declare styleKey: NameplateStyleKey;
+	declare orientation: NameplateOrientation;
+	declare fontFamily: string;
+
+	constructor(
+		objects?: FabricObject[],
+		options?: Partial<GroupProps> & Partial<NameplateProps>,
+	) {
+		super(objects, {
+			...NAMEPLATE_DEFAULTS,
+			subTargetCheck: false,
+			interactive: false,
+			objectCaching: false,
+			...options,
+		});
+	}
+
+	static getDefaults(): Record<string, unknown> {
+		return { ...super.getDefaults(), ...NAMEPLATE_DEFAULTS };
+	}
+
+	static createControls() {
+		return withCalloutAnchor(super.createControls().controls);
+	}
+
+	render(ctx: CanvasRenderingContext2D) {
+		renderObjectCallout(this, ctx);
+		super.render(ctx);
+	}
+
+	getIcon(): FabricImage | undefined {
+		return this.getObjects().find((obj) => obj instanceof FabricImage);
+	}
+}
+
+classRegistry.setClass(Nameplate);
+
+/** The school's icon, ready to go beside a name; null without a school. */
+export async function loadNameplateIcon(
+	schoolKey: string,
+): Promise<FabricImage | null> {
+	const school = JX3_SCHOOL_PRESETS.find((p) => p.key === schoolKey);
+	if (!school) return null;
+	try {
+		return await FabricImage.fromURL(school.icon, {
+			crossOrigin: "anonymous",
+		});
+	} catch (err) {
+		if (import.meta.env.DEV)
+			console.warn("[jx3-photo-maker] nameplate icon failed:", err);
+		return null;
+	}
+}
+
+/** Lays out a new nameplate centred on the origin. */
+export function createNameplate(
+	props: NameplateProps,
+	icon: FabricImage | null,
+): Nameplate {
+	const style = NAMEPLATE_STYLES[props.styleKey];
+	const gap = NAME_FONT_SIZE * GAP_RATIO;
+	const slots: FabricObject[][] = [];
+
+	if (props.title.trim()) {
+		slots.push([
+			createNameplateLine(
+				props.title,
+				NAME_FONT_SIZE * TITLE_SIZE_RATIO,
+				style.titleColor,
+				400,
+				props,
+			),
+		]);
+	}
+
+	const name = createNameplateLine(
+		props.characterName.trim() || NAMEPLATE_DEFAULTS.characterName,
+		NAME_FONT_SIZE,
+		getNameColor(props),
+		700,
+		props,
+	);
+	if (icon && props.showIcon) {
+		const iconSize = NAME_FONT_SIZE * ICON_SIZE_RATIO;
+		icon.set({
+			originX: "center",
+			originY: "center",
+			angle: 0,
+			objectCaching: false,
+		});
+		icon.scale(iconSize / Math.max(icon.width, icon.height, 1));
+		slots.push([icon, name]);
+	} else {
+		slots.push([name]);
+	}
+
+	if (props.guild.trim()) {
+		slots.push([
+			createNameplateLine(
+				props.guild,
+				NAME_FONT_SIZE * GUILD_SIZE_RATIO,
+				style.guildColor,
+				400,
+				props,
+			),
+		]);
+	}
+
+	arrangeSlots(slots, props.orientation === "vertical", gap);
+	return new Nameplate(slots.flat(), props);
+}
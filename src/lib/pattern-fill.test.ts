@@ -0,0 +1,45 @@
+import { Pattern } from "fabric";
+import { describe, expect, it } from "vitest";
+import {
+	getPatternImageUrl,
+	getTextureSource,
+	isUploadedTexture,
+	readPatternFill,
+} from "@/lib/pattern-fill";
+
+function patternFrom(src: string): Pattern {
+	const image = new Image();
+	image.src = src;
+	return new Pattern({ source: image, repeat: "repeat" });
+}
+
+describe("pattern sources", () => {
+	it("keeps bundled textures relative to the app", () => {
+		expect(getTextureSource("wood.png")).toBe("textures/wood.png");
+		expect(getPatternImageUrl("textures/wood.png")).toBe(
+			`${import.meta.env.BASE_URL}textures/wood.png`,
+		);
+	});
+
+	it("loads uploaded images from their data URL", () => {
+		const source = "data:image/png;base64,AAAA";
+		expect(isUploadedTexture(source)).toBe(true);
+		expect(getPatternImageUrl(source)).toBe(source);
+	});
+});
+
+describe("readPatternFill", () => {
+	it("reads a bundled texture back as its relative path", () => {
+		const url = new URL("textures/wood.png", document.baseURI).href;
+		expect(readPatternFill(patternFrom(url)).source).toBe(
+			"textures/wood.png",
+		);
+	});
+
+	it("keeps uploaded and foreign images as they are", () => {
+		const data = "data:image/png;base64,AAAA";
+		expect(readPatternFill(patternFrom(data)).source).toBe(data);
+		const foreign = "https://example.com/textures/wood.png";
+		expect(readPatternFill(patternFrom(foreign)).source).toBe(foreign);
+	});
+});
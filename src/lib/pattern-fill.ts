@@ -0,0 +1,174 @@
+import { Pattern, util } from "fabric";
+import { loadImageElement } from "@/lib/file";
+
+/**
+ * A tiled image fill in plain data, so it can live in snapshots and the ID
+ * history. The tile starts at the text's top-left corner.
+ */
+export interface PatternFill {
+	type: "pattern";
+	/**
+	 * Path of a bundled texture relative to the app, e.g. `textures/a.png`,
+	 * or data URL of an uploaded image
+	 */
+	source: string;
+	scale: number;
+	/** Rotation of the tiles in degrees */
+	angle: number;
+	offsetX: number;
+	offsetY: number;
+}
+
+export interface TextureEntry {
+	name: string;
+	file: string;
+}
+
+export const PATTERN_FILL_DEFAULTS: Omit<PatternFill, "type" | "source"> = {
+	scale: 1,
+	angle: 0,
+	offsetX: 0,
+	offsetY: 0,
+};
+
+/** Uploaded images are shrunk to this many pixels on their longer side */
+const MAX_UPLOADED_TEXTURE_SIZE = 512;
+
+const patternImages = new Map<string, HTMLImageElement>();
+
+export function isPatternFill(fill: unknown): fill is PatternFill {
+	return (
+		typeof fill === "object" &&
+		fill !== null &&
+		(fill as PatternFill).type === "pattern"
+	);
+}
+
+export function createPatternFill(source: string): PatternFill {
+	return { type: "pattern", source, ...PATTERN_FILL_DEFAULTS };
+}
+
+const TEXTURE_DIR = "textures/";
+
+export function getTextureUrl(file: string): string {
+	return `${import.meta.env.BASE_URL}${TEXTURE_DIR}${file}`;
+}
+
+/** Pattern source of a bundled texture, kept free of origin and base path */
+export function getTextureSource(file: string): string {
+	return `${TEXTURE_DIR}${file}`;
+}
+
+export function isUploadedTexture(source: string): boolean {
+	return source.startsWith("data:");
+}
+
+/** URL a pattern's image loads from */
+export function getPatternImageUrl(source: string): string {
+	return source.startsWith(TEXTURE_DIR)
+		? getTextureUrl(source.slice(TEXTURE_DIR.length))
+		: source;
+}
+
+/** Turns the URL of a loaded image back into a pattern source. */
+function toPatternSource(url: string): string {
+	if (isUploadedTexture(url)) return url;
+	const base = new URL(getTextureUrl(""), document.baseURI).href;
+	const href = new URL(url, document.baseURI).href;
+	return href.startsWith(base)
+		? getTextureSource(href.slice(base.length))
+		: url;
+}
+
+export async function fetchTextureManifest(): Promise<TextureEntry[]> {
+	const res = await fetch(getTextureUrl("textures.json"));
+	if (!res.ok) return [];
+	return (await res.json()) as TextureEntry[];
+}
+
+/** Colour a pattern paints with while its image is missing */
+const PATTERN_FALLBACK_COLOR = "#000000";
+
+export function isPatternFillLoaded(fill: PatternFill): boolean {
+	return patternImages.has(fill.source);
+}
+
+/**
+ * Loads the tile image `toFabricPattern` paints with. An image that fails to
+ * load is only logged; the pattern then paints as a plain colour.
+ */
+export async function preloadPatternFill(fill: PatternFill): Promise<void> {
+	if (patternImages.has(fill.source)) return;
+	try {
+		const image = await loadImageElement(getPatternImageUrl(fill.source));
+		patternImages.set(fill.source, image);
+	} catch (err) {
+		if (import.meta.env.DEV)
+			console.warn("[jx3-photo-maker] pattern image failed to load:", err);
+	}
+}
+
+export function toFabricPattern(fill: PatternFill): Pattern | string {
+	const source = patternImages.get(fill.source);
+	if (!source) return PATTERN_FALLBACK_COLOR;
+	return new Pattern({
+		source,
+		repeat: "repeat",
+		offsetX: fill.offsetX,
+		offsetY: fill.offsetY,
+		patternTransform: util.composeMatrix({
+			angle: fill.angle,
+			scaleX: fill.scale,
+			scaleY: fill.scale,
+		}),
+	});
+}
+
+export function readPatternFill(pattern: Pattern): PatternFill {
+	const { source } = pattern;
+	const src =
+		source instanceof HTMLImageElement
+			? toPatternSource(source.src)
+			: source instanceof HTMLCanvasElement
+				? source.toDataURL()
+				: "";
+	if (source instanceof HTMLImageElement) patternImages.set(src, source);
+	const { angle, scaleX } = pattern.patternTransform
+		? util.qrDecompose(pattern.patternTransform)
+		: { angle: 0, scaleX: 1 };
+	return {
+		type: "pattern",
+		source: src,
+		scale: Number(scaleX.toFixed(3)),
+		angle: Math.round((angle + 360) % 360),
+		offsetX: Math.round(pattern.offsetX),
+		offsetY: Math.round(pattern.offsetY),
+	};
+}
+
+/**
+ * Reads an uploaded image as a data URL, shrunk so it stays small enough
+ * for the ID history and project files.
+ */
+export async function imageFileToTexture(file: File): Promise<string> {
+	const url = URL.createObjectURL(file);
+	try {
+		const image = await loadImageElement(url);
+		const ratio = Math.min(
+			1,
+			MAX_UPLOADED_TEXTURE_SIZE /
+				Math.max(image.naturalWidth, image.naturalHeight, 1),
+		);
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.max(1, Math.round(image.naturalWidth * ratio));
+		canvas.height = Math.max(1, Math.round(image.naturalHeight * ratio));
+		canvas
+			.getContext("2d")
+			?.drawImage(image, 0, 0, canvas.width, canvas.height);
+		return canvas.toDataURL(
+			file.type === "image/jpeg" ? "image/jpeg" : "image/png",
+		);
+	} finally {
+		URL.revokeObjectURL(url);
+	}
+}
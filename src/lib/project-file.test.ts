@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+	PROJECT_FILE_FORMAT,
+	PROJECT_FILE_VERSION,
+	ProjectFileError,
+	parseProjectFile,
+} from "@/lib/project-file";
+
+function project(patch: Record<string, unknown> = {}): string {
+	return JSON.stringify({
+		format: PROJECT_FILE_FORMAT,
+		version: PROJECT_FILE_VERSION,
+		savedAt: "2024-01-01T00:00:00.000Z",
+		image: {
+			dataUrl: "data:image/png;base64,AAAA",
+			fileName: "shot.png",
+			width: 100,
+			height: 50,
+		},
+		canvas: { objects: [] },
+		fonts: [],
+		guides: [],
+		...patch,
+	});
+}
+
+describe("parseProjectFile", () => {
+	it("reads a valid project", () => {
+		const parsed = parseProjectFile(project());
+		expect(parsed.version).toBe(PROJECT_FILE_VERSION);
+		expect(parsed.image.fileName).toBe("shot.png");
+		expect(parsed.canvas.objects).toEqual([]);
+	});
+
+	it("rejects anything that is not JSON", () => {
+		expect(() => parseProjectFile("{")).toThrow(ProjectFileError);
+	});
+
+	it("rejects another format", () => {
+		expect(() => parseProjectFile(project({ format: "other" }))).toThrow(
+			"不是 jx3-photo-maker 项目文件",
+		);
+		expect(() => parseProjectFile("null")).toThrow(ProjectFileError);
+	});
+
+	it("rejects a newer version and accepts older ones", () => {
+		expect(() =>
+			parseProjectFile(project({ version: PROJECT_FILE_VERSION + 1 })),
+		).toThrow("项目文件版本过新");
+		expect(parseProjectFile(project({ version: undefined })).version).toBe(
+			PROJECT_FILE_VERSION,
+		);
+	});
+
+	it("rejects a project without its canvas or image", () => {
+		expect(() => parseProjectFile(project({ canvas: undefined }))).toThrow(
+			"项目文件内容不完整",
+		);
+		expect(() =>
+			parseProjectFile(project({ canvas: { objects: {} } })),
+		).toThrow("项目文件内容不完整");
+		expect(() =>
+			parseProjectFile(project({ image: { fileName: "shot.png" } })),
+		).toThrow("项目文件内容不完整");
+	});
+
+	it("drops malformed font entries", () => {
+		const fonts = [
+			{ family: "千图小兔体", source: "custom", file: "a.woff2" },
+			{ family: "custom-手写", source: "uploaded", data: "AAAA" },
+			{ family: "", source: "custom" },
+			{ family: "无来源" },
+			{ family: "未知来源", source: "cloud" },
+			{ family: 42, source: "local" },
+			null,
+			"千图小兔体",
+		];
+		expect(parseProjectFile(project({ fonts })).fonts).toEqual([
+			{ family: "千图小兔体", source: "custom", file: "a.woff2" },
+			{ family: "custom-手写", source: "uploaded", data: "AAAA" },
+		]);
+	});
+
+	it("ignores font fields of the wrong type", () => {
+		const fonts = [{ family: "楷体", source: "local", file: 1, data: {} }];
+		expect(parseProjectFile(project({ fonts })).fonts).toEqual([
+			{ family: "楷体", source: "local" },
+		]);
+	});
+
+	it("treats missing fonts and guides as empty", () => {
+		const parsed = parseProjectFile(
+			project({ fonts: undefined, guides: undefined }),
+		);
+		expect(parsed.fonts).toEqual([]);
+		expect(parsed.guides).toEqual([]);
+	});
+});
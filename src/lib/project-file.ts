@@ -0,0 +1,152 @@
+import type { Canvas, FabricObject } from "fabric";
+import { Group } from "fabric";
+import { type CanvasSnapshot, serializeCanvas } from "@/lib/canvas-snapshot";
+import { arrayBufferToBase64 } from "@/lib/file";
+import type { LoadedImageMeta } from "@/store/editor-store";
+import { type FontEntry, getUploadedFontBuffer } from "@/store/font-store";
+import { sanitizeGuides, type UserGuide } from "@/store/guides-store";
+
+export const PROJECT_FILE_EXTENSION = ".jx3proj";
+export const PROJECT_FILE_FORMAT = "jx3-photo-maker/project";
+export const PROJECT_FILE_VERSION = 1;
+
+export interface ProjectFontRef {
+	family: string;
+	source: FontEntry["source"];
+	/** File name inside public/fonts for manifest fonts */
+	file?: string;
+	/** Base64 font bytes for user-uploaded fonts */
+	data?: string;
+}
+
+export interface ProjectFile {
+	format: typeof PROJECT_FILE_FORMAT;
+	version: number;
+	savedAt: string;
+	image: LoadedImageMeta;
+	canvas: CanvasSnapshot;
+	fonts: ProjectFontRef[];
+	/** Ruler guides in image pixels */
+	guides: UserGuide[];
+}
+
+export class ProjectFileError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ProjectFileError";
+	}
+}
+
+function collectFontFamilies(
+	objects: FabricObject[],
+	families = new Set<string>(),
+): Set<string> {
+	for (const obj of objects) {
+		const family = (obj as FabricObject & { fontFamily?: unknown }).fontFamily;
+		if (typeof family === "string") families.add(family);
+		if (obj instanceof Group) collectFontFamilies(obj.getObjects(), families);
+	}
+	return families;
+}
+
+/**
+ * `embedFonts` puts uploaded fonts' bytes in the file as base64; autosave
+ * leaves them out and keeps the raw buffers next to the project instead.
+ */
+export function buildProjectFile(
+	canvas: Canvas,
+	image: LoadedImageMeta,
+	knownFonts: FontEntry[],
+	guides: UserGuide[] = [],
+	embedFonts = true,
+): ProjectFile {
+	const fonts: ProjectFontRef[] = [];
+	for (const family of collectFontFamilies(canvas.getObjects())) {
+		const entry = knownFonts.find((font) => font.family === family);
+		if (!entry) continue;
+		const ref: ProjectFontRef = { family, source: entry.source };
+		if (entry.file) ref.file = entry.file;
+		if (embedFonts && entry.source === "uploaded") {
+			const buffer = getUploadedFontBuffer(family);
+			if (buffer) ref.data = arrayBufferToBase64(buffer);
+		}
+		fonts.push(ref);
+	}
+
+	return {
+		format: PROJECT_FILE_FORMAT,
+		version: PROJECT_FILE_VERSION,
+		savedAt: new Date().toISOString(),
+		image,
+		canvas: serializeCanvas(canvas),
+		fonts,
+		guides,
+	};
+}
+
+const FONT_SOURCES: ReadonlySet<unknown> = new Set<FontEntry["source"]>([
+	"builtin",
+	"uploaded",
+	"local",
+	"custom",
+]);
+
+/** Keeps the font entries that are well formed; others are dropped. */
+function sanitizeFontRefs(value: unknown): ProjectFontRef[] {
+	if (!Array.isArray(value)) return [];
+	return value.flatMap((item): ProjectFontRef[] => {
+		const font = item as Record<keyof ProjectFontRef, unknown> | null;
+		if (
+			typeof font?.family !== "string" ||
+			!font.family ||
+			!FONT_SOURCES.has(font.source)
+		) {
+			return [];
+		}
+		const ref: ProjectFontRef = {
+			family: font.family,
+			source: font.source as FontEntry["source"],
+		};
+		if (typeof font.file === "string") ref.file = font.file;
+		if (typeof font.data === "string") ref.data = font.data;
+		return [ref];
+	});
+}
+
+export function parseProjectFile(raw: string): ProjectFile {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch {
+		throw new ProjectFileError("项目文件不是有效的 JSON");
+	}
+
+	const project = parsed as Partial<ProjectFile> | null;
+	if (!project || project.format !== PROJECT_FILE_FORMAT) {
+		throw new ProjectFileError("不是 jx3-photo-maker 项目文件");
+	}
+	if ((project.version ?? 0) > PROJECT_FILE_VERSION) {
+		throw new ProjectFileError("项目文件版本过新，请更新页面后再打开");
+	}
+	if (
+		!project.image?.dataUrl ||
+		!project.canvas ||
+		!Array.isArray(project.canvas.objects)
+	) {
+		throw new ProjectFileError("项目文件内容不完整");
+	}
+
+	return {
+		format: PROJECT_FILE_FORMAT,
+		version: project.version ?? PROJECT_FILE_VERSION,
+		savedAt: project.savedAt ?? "",
+		image: project.image,
+		canvas: project.canvas,
+		fonts: sanitizeFontRefs(project.fonts),
+		guides: sanitizeGuides(project.guides),
+	};
+}
+
+export function isProjectFile(file: File): boolean {
+	return file.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+}
@@ -0,0 +1,116 @@
+import type { ProjectFile } from "@/lib/project-file";
+
+const DB_NAME = "jx3-photo-maker";
+const DB_VERSION = 1;
+const STORE_NAME = "recovery";
+
+export const RECOVERY_SLOT_COUNT = 3;
+
+export interface RecoveryRecord {
+	slot: number;
+	savedAt: number;
+	imageBlob: Blob;
+	/** Project with `image.dataUrl` left empty; the pixels live in `imageBlob`. */
+	project: ProjectFile;
+	/** Bytes of the uploaded fonts, which the project refs carry no data for */
+	fontBuffers?: Record<string, ArrayBuffer>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function openRecoveryDB(): Promise<IDBDatabase> {
+	return new Promise((resolve, reject) => {
+		if (!("indexedDB" in window)) {
+			reject(new Error("IndexedDB is not supported in this browser"));
+			return;
+		}
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(STORE_NAME)) {
+				db.createObjectStore(STORE_NAME, { keyPath: "slot" });
+			}
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+async function withStore<T>(
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> {
+	const db = await openRecoveryDB();
+	try {
+		const tx = db.transaction(STORE_NAME, mode);
+		const done = new Promise<void>((resolve, reject) => {
+			tx.oncomplete = () => resolve();
+			tx.onabort = () => reject(tx.error);
+			tx.onerror = () => reject(tx.error);
+		});
+		const result = await run(tx.objectStore(STORE_NAME));
+		await done;
+		return result;
+	} finally {
+		db.close();
+	}
+}
+
+/** Newest first. Records that fail basic shape checks are dropped. */
+export async function readRecoveryRecords(): Promise<RecoveryRecord[]> {
+	const records = await withStore("readonly", (store) =>
+		requestToPromise(store.getAll() as IDBRequest<RecoveryRecord[]>),
+	);
+	return records
+		.filter(
+			(record) =>
+				record &&
+				record.imageBlob instanceof Blob &&
+				record.project?.canvas &&
+				Array.isArray(record.project.canvas.objects),
+		)
+		.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/** Slot this page load saves into, picked on its first save */
+let sessionSlot: Promise<number> | null = null;
+
+async function pickSessionSlot(): Promise<number> {
+	try {
+		const [latest] = await readRecoveryRecords();
+		return latest ? (latest.slot + 1) % RECOVERY_SLOT_COUNT : 0;
+	} catch {
+		/* unreadable store: start over at slot 0 */
+		return 0;
+	}
+}
+
+/**
+ * Every save of a session goes into the same slot, the one after the newest
+ * record when the session started. The slots thus hold the last few
+ * sessions, and edits after a crash never overwrite the crashed session.
+ */
+export async function writeRecoveryRecord(
+	imageBlob: Blob,
+	project: ProjectFile,
+	fontBuffers: Record<string, ArrayBuffer>,
+): Promise<void> {
+	sessionSlot ??= pickSessionSlot();
+	const record: RecoveryRecord = {
+		slot: await sessionSlot,
+		savedAt: Date.now(),
+		imageBlob,
+		project,
+		fontBuffers,
+	};
+	await withStore("readwrite", (store) => requestToPromise(store.put(record)));
+}
+
+export async function clearRecoveryRecords(): Promise<void> {
+	await withStore("readwrite", (store) => requestToPromise(store.clear()));
+}
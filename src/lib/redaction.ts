@@ -0,0 +1,279 @@
+import type {
+	Canvas,
+	FabricObjectProps,
+	PathProps,
+	TSimplePathData,
+} from "fabric";
+import {
+	classRegistry,
+	FabricImage,
+	FabricObject,
+	Path,
+	PencilBrush,
+	util,
+} from "fabric";
+
+export type RedactionEffect = "pixelate" | "blur" | "solid";
+
+/** How a region hides the screenshot under it. */
+export interface RedactionStyle {
+	effect: RedactionEffect;
+	/** Mosaic block size or blur radius, in image pixels */
+	strength: number;
+	/** Paint of solid regions */
+	solidColor: string;
+}
+
+export const REDACTION_EFFECT_LABELS: Record<RedactionEffect, string> = {
+	pixelate: "马赛克",
+	blur: "模糊",
+	solid: "纯色",
+};
+
+export const REDACTION_EFFECTS = Object.keys(
+	REDACTION_EFFECT_LABELS,
+) as RedactionEffect[];
+
+export const MIN_REDACTION_STRENGTH = 4;
+export const MAX_REDACTION_STRENGTH = 64;
+
+export const DEFAULT_REDACTION_STYLE: RedactionStyle = {
+	effect: "pixelate",
+	strength: 16,
+	solidColor: "#1f1f1f",
+};
+
+const REDACTION_STYLE_PROPS = Object.keys(DEFAULT_REDACTION_STYLE);
+
+/** Stands in for the screenshot where there is none, e.g. layer thumbnails */
+const MISSING_SOURCE_COLOR = "#808080";
+/** Obscured copies kept per screenshot; a 4K copy is over 30 MB */
+const MAX_CACHED_COPIES = 4;
+
+function createLayer(width: number, height: number) {
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.max(1, Math.round(width));
+	canvas.height = Math.max(1, Math.round(height));
+	const ctx = canvas.getContext("2d");
+	return ctx && { canvas, ctx };
+}
+
+function pixelate(
+	source: HTMLImageElement | HTMLCanvasElement,
+	width: number,
+	height: number,
+	block: number,
+): HTMLCanvasElement | null {
+	const small = createLayer(width / block, height / block);
+	const out = createLayer(width, height);
+	if (!small || !out) return null;
+	small.ctx.drawImage(source, 0, 0, small.canvas.width, small.canvas.height);
+	// Blocks line up with the image, so moving a region keeps the same grid
+	out.ctx.imageSmoothingEnabled = false;
+	out.ctx.drawImage(
+		small.canvas,
+		0,
+		0,
+		small.canvas.width * block,
+		small.canvas.height * block,
+	);
+	return out.canvas;
+}
+
+function blur(
+	source: HTMLImageElement | HTMLCanvasElement,
+	width: number,
+	height: number,
+	radius: number,
+): HTMLCanvasElement | null {
+	const out = createLayer(width, height);
+	if (!out) return null;
+	// Older Safari has no canvas filters
+	const filters = (out.ctx as Partial<CanvasRenderingContext2D>).filter;
+	if (filters !== undefined) {
+		out.ctx.filter = `blur(${radius}px)`;
+		out.ctx.drawImage(source, 0, 0, width, height);
+		return out.canvas;
+	}
+	// Scaling down and back up blurs nearly as well
+	const small = createLayer(width / radius, height / radius);
+	if (!small) return null;
+	small.ctx.drawImage(source, 0, 0, small.canvas.width, small.canvas.height);
+	out.ctx.imageSmoothingQuality = "high";
+	out.ctx.drawImage(small.canvas, 0, 0, width, height);
+	return out.canvas;
+}
+
+const obscuredCopies = new WeakMap<object, Map<string, HTMLCanvasElement>>();
+
+/**
+ * The whole screenshot pixelated or blurred at its own resolution. Regions
+ * show the part of it under them, so exports bake them in at full size.
+ */
+function getObscuredCopy(
+	background: FabricImage,
+	effect: "pixelate" | "blur",
+	strength: number,
+): HTMLCanvasElement | null {
+	const source = background.getElement();
+	if (
+		!(source instanceof HTMLImageElement) &&
+		!(source instanceof HTMLCanvasElement)
+	) {
+		return null;
+	}
+	const copies = obscuredCopies.get(source) ?? new Map();
+	obscuredCopies.set(source, copies);
+	const key = `${effect}:${strength}`;
+	const cached = copies.get(key);
+	if (cached) {
+		// Most recently used last, so the oldest goes first
+		copies.delete(key);
+		copies.set(key, cached);
+		return cached;
+	}
+
+	const { width, height } = background;
+	const copy =
+		effect === "pixelate"
+			? pixelate(source, width, height, strength)
+			: blur(source, width, height, strength);
+	if (!copy) return null;
+	copies.set(key, copy);
+	for (const oldest of copies.keys()) {
+		if (copies.size <= MAX_CACHED_COPIES) break;
+		copies.delete(oldest);
+	}
+	return copy;
+}
+
+/** What a region paints with, lined up so each pixel lands where it was. */
+function getRedactionPaint(
+	ctx: CanvasRenderingContext2D,
+	region: FabricObject & RedactionStyle,
+): string | CanvasPattern {
+	if (region.effect === "solid") return region.solidColor;
+	const background = region.canvas?.backgroundImage;
+	if (!(background instanceof FabricImage)) return MISSING_SOURCE_COLOR;
+	const copy = getObscuredCopy(
+		background,
+		region.effect,
+		Math.max(region.strength, MIN_REDACTION_STRENGTH),
+	);
+	const pattern = copy && ctx.createPattern(copy, "no-repeat");
+	if (!pattern) return MISSING_SOURCE_COLOR;
+
+	// Copy pixels → screenshot plane → scene → the region's own plane
+	const [a, b, c, d, e, f] = util.multiplyTransformMatrices(
+		util.invertTransform(region.calcTransformMatrix()),
+		util.multiplyTransformMatrices(background.calcTransformMatrix(), [
+			1,
+			0,
+			0,
+			1,
+			-background.width / 2,
+			-background.height / 2,
+		]),
+	);
+	pattern.setTransform(new DOMMatrix([a, b, c, d, e, f]));
+	return pattern;
+}
+
+/** Redactions always cover fully; see-through ones would leak. */
+function resetRedactionBlending(ctx: CanvasRenderingContext2D) {
+	ctx.globalAlpha = 1;
+	ctx.globalCompositeOperation = "source-over";
+}
+
+interface RedactionRectProps extends FabricObjectProps, RedactionStyle {}
+
+/** A rectangle that hides the screenshot under it. */
+export class RedactionRect extends FabricObject<Partial<RedactionRectProps>> {
+	static type = "RedactionRect";
+	static customProperties = REDACTION_STYLE_PROPS;
+
+	declare effect: RedactionEffect;
+	declare strength: number;
+	declare solidColor: string;
+
+	constructor(options?: Partial<RedactionRectProps>) {
+		super({ ...DEFAULT_REDACTION_STYLE, ...options });
+	}
+
+	_render(ctx: CanvasRenderingContext2D) {
+		ctx.save();
+		resetRedactionBlending(ctx);
+		ctx.fillStyle = getRedactionPaint(ctx, this);
+		ctx.fillRect(-this.width / 2, -this.height / 2, this.width, this.height);
+		ctx.restore();
+	}
+}
+
+classRegistry.setClass(RedactionRect);
+
+interface RedactionStrokeProps extends PathProps, RedactionStyle {}
+
+/** A brushed region: the stroke's footprint hides the screenshot. */
+export class RedactionStroke extends Path<Partial<RedactionStrokeProps>> {
+	static type = "RedactionStroke";
+	static customProperties = REDACTION_STYLE_PROPS;
+
+	declare effect: RedactionEffect;
+	declare strength: number;
+	declare solidColor: string;
+
+	_render(ctx: CanvasRenderingContext2D) {
+		ctx.save();
+		resetRedactionBlending(ctx);
+		this._renderPathCommands(ctx);
+		ctx.lineWidth = this.strokeWidth;
+		ctx.lineCap = "round";
+		ctx.lineJoin = "round";
+		ctx.strokeStyle = getRedactionPaint(ctx, this);
+		ctx.stroke();
+		ctx.restore();
+	}
+}
+
+classRegistry.setClass(RedactionStroke);
+
+export type RedactionRegion = RedactionRect | RedactionStroke;
+
+export function isRedactionRegion(
+	obj: FabricObject | null,
+): obj is RedactionRegion {
+	return obj instanceof RedactionRect || obj instanceof RedactionStroke;
+}
+
+export function readRedactionStyle(region: RedactionRegion): RedactionStyle {
+	return {
+		effect: region.effect,
+		strength: region.strength,
+		solidColor: region.solidColor,
+	};
+}
+
+/** Paints redaction strokes; each one becomes its own region. */
+export class RedactionBrush extends PencilBrush {
+	declare style: RedactionStyle;
+
+	constructor(canvas: Canvas, style: RedactionStyle, width: number) {
+		super(canvas);
+		this.style = style;
+		this.width = width;
+		// The effect shows once the stroke is done; until then a veil marks it
+		this.color = "rgba(128, 128, 128, 0.6)";
+	}
+
+	createPath(pathData: TSimplePathData): RedactionStroke {
+		return new RedactionStroke(pathData, {
+			...this.style,
+			fill: null,
+			stroke: "#000000",
+			strokeWidth: this.width,
+			strokeLineCap: "round",
+			strokeLineJoin: "round",
+			objectCaching: false,
+		});
+	}
+}
@@ -0,0 +1,112 @@
+import { Point } from "fabric";
+import { describe, expect, it } from "vitest";
+import {
+	createShape,
+	getShapeKind,
+	readShapeStyle,
+	RegularPolygon,
+	SHAPE_DASHES,
+	SHAPE_KINDS,
+	setShapeStyle,
+} from "@/lib/shapes";
+
+/** Where the corners of a polygon sit on the canvas */
+function cornersOf(shape: RegularPolygon): Point[] {
+	const matrix = shape.calcTransformMatrix();
+	return shape.points.map((point) =>
+		new Point(point).subtract(shape.pathOffset).transform(matrix),
+	);
+}
+
+/** The corners of a regular polygon or star average out to its centre */
+function centreOf(shape: RegularPolygon): Point {
+	const corners = cornersOf(shape);
+	return corners
+		.reduce((sum, corner) => sum.add(corner), new Point(0, 0))
+		.scalarDivide(corners.length);
+}
+
+describe("getShapeKind", () => {
+	it.each(SHAPE_KINDS)("reads back a new %s", (kind) => {
+		expect(getShapeKind(createShape(kind, 100))).toBe(kind);
+	});
+
+	it("follows head and inner ratio changes", () => {
+		const line = createShape("line", 100);
+		setShapeStyle(line, { endHead: "open" });
+		expect(getShapeKind(line)).toBe("arrow");
+		const polygon = createShape("polygon", 100);
+		setShapeStyle(polygon, { innerRatio: 0.5 });
+		expect(getShapeKind(polygon)).toBe("star");
+	});
+});
+
+describe("dash", () => {
+	it.each(SHAPE_DASHES)("reads back %s", (dash) => {
+		const shape = createShape("rect", 100);
+		setShapeStyle(shape, { dash, strokeWidth: 4 });
+		expect(readShapeStyle(shape).dash).toBe(dash);
+	});
+
+	it("scales the pattern with the stroke width", () => {
+		const shape = createShape("rect", 100);
+		setShapeStyle(shape, { dash: "dashed", strokeWidth: 4 });
+		expect(shape.strokeDashArray).toEqual([12, 8]);
+		setShapeStyle(shape, { dash: "dotted" });
+		expect(shape.strokeDashArray).toEqual([0, 8]);
+		expect(shape.strokeLineCap).toBe("round");
+	});
+
+	it("draws a stroke without width as solid", () => {
+		const shape = createShape("rect", 100);
+		setShapeStyle(shape, { dash: "dashed", strokeWidth: 0 });
+		expect(shape.strokeDashArray).toBeNull();
+		expect(readShapeStyle(shape).dash).toBe("solid");
+	});
+});
+
+describe("RegularPolygon", () => {
+	it("alternates tips and inner corners on a star, first tip up", () => {
+		const star = new RegularPolygon([], {
+			sides: 5,
+			innerRatio: 0.5,
+			radius: 100,
+		});
+		expect(star.points).toHaveLength(10);
+		expect(star.points[0].x).toBeCloseTo(0);
+		expect(star.points[0].y).toBeCloseTo(-100);
+		star.points.forEach((point, i) => {
+			const distance = Math.hypot(point.x, point.y);
+			expect(distance).toBeCloseTo(i % 2 ? 50 : 100);
+		});
+	});
+
+	it("has one corner per side without an inner ratio", () => {
+		const hexagon = new RegularPolygon([], { sides: 6, radius: 100 });
+		expect(hexagon.points).toHaveLength(6);
+	});
+
+	it.each([
+		["center", "center"],
+		["left", "top"],
+	] as const)(
+		"keeps the centre in place when reshaped, origin %s %s",
+		(originX, originY) => {
+			const star = createShape("star", 200) as RegularPolygon;
+			star.set({ originX, originY, left: 300, top: 200, angle: 30 });
+			star.set({ scaleX: 1.5 });
+			const before = centreOf(star);
+
+			star.setShape({ sides: 6 });
+			expect(star.points).toHaveLength(12);
+			const afterSides = centreOf(star);
+			expect(afterSides.x).toBeCloseTo(before.x);
+			expect(afterSides.y).toBeCloseTo(before.y);
+
+			star.setShape({ innerRatio: 1 });
+			const afterRatio = centreOf(star);
+			expect(afterRatio.x).toBeCloseTo(before.x);
+			expect(afterRatio.y).toBeCloseTo(before.y);
+		},
+	);
+});
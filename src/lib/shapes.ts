@@ -0,0 +1,459 @@
+import type {
+	FabricObject,
+	FabricObjectProps,
+	TransformActionHandler,
+	XY,
+} from "fabric";
+import {
+	classRegistry,
+	Control,
+	controlsUtils,
+	Ellipse,
+	Line,
+	Point,
+	Polygon,
+	Rect,
+	util,
+} from "fabric";
+
+export type ShapeKind =
+	| "rect"
+	| "ellipse"
+	| "line"
+	| "arrow"
+	| "polygon"
+	| "star";
+
+export type ShapeDash = "solid" | "dashed" | "dotted";
+
+export type ArrowHead = "none" | "triangle" | "open" | "circle" | "bar";
+
+/** Everything the shape panel edits; fields a shape lacks are ignored. */
+export interface ShapeStyle {
+	/** null leaves the inside see-through; lines are never filled */
+	fill: string | null;
+	stroke: string;
+	strokeWidth: number;
+	dash: ShapeDash;
+	opacity: number;
+	/** Rectangles only */
+	cornerRadius: number;
+	/** Lines and arrows only */
+	startHead: ArrowHead;
+	endHead: ArrowHead;
+	/** Polygons and stars only */
+	sides: number;
+	innerRatio: number;
+}
+
+export const SHAPE_LABELS: Record<ShapeKind, string> = {
+	rect: "矩形",
+	ellipse: "椭圆",
+	line: "直线",
+	arrow: "箭头",
+	polygon: "多边形",
+	star: "星形",
+};
+
+export const SHAPE_KINDS = Object.keys(SHAPE_LABELS) as ShapeKind[];
+
+export const SHAPE_DASH_LABELS: Record<ShapeDash, string> = {
+	solid: "实线",
+	dashed: "虚线",
+	dotted: "点线",
+};
+
+export const SHAPE_DASHES = Object.keys(SHAPE_DASH_LABELS) as ShapeDash[];
+
+export const ARROW_HEAD_LABELS: Record<ArrowHead, string> = {
+	none: "无",
+	triangle: "三角",
+	open: "开放",
+	circle: "圆点",
+	bar: "竖线",
+};
+
+export const ARROW_HEADS = Object.keys(ARROW_HEAD_LABELS) as ArrowHead[];
+
+export const DEFAULT_SHAPE_STROKE = "#ff4d4f";
+
+const DEFAULT_SIDES = 6;
+const DEFAULT_STAR_POINTS = 5;
+const DEFAULT_STAR_INNER_RATIO = 0.45;
+
+/** Triangle heads are this many line widths long */
+const ARROW_HEAD_RATIO = 3;
+const MIN_ARROW_HEAD = 10;
+
+function getArrowHeadSize(strokeWidth: number): number {
+	return Math.max(strokeWidth * ARROW_HEAD_RATIO, MIN_ARROW_HEAD);
+}
+
+/** Where the line stops so a filled head covers its end. */
+function insetForHead(
+	tip: Point,
+	tail: Point,
+	head: ArrowHead,
+	size: number,
+): Point {
+	if (head !== "triangle") return tip;
+	const length = tip.distanceFrom(tail);
+	if (!length) return tip;
+	// Short arrows are all head; the line never crosses its middle
+	const inset = Math.min(size * 0.8, length / 2);
+	return tip.lerp(tail, inset / length);
+}
+
+function traceArrowHead(
+	ctx: CanvasRenderingContext2D,
+	head: ArrowHead,
+	tip: Point,
+	tail: Point,
+	size: number,
+) {
+	const angle = Math.atan2(tip.y - tail.y, tip.x - tail.x);
+	const along = new Point(Math.cos(angle), Math.sin(angle));
+	const across = new Point(-along.y, along.x);
+	const wing = size * 0.6;
+	const back = tip.subtract(along.scalarMultiply(size));
+
+	ctx.beginPath();
+	switch (head) {
+		case "triangle":
+			ctx.moveTo(tip.x, tip.y);
+			ctx.lineTo(back.x + across.x * wing, back.y + across.y * wing);
+			ctx.lineTo(back.x - across.x * wing, back.y - across.y * wing);
+			ctx.closePath();
+			ctx.fill();
+			break;
+		case "open":
+			ctx.moveTo(back.x + across.x * wing, back.y + across.y * wing);
+			ctx.lineTo(tip.x, tip.y);
+			ctx.lineTo(back.x - across.x * wing, back.y - across.y * wing);
+			ctx.stroke();
+			break;
+		case "circle":
+			ctx.arc(tip.x, tip.y, size * 0.5, 0, Math.PI * 2);
+			ctx.fill();
+			break;
+		case "bar":
+			ctx.moveTo(tip.x + across.x * wing, tip.y + across.y * wing);
+			ctx.lineTo(tip.x - across.x * wing, tip.y - across.y * wing);
+			ctx.stroke();
+			break;
+	}
+}
+
+const moveEndpoint =
+	(index: 0 | 1): TransformActionHandler =>
+	(_, transform, x, y) => {
+		const line = transform.target;
+		if (!(line instanceof ArrowLine)) return false;
+		const point = util.sendPointToPlane(
+			new Point(x, y),
+			undefined,
+			line.group?.calcTransformMatrix(),
+		);
+		const endpoints = line.getEndpoints();
+		endpoints[index] = point;
+		line.setEndpoints(...endpoints);
+		return true;
+	};
+
+function createEndpointControl(index: 0 | 1): Control {
+	return new Control({
+		actionName: "moveLineEndpoint",
+		cursorStyle: "crosshair",
+		positionHandler: (_, __, fabricObject) => {
+			const line = fabricObject as ArrowLine;
+			const { x1, y1, x2, y2 } = line.calcLinePoints();
+			return new Point(index ? x2 : x1, index ? y2 : y1).transform(
+				util.multiplyTransformMatrices(
+					line.getViewportTransform(),
+					line.calcTransformMatrix(),
+				),
+			);
+		},
+		actionHandler: moveEndpoint(index),
+		render: controlsUtils.renderCircleControl,
+	});
+}
+
+export interface ArrowLineProps {
+	startHead: ArrowHead;
+	endHead: ArrowHead;
+}
+
+const ARROW_LINE_DEFAULTS: ArrowLineProps = {
+	startHead: "none",
+	endHead: "none",
+};
+
+/**
+ * A straight line with an optional head at either end. Lines and arrows
+ * are the same class; an arrow is a line with a head. The ends are dragged
+ * directly instead of scaling a box.
+ */
+export class ArrowLine extends Line implements ArrowLineProps {
+	static type = "ArrowLine";
+	static customProperties = ["startHead", "endHead"];
+
+	declare startHead: ArrowHead;
+	declare endHead: ArrowHead;
+
+	constructor(
+		points?: [number, number, number, number],
+		options?: Partial<FabricObjectProps> & Partial<ArrowLineProps>,
+	) {
+		super(points, { ...ARROW_LINE_DEFAULTS, ...options });
+	}
+
+	static createControls() {
+		return {
+			controls: { p1: createEndpointControl(0), p2: createEndpointControl(1) },
+		};
+	}
+
+	/** Both ends in the plane of the line's parent. */
+	getEndpoints(): [Point, Point] {
+		const { x1, y1, x2, y2 } = this.calcLinePoints();
+		const matrix = this.calcOwnMatrix();
+		return [
+			new Point(x1, y1).transform(matrix),
+			new Point(x2, y2).transform(matrix),
+		];
+	}
+
+	/** Moves the ends, dropping any rotation or scale the line had. */
+	setEndpoints(start: XY, end: XY) {
+		this.set({
+			angle: 0,
+			scaleX: 1,
+			scaleY: 1,
+			skewX: 0,
+			skewY: 0,
+			flipX: false,
+			flipY: false,
+		});
+		this.set({ x1: start.x, y1: start.y, x2: end.x, y2: end.y });
+		this.setCoords();
+	}
+
+	_render(ctx: CanvasRenderingContext2D) {
+		const { x1, y1, x2, y2 } = this.calcLinePoints();
+		const start = new Point(x1, y1);
+		const end = new Point(x2, y2);
+		const size = getArrowHeadSize(this.strokeWidth);
+		const from = insetForHead(start, end, this.startHead, size);
+		const to = insetForHead(end, start, this.endHead, size);
+
+		ctx.beginPath();
+		ctx.moveTo(from.x, from.y);
+		ctx.lineTo(to.x, to.y);
+		this._renderStroke(ctx);
+
+		if (!this.stroke || !this.strokeWidth) return;
+		ctx.save();
+		this._setStrokeStyles(ctx, this);
+		// Heads stay solid on dashed lines
+		ctx.setLineDash([]);
+		ctx.lineJoin = "round";
+		ctx.fillStyle = ctx.strokeStyle;
+		if (this.startHead !== "none") {
+			traceArrowHead(ctx, this.startHead, start, end, size);
+		}
+		if (this.endHead !== "none") {
+			traceArrowHead(ctx, this.endHead, end, start, size);
+		}
+		ctx.restore();
+	}
+}
+
+classRegistry.setClass(ArrowLine);
+
+export interface RegularPolygonProps {
+	/** Corners of a polygon, or points of a star */
+	sides: number;
+	/** Inner corners of a star against its tips; 1 makes a plain polygon */
+	innerRatio: number;
+	/** Distance from the centre to each corner, before scaling */
+	radius: number;
+}
+
+function buildRegularPolygonPoints({
+	sides,
+	innerRatio,
+	radius,
+}: RegularPolygonProps): XY[] {
+	const star = innerRatio < 1;
+	const count = star ? sides * 2 : sides;
+	const step = (Math.PI * 2) / count;
+	return Array.from({ length: count }, (_, i) => {
+		const r = star && i % 2 ? radius * innerRatio : radius;
+		// The first corner points straight up
+		const angle = i * step - Math.PI / 2;
+		return { x: r * Math.cos(angle), y: r * Math.sin(angle) };
+	});
+}
+
+/** Polygons and stars, rebuilt from their corner count rather than points. */
+export class RegularPolygon extends Polygon implements RegularPolygonProps {
+	static type = "RegularPolygon";
+	static customProperties = ["sides", "innerRatio", "radius"];
+
+	declare sides: number;
+	declare innerRatio: number;
+	declare radius: number;
+
+	constructor(
+		points?: XY[],
+		options?: Partial<FabricObjectProps> & Partial<RegularPolygonProps>,
+	) {
+		const props: RegularPolygonProps = {
+			sides: options?.sides ?? DEFAULT_SIDES,
+			innerRatio: options?.innerRatio ?? 1,
+			radius: options?.radius ?? 100,
+		};
+		super(points?.length ? points : buildRegularPolygonPoints(props), {
+			...options,
+			...props,
+		});
+	}
+
+	/** Rebuilds the corners, keeping the centre of the shape in place. */
+	setShape(patch: Partial<RegularPolygonProps>) {
+		const pivot = () =>
+			new Point(0, 0).subtract(this.pathOffset).transform(this.calcOwnMatrix());
+		const before = pivot();
+		this.set(patch);
+		this.set({ points: buildRegularPolygonPoints(this) });
+		this.setDimensions();
+		const shift = before.subtract(pivot());
+		this.set({ left: this.left + shift.x, top: this.top + shift.y });
+		this.setCoords();
+	}
+}
+
+classRegistry.setClass(RegularPolygon);
+
+export type ShapeObject = Rect | Ellipse | ArrowLine | RegularPolygon;
+
+export function isShapeObject(obj: FabricObject | null): obj is ShapeObject {
+	return (
+		obj instanceof Rect ||
+		obj instanceof Ellipse ||
+		obj instanceof ArrowLine ||
+		obj instanceof RegularPolygon
+	);
+}
+
+export function getShapeKind(obj: ShapeObject): ShapeKind {
+	if (obj instanceof Rect) return "rect";
+	if (obj instanceof Ellipse) return "ellipse";
+	if (obj instanceof ArrowLine) {
+		return obj.startHead === "none" && obj.endHead === "none"
+			? "line"
+			: "arrow";
+	}
+	return obj.innerRatio < 1 ? "star" : "polygon";
+}
+
+function toDashArray(dash: ShapeDash, width: number): number[] | null {
+	if (dash === "solid" || width <= 0) return null;
+	// A zero-length dash with round caps draws a dot
+	return dash === "dotted" ? [0, width * 2] : [width * 3, width * 2];
+}
+
+function readDash(dashArray: number[] | null): ShapeDash {
+	if (!dashArray?.length) return "solid";
+	return dashArray[0] === 0 ? "dotted" : "dashed";
+}
+
+export function readShapeStyle(obj: ShapeObject): ShapeStyle {
+	return {
+		fill: typeof obj.fill === "string" ? obj.fill : null,
+		stroke: typeof obj.stroke === "string" ? obj.stroke : DEFAULT_SHAPE_STROKE,
+		strokeWidth: obj.strokeWidth,
+		dash: readDash(obj.strokeDashArray),
+		opacity: obj.opacity,
+		cornerRadius: obj instanceof Rect ? obj.rx : 0,
+		startHead: obj instanceof ArrowLine ? obj.startHead : "none",
+		endHead: obj instanceof ArrowLine ? obj.endHead : "none",
+		sides: obj instanceof RegularPolygon ? obj.sides : DEFAULT_SIDES,
+		innerRatio: obj instanceof RegularPolygon ? obj.innerRatio : 1,
+	};
+}
+
+export function setShapeStyle(obj: ShapeObject, patch: Partial<ShapeStyle>) {
+	const style = { ...readShapeStyle(obj), ...patch };
+	const line = obj instanceof ArrowLine;
+	obj.set({
+		fill: line ? null : style.fill,
+		stroke: style.stroke,
+		strokeWidth: style.strokeWidth,
+		strokeDashArray: toDashArray(style.dash, style.strokeWidth),
+		strokeLineCap: line || style.dash === "dotted" ? "round" : "butt",
+		opacity: style.opacity,
+	});
+	if (obj instanceof Rect) {
+		const radius = Math.min(style.cornerRadius, obj.width / 2, obj.height / 2);
+		obj.set({ rx: radius, ry: radius });
+	}
+	if (obj instanceof ArrowLine) {
+		obj.set({ startHead: style.startHead, endHead: style.endHead });
+	}
+	if (
+		obj instanceof RegularPolygon &&
+		(style.sides !== obj.sides || style.innerRatio !== obj.innerRatio)
+	) {
+		obj.setShape({ sides: style.sides, innerRatio: style.innerRatio });
+	}
+	obj.setCoords();
+}
+
+/** A new shape `size` across, centred on the origin. */
+export function createShape(kind: ShapeKind, size: number): ShapeObject {
+	const options = {
+		originX: "center",
+		originY: "center",
+		strokeUniform: true,
+		objectCaching: false,
+	} as const;
+	const half = size / 2;
+
+	let shape: ShapeObject;
+	switch (kind) {
+		case "rect":
+			shape = new Rect({ ...options, width: size * 1.4, height: size });
+			break;
+		case "ellipse":
+			shape = new Ellipse({ ...options, rx: half * 1.4, ry: half });
+			break;
+		case "line":
+		case "arrow":
+			shape = new ArrowLine([-half, 0, half, 0], {
+				...options,
+				endHead: kind === "arrow" ? "triangle" : "none",
+			});
+			break;
+		case "polygon":
+		case "star": {
+			const star = kind === "star";
+			shape = new RegularPolygon([], {
+				...options,
+				sides: star ? DEFAULT_STAR_POINTS : DEFAULT_SIDES,
+				innerRatio: star ? DEFAULT_STAR_INNER_RATIO : 1,
+				radius: half,
+			});
+			break;
+		}
+	}
+
+	setShapeStyle(shape, {
+		fill: null,
+		stroke: DEFAULT_SHAPE_STROKE,
+		strokeWidth: Math.max(2, Math.round(size / 40)),
+		dash: "solid",
+	});
+	return shape;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+	eventToShortcut,
+	formatShortcut,
+	isTypingTarget,
+} from "@/lib/shortcuts";
+
+const keydown = (init: KeyboardEventInit) =>
+	eventToShortcut(new KeyboardEvent("keydown", init));
+
+describe("eventToShortcut", () => {
+	it("joins modifiers in a fixed order", () => {
+		expect(
+			keydown({ key: "z", code: "KeyZ", ctrlKey: true, shiftKey: true }),
+		).toBe("Mod+Shift+Z");
+		expect(
+			keydown({ key: "d", code: "KeyD", altKey: true, shiftKey: true }),
+		).toBe("Alt+Shift+D");
+	});
+
+	it("treats Ctrl and ⌘ alike", () => {
+		expect(keydown({ key: "k", code: "KeyK", metaKey: true })).toBe("Mod+K");
+	});
+
+	it("uses the physical key for letters and digits", () => {
+		expect(keydown({ key: "Z", code: "KeyZ", shiftKey: true })).toBe(
+			"Shift+Z",
+		);
+		expect(keydown({ key: "!", code: "Digit1", shiftKey: true })).toBe(
+			"Shift+1",
+		);
+		// An IME reports "Process" for the key but keeps the code
+		expect(keydown({ key: "Process", code: "KeyA" })).toBe("A");
+	});
+
+	it("names punctuation and named keys", () => {
+		expect(keydown({ key: "+", code: "Equal", ctrlKey: true })).toBe("Mod+=");
+		expect(keydown({ key: "_", code: "Minus", ctrlKey: true })).toBe("Mod+-");
+		expect(keydown({ key: "[", code: "BracketLeft" })).toBe("[");
+		expect(keydown({ key: " ", code: "Space" })).toBe("Space");
+		expect(keydown({ key: "ArrowLeft", code: "ArrowLeft" })).toBe(
+			"ArrowLeft",
+		);
+	});
+
+	it("ignores a lone modifier", () => {
+		expect(keydown({ key: "Shift", code: "ShiftLeft", shiftKey: true })).toBe(
+			null,
+		);
+		expect(keydown({ key: "Control", code: "ControlLeft" })).toBe(null);
+	});
+});
+
+describe("formatShortcut", () => {
+	it("spells out modifiers and arrows off macOS", () => {
+		expect(formatShortcut("Mod+Shift+Z")).toBe("Ctrl+Shift+Z");
+		expect(formatShortcut("Alt+ArrowLeft")).toBe("Alt+←");
+		expect(formatShortcut("Escape")).toBe("Esc");
+	});
+});
+
+describe("isTypingTarget", () => {
+	it("is true for form fields", () => {
+		expect(isTypingTarget(document.createElement("input"))).toBe(true);
+		expect(isTypingTarget(document.createElement("textarea"))).toBe(true);
+		expect(isTypingTarget(document.createElement("select"))).toBe(true);
+	});
+
+	it("is false for anything else", () => {
+		expect(isTypingTarget(document.createElement("button"))).toBe(false);
+		expect(isTypingTarget(window)).toBe(false);
+		expect(isTypingTarget(null)).toBe(false);
+	});
+});
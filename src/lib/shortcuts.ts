@@ -0,0 +1,66 @@
+/**
+ * Shortcuts are stored as "+"-joined strings such as "Mod+Shift+Z".
+ * "Mod" stands for Ctrl on Windows/Linux and ⌘ on macOS.
+ */
+
+const MODIFIER_KEYS = new Set(["Control", "Meta", "Shift", "Alt"]);
+
+const IS_MAC =
+	typeof navigator !== "undefined" &&
+	/Mac|iPhone|iPad/.test(navigator.platform);
+
+export function isTypingTarget(target: EventTarget | null): boolean {
+	if (!(target instanceof HTMLElement)) return false;
+	if (target.isContentEditable) return true;
+
+	const tag = target.tagName.toLowerCase();
+	return tag === "input" || tag === "textarea" || tag === "select";
+}
+
+function getEventKey(event: KeyboardEvent): string | null {
+	if (MODIFIER_KEYS.has(event.key)) return null;
+	// Use the physical key for letters/digits so Shift or IME layouts don't matter
+	if (event.code.startsWith("Key")) return event.code.slice(3);
+	if (event.code.startsWith("Digit")) return event.code.slice(5);
+	if (event.code === "Space") return "Space";
+	if (event.code === "Equal") return "=";
+	if (event.code === "Minus") return "-";
+	if (event.code === "BracketLeft") return "[";
+	if (event.code === "BracketRight") return "]";
+	if (event.key.length === 1) return event.key.toUpperCase();
+	return event.key;
+}
+
+export function eventToShortcut(event: KeyboardEvent): string | null {
+	const key = getEventKey(event);
+	if (!key) return null;
+
+	const parts: string[] = [];
+	if (event.ctrlKey || event.metaKey) parts.push("Mod");
+	if (event.altKey) parts.push("Alt");
+	if (event.shiftKey) parts.push("Shift");
+	parts.push(key);
+	return parts.join("+");
+}
+
+const KEY_LABELS: Record<string, string> = {
+	ArrowLeft: "←",
+	ArrowRight: "→",
+	ArrowUp: "↑",
+	ArrowDown: "↓",
+	Backspace: "⌫",
+	Delete: "Del",
+	Escape: "Esc",
+};
+
+export function formatShortcut(shortcut: string): string {
+	return shortcut
+		.split("+")
+		.map((part) => {
+			if (part === "Mod") return IS_MAC ? "⌘" : "Ctrl";
+			if (part === "Alt") return IS_MAC ? "⌥" : "Alt";
+			if (part === "Shift") return IS_MAC ? "⇧" : "Shift";
+			return KEY_LABELS[part] ?? part;
+		})
+		.join(IS_MAC ? "" : "+");
+}
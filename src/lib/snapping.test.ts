@@ -0,0 +1,202 @@
+import { Rect } from "fabric";
+import { describe, expect, it } from "vitest";
+import {
+	findLineMatches,
+	getLineCandidates,
+	getSnapThreshold,
+	rectFromObject,
+	type SnapContext,
+	type SnapRect,
+	snapEdge,
+	snapMovingRect,
+} from "@/lib/snapping";
+
+const rect = (left: number, top: number, size = 20): SnapRect => ({
+	left,
+	top,
+	right: left + size,
+	bottom: top + size,
+});
+
+function context(patch: Partial<SnapContext> = {}): SnapContext {
+	return { targets: [], width: 400, height: 300, threshold: 6, ...patch };
+}
+
+describe("findLineMatches", () => {
+	const candidates = [
+		{ position: 100, rect: null },
+		{ position: 110, rect: null },
+	];
+
+	it("picks the nearest candidate", () => {
+		expect(findLineMatches([104], candidates, 6)).toEqual([
+			{ offset: -4, position: 100, rect: null },
+		]);
+		expect(findLineMatches([107], candidates, 6)).toEqual([
+			{ offset: 3, position: 110, rect: null },
+		]);
+	});
+
+	it("includes a candidate exactly at the threshold", () => {
+		expect(findLineMatches([94], candidates, 6)).toHaveLength(1);
+		expect(findLineMatches([93.9], candidates, 6)).toEqual([]);
+	});
+
+	it("keeps every candidate at the same distance", () => {
+		const matches = findLineMatches([105], candidates, 6);
+		expect(matches.map((match) => match.position)).toEqual([100, 110]);
+	});
+
+	it("compares every value of the moving rect", () => {
+		const [match] = findLineMatches([50, 98, 150], candidates, 6);
+		expect(match).toEqual({ offset: 2, position: 100, rect: null });
+	});
+});
+
+describe("getLineCandidates", () => {
+	it("offers the canvas edges and centre, extra lines and target lines", () => {
+		const target = rect(40, 60);
+		const candidates = getLineCandidates(
+			context({ targets: [target], extraLines: { x: [25], y: [] } }),
+			"x",
+		);
+		expect(candidates).toEqual([
+			{ position: 0, rect: null },
+			{ position: 200, rect: null },
+			{ position: 400, rect: null },
+			{ position: 25, rect: null },
+			{ position: 40, rect: target },
+			{ position: 50, rect: target },
+			{ position: 60, rect: target },
+		]);
+	});
+
+	it("uses the height on the y axis", () => {
+		const positions = getLineCandidates(context(), "y").map(
+			(candidate) => candidate.position,
+		);
+		expect(positions).toEqual([0, 150, 300]);
+	});
+});
+
+describe("snapMovingRect", () => {
+	it("snaps an edge to a target's edge", () => {
+		const target = rect(100, 100);
+		const result = snapMovingRect(
+			rect(123, 50),
+			context({ targets: [target] }),
+		);
+		expect(result.dx).toBe(-3);
+		expect(result.dy).toBe(0);
+		expect(result.guides).toContainEqual({
+			kind: "line",
+			axis: "x",
+			position: 120,
+			start: 50,
+			end: 120,
+		});
+	});
+
+	it("snaps the centre to the canvas centre", () => {
+		const result = snapMovingRect(rect(188, 137), context());
+		expect(result).toMatchObject({ dx: 2, dy: 3 });
+	});
+
+	it("leaves a rect beyond the threshold alone", () => {
+		expect(snapMovingRect(rect(50, 50), context())).toEqual({
+			dx: 0,
+			dy: 0,
+			guides: [],
+		});
+	});
+
+	it("snaps to ruler guides and the grid", () => {
+		const result = snapMovingRect(
+			rect(63, 50),
+			context({ extraLines: { x: [60], y: [] } }),
+		);
+		expect(result.dx).toBe(-3);
+	});
+
+	it("continues the spacing of two targets", () => {
+		const targets = [rect(20, 100), rect(60, 100)];
+		const result = snapMovingRect(rect(102, 100), context({ targets }));
+		expect(result.dx).toBe(-2);
+		expect(result.guides).toContainEqual({
+			kind: "gap",
+			axis: "x",
+			cross: 110,
+			segments: [
+				[40, 60],
+				[80, 100],
+			],
+		});
+	});
+});
+
+describe("snapEdge", () => {
+	it("snaps a resized edge and reports where", () => {
+		const { offset, matches } = snapEdge(396, context(), "x");
+		expect(offset).toBe(4);
+		expect(matches).toEqual([{ offset: 4, position: 400, rect: null }]);
+	});
+
+	it("does not move an edge out of reach", () => {
+		expect(snapEdge(300, context(), "x").offset).toBe(0);
+	});
+});
+
+describe("zoom", () => {
+	it("keeps the snap distance constant on screen", () => {
+		expect(getSnapThreshold(1)).toBe(6);
+		expect(getSnapThreshold(2)).toBe(3);
+		expect(getSnapThreshold(0.5)).toBe(12);
+	});
+
+	it("snaps from further away when zoomed out", () => {
+		const moving = rect(10, 50);
+		const zoomedIn = context({ threshold: getSnapThreshold(2) });
+		const zoomedOut = context({ threshold: getSnapThreshold(0.5) });
+		expect(snapMovingRect(moving, zoomedIn).dx).toBe(0);
+		expect(snapMovingRect(moving, zoomedOut).dx).toBe(-10);
+	});
+});
+
+describe("rectFromObject", () => {
+	it("uses the bounds of a rotated object", () => {
+		const square = new Rect({
+			left: 100,
+			top: 100,
+			width: 100,
+			height: 100,
+			angle: 45,
+			originX: "center",
+			originY: "center",
+			strokeWidth: 0,
+		});
+		const bounds = rectFromObject(square);
+		const halfDiagonal = 50 * Math.SQRT2;
+		expect(bounds.left).toBeCloseTo(100 - halfDiagonal);
+		expect(bounds.right).toBeCloseTo(100 + halfDiagonal);
+		expect(bounds.top).toBeCloseTo(100 - halfDiagonal);
+		expect(bounds.bottom).toBeCloseTo(100 + halfDiagonal);
+	});
+
+	it("snaps a rotated object by its bounds", () => {
+		const square = new Rect({
+			left: 230,
+			top: 50,
+			width: 100,
+			height: 100,
+			angle: 45,
+			originX: "center",
+			originY: "center",
+			strokeWidth: 0,
+		});
+		// The left corner sits 4px right of a target's right edge
+		const bounds = rectFromObject(square);
+		const target = rect(bounds.left - 24, 200);
+		const result = snapMovingRect(bounds, context({ targets: [target] }));
+		expect(result.dx).toBeCloseTo(-4);
+	});
+});
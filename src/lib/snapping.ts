@@ -0,0 +1,375 @@
+import type { FabricObject } from "fabric";
+
+export type SnapAxis = "x" | "y";
+
+export interface SnapRect {
+	left: number;
+	top: number;
+	right: number;
+	bottom: number;
+}
+
+/** A straight alignment guide, e.g. two matching left edges */
+export interface SnapLineGuide {
+	kind: "line";
+	axis: SnapAxis;
+	/** x for vertical lines (axis "x"), y for horizontal lines */
+	position: number;
+	start: number;
+	end: number;
+}
+
+/** Equal-spacing marker: every segment has the same length */
+export interface SnapGapGuide {
+	kind: "gap";
+	axis: SnapAxis;
+	/** Cross-axis coordinate the segments are drawn at */
+	cross: number;
+	segments: Array<[number, number]>;
+}
+
+export type SnapGuide = SnapLineGuide | SnapGapGuide;
+
+export interface SnapResult {
+	dx: number;
+	dy: number;
+	guides: SnapGuide[];
+}
+
+export interface SnapContext {
+	/** Rects of every other object that can be snapped to */
+	targets: SnapRect[];
+	/** Canvas size in image pixels */
+	width: number;
+	height: number;
+	/** Maximum snapping distance in image pixels */
+	threshold: number;
+	/** Extra lines (guides, grid) to snap to, per axis */
+	extraLines?: { x: number[]; y: number[] };
+}
+
+export interface SnapLineMatch {
+	offset: number;
+	position: number;
+	/** Rect the line belongs to; null for canvas / extra lines */
+	rect: SnapRect | null;
+}
+
+interface GapMatch {
+	offset: number;
+	guide: SnapGapGuide;
+}
+
+/** Snap distance in CSS pixels, so it feels the same at every zoom level */
+const SNAP_DISTANCE = 6;
+
+/** The snap distance in image pixels at a display scale. */
+export function getSnapThreshold(displayScale: number): number {
+	return SNAP_DISTANCE / displayScale;
+}
+
+export function rectFromObject(obj: FabricObject): SnapRect {
+	const rect = obj.getBoundingRect();
+	return {
+		left: rect.left,
+		top: rect.top,
+		right: rect.left + rect.width,
+		bottom: rect.top + rect.height,
+	};
+}
+
+function translateRect(rect: SnapRect, dx: number, dy: number): SnapRect {
+	return {
+		left: rect.left + dx,
+		top: rect.top + dy,
+		right: rect.right + dx,
+		bottom: rect.bottom + dy,
+	};
+}
+
+function axisStart(rect: SnapRect, axis: SnapAxis) {
+	return axis === "x" ? rect.left : rect.top;
+}
+
+function axisEnd(rect: SnapRect, axis: SnapAxis) {
+	return axis === "x" ? rect.right : rect.bottom;
+}
+
+function axisLines(rect: SnapRect, axis: SnapAxis): number[] {
+	const start = axisStart(rect, axis);
+	const end = axisEnd(rect, axis);
+	return [start, (start + end) / 2, end];
+}
+
+function crossAxis(axis: SnapAxis): SnapAxis {
+	return axis === "x" ? "y" : "x";
+}
+
+function overlapsOnCross(a: SnapRect, b: SnapRect, axis: SnapAxis) {
+	const cross = crossAxis(axis);
+	return (
+		axisStart(a, cross) < axisEnd(b, cross) &&
+		axisStart(b, cross) < axisEnd(a, cross)
+	);
+}
+
+/** Snaps any of `values` to the nearest candidate line within threshold. */
+export function findLineMatches(
+	values: number[],
+	candidates: Array<{ position: number; rect: SnapRect | null }>,
+	threshold: number,
+): SnapLineMatch[] {
+	let best = threshold;
+	let matches: SnapLineMatch[] = [];
+	for (const value of values) {
+		for (const candidate of candidates) {
+			const offset = candidate.position - value;
+			const distance = Math.abs(offset);
+			if (distance > best + 1e-6) continue;
+			if (distance < best - 1e-6) {
+				best = distance;
+				matches = [];
+			}
+			matches.push({ offset, ...candidate });
+		}
+	}
+	return matches;
+}
+
+export function getLineCandidates(context: SnapContext, axis: SnapAxis) {
+	const size = axis === "x" ? context.width : context.height;
+	const candidates: Array<{ position: number; rect: SnapRect | null }> = [
+		{ position: 0, rect: null },
+		{ position: size / 2, rect: null },
+		{ position: size, rect: null },
+	];
+	for (const position of context.extraLines?.[axis] ?? []) {
+		candidates.push({ position, rect: null });
+	}
+	for (const rect of context.targets) {
+		for (const position of axisLines(rect, axis)) {
+			candidates.push({ position, rect });
+		}
+	}
+	return candidates;
+}
+
+function findGapMatch(
+	moving: SnapRect,
+	context: SnapContext,
+	axis: SnapAxis,
+): GapMatch | null {
+	const cross = crossAxis(axis);
+	const row = context.targets
+		.filter((rect) => overlapsOnCross(rect, moving, axis))
+		.sort((a, b) => axisStart(a, axis) - axisStart(b, axis));
+	const size = axisEnd(moving, axis) - axisStart(moving, axis);
+	const crossStart = Math.max(
+		axisStart(moving, cross),
+		...row.map((rect) => axisStart(rect, cross)),
+	);
+	const crossEnd = Math.min(
+		axisEnd(moving, cross),
+		...row.map((rect) => axisEnd(rect, cross)),
+	);
+	const crossCenter = (crossStart + crossEnd) / 2;
+
+	let best: GapMatch | null = null;
+	const consider = (
+		start: number,
+		segments: (movingStart: number) => Array<[number, number]>,
+	) => {
+		const offset = start - axisStart(moving, axis);
+		if (Math.abs(offset) > context.threshold) return;
+		if (best && Math.abs(best.offset) <= Math.abs(offset)) return;
+		best = {
+			offset,
+			guide: {
+				kind: "gap",
+				axis,
+				cross: crossCenter,
+				segments: segments(start),
+			},
+		};
+	};
+
+	for (let i = 0; i < row.length - 1; i += 1) {
+		const a = row[i] as SnapRect;
+		const b = row[i + 1] as SnapRect;
+		const gap = axisStart(b, axis) - axisEnd(a, axis);
+		if (gap <= 0) continue;
+
+		// Continue the a → b spacing after b and before a
+		consider(axisEnd(b, axis) + gap, (start) => [
+			[axisEnd(a, axis), axisStart(b, axis)],
+			[axisEnd(b, axis), start],
+		]);
+		consider(axisStart(a, axis) - gap - size, (start) => [
+			[start + size, axisStart(a, axis)],
+			[axisEnd(a, axis), axisStart(b, axis)],
+		]);
+
+		// Centre between a and b
+		const free = gap - size;
+		if (free > 0) {
+			consider(axisEnd(a, axis) + free / 2, (start) => [
+				[axisEnd(a, axis), start],
+				[start + size, axisStart(b, axis)],
+			]);
+		}
+	}
+	return best;
+}
+
+function buildLineGuides(
+	moving: SnapRect,
+	matches: SnapLineMatch[],
+	context: SnapContext,
+	axis: SnapAxis,
+): SnapLineGuide[] {
+	const cross = crossAxis(axis);
+	const crossSize = axis === "x" ? context.height : context.width;
+	const byPosition = new Map<number, SnapLineGuide>();
+	for (const match of matches) {
+		const key = Math.round(match.position * 100) / 100;
+		const rect = match.rect;
+		const start = rect
+			? Math.min(axisStart(moving, cross), axisStart(rect, cross))
+			: 0;
+		const end = rect
+			? Math.max(axisEnd(moving, cross), axisEnd(rect, cross))
+			: crossSize;
+		const existing = byPosition.get(key);
+		if (existing) {
+			existing.start = Math.min(existing.start, start);
+			existing.end = Math.max(existing.end, end);
+		} else {
+			byPosition.set(key, {
+				kind: "line",
+				axis,
+				position: match.position,
+				start,
+				end,
+			});
+		}
+	}
+	return [...byPosition.values()];
+}
+
+function snapAxis(
+	moving: SnapRect,
+	context: SnapContext,
+	axis: SnapAxis,
+): { offset: number; guides: SnapGuide[] } {
+	const lineMatches = findLineMatches(
+		axisLines(moving, axis),
+		getLineCandidates(context, axis),
+		context.threshold,
+	);
+	const gapMatch = findGapMatch(moving, context, axis);
+	const lineOffset = lineMatches[0]?.offset;
+
+	if (
+		gapMatch &&
+		(lineOffset === undefined ||
+			Math.abs(gapMatch.offset) < Math.abs(lineOffset) - 1e-6)
+	) {
+		return { offset: gapMatch.offset, guides: [gapMatch.guide] };
+	}
+	if (lineOffset === undefined) return { offset: 0, guides: [] };
+
+	const guides: SnapGuide[] = [];
+	if (gapMatch && Math.abs(gapMatch.offset - lineOffset) < 1e-6) {
+		guides.push(gapMatch.guide);
+	}
+	const snapped =
+		axis === "x"
+			? translateRect(moving, lineOffset, 0)
+			: translateRect(moving, 0, lineOffset);
+	guides.push(...buildLineGuides(snapped, lineMatches, context, axis));
+	return { offset: lineOffset, guides };
+}
+
+/** Computes how far a dragged rect should shift to snap, plus its guides. */
+export function snapMovingRect(
+	moving: SnapRect,
+	context: SnapContext,
+): SnapResult {
+	const x = snapAxis(moving, context, "x");
+	const shifted = translateRect(moving, x.offset, 0);
+	const y = snapAxis(shifted, context, "y");
+	// Horizontal guides were computed before the vertical shift; redo them.
+	const final = translateRect(moving, x.offset, y.offset);
+	const xGuides = snapAxis(final, { ...context, threshold: 1e-3 }, "x").guides;
+	return { dx: x.offset, dy: y.offset, guides: [...xGuides, ...y.guides] };
+}
+
+/** Snaps a single edge being dragged by a resize handle. */
+export function snapEdge(
+	value: number,
+	context: SnapContext,
+	axis: SnapAxis,
+): { offset: number; matches: SnapLineMatch[] } {
+	const matches = findLineMatches(
+		[value],
+		getLineCandidates(context, axis),
+		context.threshold,
+	);
+	return { offset: matches[0]?.offset ?? 0, matches };
+}
+
+export function edgeGuides(
+	moving: SnapRect,
+	matches: SnapLineMatch[],
+	context: SnapContext,
+	axis: SnapAxis,
+): SnapLineGuide[] {
+	return buildLineGuides(moving, matches, context, axis);
+}
+
+const GUIDE_COLOR = "#f43f5e";
+const GAP_TICK = 4;
+
+/** Draws guides in image-pixel coordinates; `pixelSize` is one CSS pixel. */
+export function drawSnapGuides(
+	ctx: CanvasRenderingContext2D,
+	guides: SnapGuide[],
+	pixelSize: number,
+) {
+	ctx.save();
+	ctx.strokeStyle = GUIDE_COLOR;
+	ctx.lineWidth = pixelSize;
+	ctx.beginPath();
+	for (const guide of guides) {
+		if (guide.kind === "line") {
+			if (guide.axis === "x") {
+				ctx.moveTo(guide.position, guide.start);
+				ctx.lineTo(guide.position, guide.end);
+			} else {
+				ctx.moveTo(guide.start, guide.position);
+				ctx.lineTo(guide.end, guide.position);
+			}
+			continue;
+		}
+		const tick = GAP_TICK * pixelSize;
+		for (const [from, to] of guide.segments) {
+			if (guide.axis === "x") {
+				ctx.moveTo(from, guide.cross);
+				ctx.lineTo(to, guide.cross);
+				ctx.moveTo(from, guide.cross - tick);
+				ctx.lineTo(from, guide.cross + tick);
+				ctx.moveTo(to, guide.cross - tick);
+				ctx.lineTo(to, guide.cross + tick);
+			} else {
+				ctx.moveTo(guide.cross, from);
+				ctx.lineTo(guide.cross, to);
+				ctx.moveTo(guide.cross - tick, from);
+				ctx.lineTo(guide.cross + tick, from);
+				ctx.moveTo(guide.cross - tick, to);
+				ctx.lineTo(guide.cross + tick, to);
+			}
+		}
+	}
+	ctx.stroke();
+	ctx.restore();
+}
@@ -0,0 +1,410 @@
+import type { FabricObject, FabricText, IText, TextStyle } from "fabric";
+import { getObjectEffects } from "@/lib/canvas-snapshot";
+
+export type TextEffectKind =
+	| "stroke"
+	| "glow"
+	| "drop-shadow"
+	| "inner-shadow"
+	| "long-shadow";
+
+interface TextEffectBase {
+	id: string;
+	enabled: boolean;
+	color: string;
+	/** 0–1 */
+	opacity: number;
+}
+
+/** Outer stroke; stacked strokes sit outside the ones listed before them */
+export interface StrokeEffect extends TextEffectBase {
+	kind: "stroke";
+	width: number;
+}
+
+export interface GlowEffect extends TextEffectBase {
+	kind: "glow";
+	blur: number;
+}
+
+export interface ShadowEffect extends TextEffectBase {
+	kind: "drop-shadow" | "inner-shadow";
+	/** Direction the shadow falls in, 0 = right, 90 = down */
+	angle: number;
+	distance: number;
+	blur: number;
+}
+
+/** Solid extrusion, like a shadow repeated along its direction */
+export interface LongShadowEffect extends TextEffectBase {
+	kind: "long-shadow";
+	angle: number;
+	length: number;
+}
+
+/**
+ * One layer of a text's effect stack. The stack is ordered from the text
+ * outwards: each layer is drawn behind the ones before it, and shadows and
+ * glows are cast by the text together with the strokes listed before them.
+ * Inner shadows are drawn over the fill.
+ */
+export type TextEffect =
+	| StrokeEffect
+	| GlowEffect
+	| ShadowEffect
+	| LongShadowEffect;
+
+export const TEXT_EFFECT_LABELS: Record<TextEffectKind, string> = {
+	stroke: "描边",
+	glow: "外发光",
+	"drop-shadow": "投影",
+	"inner-shadow": "内阴影",
+	"long-shadow": "长投影",
+};
+
+export const TEXT_EFFECT_KINDS = Object.keys(
+	TEXT_EFFECT_LABELS,
+) as TextEffectKind[];
+
+/** Shadows drawn this far off-canvas leave only their shadow visible */
+const OFFSCREEN_SHIFT = 100000;
+const LONG_SHADOW_MAX_STEPS = 96;
+
+let effectSeq = 0;
+
+function createEffectId() {
+	effectSeq += 1;
+	return `effect-${Date.now().toString(36)}-${effectSeq}`;
+}
+
+const DEFAULT_EFFECT_COLORS: Record<TextEffectKind, string> = {
+	stroke: "#ffffff",
+	glow: "#ffe27a",
+	"drop-shadow": "#000000",
+	"inner-shadow": "#000000",
+	"long-shadow": "#000000",
+};
+
+export function createTextEffect(
+	kind: TextEffectKind,
+	color = DEFAULT_EFFECT_COLORS[kind],
+): TextEffect {
+	const base = { id: createEffectId(), enabled: true, color };
+	switch (kind) {
+		case "stroke":
+			return { ...base, kind, opacity: 1, width: 6 };
+		case "glow":
+			return { ...base, kind, opacity: 1, blur: 16 };
+		case "drop-shadow":
+		case "inner-shadow":
+			return {
+				...base,
+				kind,
+				opacity: kind === "drop-shadow" ? 0.6 : 0.5,
+				angle: 45,
+				distance: kind === "drop-shadow" ? 8 : 4,
+				blur: kind === "drop-shadow" ? 6 : 4,
+			};
+		case "long-shadow":
+			return { ...base, kind, opacity: 1, angle: 45, length: 24 };
+	}
+}
+
+/** Copies a stack with fresh ids, e.g. for a new text. */
+export function cloneTextEffects(effects: TextEffect[]): TextEffect[] {
+	return effects.map((effect) => ({ ...effect, id: createEffectId() }));
+}
+
+export const DEFAULT_TEXT_EFFECTS: TextEffect[] = [
+	{ ...(createTextEffect("stroke") as StrokeEffect), width: 7 },
+];
+
+interface LegacyTextStroke {
+	stroke: string | null;
+	strokeWidth: number;
+	shadowColor: string | null;
+	shadowBlur: number;
+}
+
+/**
+ * Effects matching the single stroke / centred shadow texts had before the
+ * effect stack; fabric draws half of a stroke outside the glyphs.
+ */
+export function legacyTextEffects({
+	stroke,
+	strokeWidth,
+	shadowColor,
+	shadowBlur,
+}: LegacyTextStroke): TextEffect[] {
+	const effects: TextEffect[] = [];
+	if (stroke && strokeWidth > 0) {
+		effects.push({
+			...(createTextEffect("stroke", stroke) as StrokeEffect),
+			width: strokeWidth / 2,
+		});
+	}
+	if (shadowColor && shadowBlur > 0) {
+		effects.push({
+			...(createTextEffect("glow", shadowColor) as GlowEffect),
+			blur: shadowBlur,
+		});
+	}
+	return effects;
+}
+
+/** The text's effect stack, or its legacy stroke and shadow as one. */
+export function getTextEffects(text: IText): TextEffect[] {
+	const effects = getObjectEffects(text);
+	if (effects) return effects;
+	const { shadow } = text;
+	return legacyTextEffects({
+		stroke: typeof text.stroke === "string" ? text.stroke : null,
+		strokeWidth: text.strokeWidth ?? 0,
+		shadowColor: typeof shadow?.color === "string" ? shadow.color : null,
+		shadowBlur: shadow?.blur ?? 0,
+	});
+}
+
+function getDirection(angle: number, distance: number) {
+	const radians = (angle * Math.PI) / 180;
+	return { x: Math.cos(radians) * distance, y: Math.sin(radians) * distance };
+}
+
+/** How many device pixels one unit of the current transform spans */
+function getDeviceScale(m: DOMMatrix) {
+	return Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+}
+
+function withoutPaintStyles(styles: TextStyle): TextStyle {
+	const next: TextStyle = {};
+	for (const [line, chars] of Object.entries(styles)) {
+		next[line] = {};
+		for (const [char, style] of Object.entries(chars)) {
+			const rest = { ...style };
+			delete rest.fill;
+			delete rest.stroke;
+			delete rest.strokeWidth;
+			next[line][char] = rest;
+		}
+	}
+	return next;
+}
+
+/** The parts of a text that effects read, or swap while they draw it */
+type EffectText = FabricObject &
+	Pick<
+		FabricText,
+		| "fill"
+		| "stroke"
+		| "strokeWidth"
+		| "strokeLineJoin"
+		| "strokeDashArray"
+		| "paintFirst"
+		| "shadow"
+		| "styles"
+	>;
+
+/** Paints a text's own fill and stroke, i.e. its class's `_renderText`. */
+export type TextPainter = (ctx: CanvasRenderingContext2D) => void;
+
+/**
+ * Draws the glyphs in one solid colour, grown by `outset` on every side.
+ * Per-character sizes and fonts are kept; their colours are not.
+ */
+function renderSilhouette(
+	text: EffectText,
+	ctx: CanvasRenderingContext2D,
+	paint: TextPainter,
+	color: string,
+	outset: number,
+) {
+	const saved = {
+		fill: text.fill,
+		stroke: text.stroke,
+		strokeWidth: text.strokeWidth,
+		strokeLineJoin: text.strokeLineJoin,
+		strokeDashArray: text.strokeDashArray,
+		paintFirst: text.paintFirst,
+		shadow: text.shadow,
+		styles: text.styles,
+	};
+	Object.assign(text, {
+		fill: color,
+		stroke: outset > 0 ? color : null,
+		strokeWidth: outset * 2,
+		strokeLineJoin: "round",
+		strokeDashArray: null,
+		paintFirst: "stroke",
+		shadow: null,
+		styles: withoutPaintStyles(text.styles),
+	});
+	try {
+		paint(ctx);
+	} finally {
+		Object.assign(text, saved);
+	}
+}
+
+/** Draws only the shadow of `draw`, offset by (`dx`, `dy`) text units. */
+function castShadow(
+	ctx: CanvasRenderingContext2D,
+	color: string,
+	blur: number,
+	dx: number,
+	dy: number,
+	draw: () => void,
+) {
+	const m = ctx.getTransform();
+	ctx.save();
+	// Shadow offset and blur ignore the transform, so convert them here
+	ctx.setTransform(m.a, m.b, m.c, m.d, m.e + OFFSCREEN_SHIFT, m.f);
+	ctx.shadowColor = color;
+	ctx.shadowBlur = blur * getDeviceScale(m);
+	ctx.shadowOffsetX = m.a * dx + m.c * dy - OFFSCREEN_SHIFT;
+	ctx.shadowOffsetY = m.b * dx + m.d * dy;
+	draw();
+	ctx.restore();
+}
+
+function renderOuterEffect(
+	text: EffectText,
+	ctx: CanvasRenderingContext2D,
+	paint: TextPainter,
+	effect: TextEffect,
+	inner: number,
+	outer: number,
+) {
+	ctx.save();
+	ctx.globalAlpha *= effect.opacity;
+	const silhouette = () =>
+		renderSilhouette(text, ctx, paint, effect.color, inner);
+	switch (effect.kind) {
+		case "stroke":
+			renderSilhouette(text, ctx, paint, effect.color, outer);
+			break;
+		case "glow":
+			castShadow(ctx, effect.color, effect.blur, 0, 0, silhouette);
+			break;
+		case "drop-shadow": {
+			const { x, y } = getDirection(effect.angle, effect.distance);
+			castShadow(ctx, effect.color, effect.blur, x, y, silhouette);
+			break;
+		}
+		case "long-shadow": {
+			const { angle, length } = effect;
+			const steps = Math.min(LONG_SHADOW_MAX_STEPS, Math.ceil(length));
+			for (let i = steps; i > 0; i--) {
+				const { x, y } = getDirection(angle, (length * i) / steps);
+				ctx.save();
+				ctx.translate(x, y);
+				silhouette();
+				ctx.restore();
+			}
+			break;
+		}
+	}
+	ctx.restore();
+}
+
+function createLayer(width: number, height: number) {
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	const ctx = canvas.getContext("2d");
+	return ctx && { canvas, ctx };
+}
+
+/**
+ * Inner shadow: the shadow of everything around the glyphs, kept only where
+ * it falls on them. Built on layers the size of the text's device bounds.
+ */
+function renderInnerShadow(
+	text: EffectText,
+	ctx: CanvasRenderingContext2D,
+	paint: TextPainter,
+	effect: ShadowEffect,
+) {
+	const m = ctx.getTransform();
+	const pad = effect.distance + effect.blur * 2;
+	const halfWidth = text.width / 2 + pad;
+	const halfHeight = text.height / 2 + pad;
+	const corners = [
+		[-halfWidth, -halfHeight],
+		[halfWidth, -halfHeight],
+		[halfWidth, halfHeight],
+		[-halfWidth, halfHeight],
+	].map(([x = 0, y = 0]) => m.transformPoint({ x, y }));
+	const xs = corners.map((p) => p.x);
+	const ys = corners.map((p) => p.y);
+	const left = Math.max(0, Math.floor(Math.min(...xs)));
+	const top = Math.max(0, Math.floor(Math.min(...ys)));
+	const right = Math.min(ctx.canvas.width, Math.ceil(Math.max(...xs)));
+	const bottom = Math.min(ctx.canvas.height, Math.ceil(Math.max(...ys)));
+	if (right <= left || bottom <= top) return;
+
+	const width = right - left;
+	const height = bottom - top;
+	const mask = createLayer(width, height);
+	const frame = createLayer(width, height);
+	const shadow = createLayer(width, height);
+	if (!mask || !frame || !shadow) return;
+
+	mask.ctx.setTransform(m.a, m.b, m.c, m.d, m.e - left, m.f - top);
+	renderSilhouette(text, mask.ctx, paint, "#000000", 0);
+
+	frame.ctx.fillStyle = "#000000";
+	frame.ctx.fillRect(0, 0, width, height);
+	frame.ctx.globalCompositeOperation = "destination-out";
+	frame.ctx.drawImage(mask.canvas, 0, 0);
+
+	const { x, y } = getDirection(effect.angle, effect.distance);
+	shadow.ctx.setTransform(m.a, m.b, m.c, m.d, 0, 0);
+	castShadow(shadow.ctx, effect.color, effect.blur, x, y, () => {
+		shadow.ctx.setTransform(1, 0, 0, 1, OFFSCREEN_SHIFT, 0);
+		shadow.ctx.drawImage(frame.canvas, 0, 0);
+	});
+	shadow.ctx.setTransform(1, 0, 0, 1, 0, 0);
+	shadow.ctx.globalCompositeOperation = "destination-in";
+	shadow.ctx.drawImage(mask.canvas, 0, 0);
+
+	ctx.save();
+	ctx.setTransform(1, 0, 0, 1, 0, 0);
+	ctx.globalAlpha *= effect.opacity;
+	ctx.drawImage(shadow.canvas, left, top);
+	ctx.restore();
+}
+
+/**
+ * Draws a text's effect stack around its own fill and stroke. The editor's
+ * text classes call this from `_renderText`, passing their inherited one.
+ */
+export function renderTextEffects(
+	text: EffectText,
+	ctx: CanvasRenderingContext2D,
+	paint: TextPainter,
+) {
+	const effects = getObjectEffects(text)?.filter((effect) => effect.enabled);
+	if (!effects?.length) {
+		paint(ctx);
+		return;
+	}
+
+	let radius = 0;
+	const outerLayers = effects.flatMap((effect) => {
+		if (effect.kind === "inner-shadow") return [];
+		const inner = radius;
+		if (effect.kind === "stroke") radius += effect.width;
+		return [{ effect, inner, outer: radius }];
+	});
+	for (const { effect, inner, outer } of outerLayers.reverse()) {
+		renderOuterEffect(text, ctx, paint, effect, inner, outer);
+	}
+
+	paint(ctx);
+
+	for (const effect of effects) {
+		if (effect.kind === "inner-shadow") {
+			renderInnerShadow(text, ctx, paint, effect);
+		}
+	}
+}
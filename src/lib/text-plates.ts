@@ -0,0 +1,252 @@
+import type { FabricObject } from "fabric";
+import { getObjectPlate } from "@/lib/canvas-snapshot";
+
+export type TextPlateShape = "rounded" | "pill" | "scroll" | "seal" | "swash";
+
+/** A shape drawn behind a text, sized to the text's box plus `padding`. */
+export interface TextPlate {
+	shape: TextPlateShape;
+	fill: string;
+	/** 0–1 */
+	opacity: number;
+	/** Space around the text, before scaling */
+	padding: number;
+	borderColor: string;
+	/** 0 draws no border */
+	borderWidth: number;
+}
+
+export const TEXT_PLATE_LABELS: Record<TextPlateShape, string> = {
+	rounded: "圆角矩形",
+	pill: "胶囊",
+	scroll: "卷轴",
+	seal: "印章",
+	swash: "笔刷",
+};
+
+export const TEXT_PLATE_SHAPES = Object.keys(
+	TEXT_PLATE_LABELS,
+) as TextPlateShape[];
+
+export const DEFAULT_TEXT_PLATE: TextPlate = {
+	shape: "rounded",
+	fill: "#1f1a17",
+	opacity: 0.7,
+	padding: 24,
+	borderColor: "#d8b46a",
+	borderWidth: 0,
+};
+
+/** Shapes that look wrong without their own colours get them on first use */
+const PLATE_SHAPE_COLORS: Partial<
+	Record<TextPlateShape, Pick<TextPlate, "fill" | "borderColor">>
+> = {
+	scroll: { fill: "#f1e2bf", borderColor: "#6b4423" },
+	seal: { fill: "#b3261e", borderColor: "#f6e7d8" },
+};
+
+const ROUNDED_CORNER_RATIO = 0.18;
+const SCROLL_ROLLER_RATIO = 0.14;
+const SEAL_FRAME_INSET_RATIO = 0.06;
+const SWASH_SEGMENTS = 24;
+/** How far a swash's bristles reach past its end, per unit of height */
+const SWASH_TAIL_RATIO = 0.3;
+/** Half a swash's height at most, jitter included, per unit of height */
+const SWASH_HALF_HEIGHT_RATIO = 0.58;
+
+export function createTextPlate(
+	shape: TextPlateShape,
+	base: TextPlate = DEFAULT_TEXT_PLATE,
+): TextPlate {
+	return { ...base, shape, ...PLATE_SHAPE_COLORS[shape] };
+}
+
+/** Repeatable jitter in [-1, 1], so swashes keep their shape every frame */
+function jitter(seed: number): number {
+	const value = Math.sin(seed * 127.1 + 311.7) * 43758.5453;
+	return (value - Math.floor(value)) * 2 - 1;
+}
+
+function traceSwash(ctx: CanvasRenderingContext2D, w: number, h: number) {
+	const top: Array<[number, number]> = [];
+	const bottom: Array<[number, number]> = [];
+	for (let i = 0; i <= SWASH_SEGMENTS; i++) {
+		const t = i / SWASH_SEGMENTS;
+		const x = -w / 2 + w * t;
+		// Heavier where the brush lands, thinning into a dry tail
+		const thickness = (h / 2) * Math.min(1, t * 6) * (1 - 0.45 * t ** 2);
+		top.push([x, -thickness + jitter(i) * h * 0.06]);
+		bottom.push([x, thickness + jitter(i + 97) * h * 0.08]);
+	}
+	ctx.beginPath();
+	ctx.moveTo(-w / 2 - h * 0.1, 0);
+	for (const [x, y] of top) ctx.lineTo(x, y);
+	// Bristle streaks at the end of the stroke
+	ctx.lineTo(w / 2 + h * 0.25, -h * 0.12);
+	ctx.lineTo(w / 2 + h * 0.05, 0);
+	ctx.lineTo(w / 2 + h * SWASH_TAIL_RATIO, h * 0.15);
+	for (const [x, y] of bottom.reverse()) ctx.lineTo(x, y);
+	ctx.closePath();
+}
+
+function fillAndStroke(ctx: CanvasRenderingContext2D, plate: TextPlate) {
+	ctx.fillStyle = plate.fill;
+	ctx.fill();
+	if (plate.borderWidth > 0) {
+		ctx.strokeStyle = plate.borderColor;
+		ctx.lineWidth = plate.borderWidth;
+		ctx.stroke();
+	}
+}
+
+function getScrollRoller(h: number): number {
+	return Math.max(6, h * SCROLL_ROLLER_RATIO);
+}
+
+function renderScroll(
+	ctx: CanvasRenderingContext2D,
+	plate: TextPlate,
+	w: number,
+	h: number,
+) {
+	const roller = getScrollRoller(h);
+	ctx.beginPath();
+	ctx.rect(-w / 2 + roller / 2, -h / 2, w - roller, h);
+	fillAndStroke(ctx, plate);
+	// Rollers stick out past the paper at both ends
+	for (const x of [-w / 2, w / 2 - roller]) {
+		ctx.beginPath();
+		ctx.roundRect(x, -h / 2 - roller / 2, roller, h + roller, roller / 2);
+		ctx.fillStyle = plate.borderColor;
+		ctx.fill();
+	}
+}
+
+function renderSeal(
+	ctx: CanvasRenderingContext2D,
+	plate: TextPlate,
+	w: number,
+	h: number,
+) {
+	const side = Math.max(w, h);
+	ctx.beginPath();
+	ctx.roundRect(-side / 2, -side / 2, side, side, side * 0.04);
+	fillAndStroke(ctx, plate);
+	const inset = side * SEAL_FRAME_INSET_RATIO;
+	ctx.beginPath();
+	ctx.rect(
+		-side / 2 + inset,
+		-side / 2 + inset,
+		side - inset * 2,
+		side - inset * 2,
+	);
+	ctx.strokeStyle = plate.borderColor;
+	ctx.lineWidth = Math.max(plate.borderWidth, side * 0.02);
+	ctx.stroke();
+}
+
+/** The plate's length along the text and its thickness across it. */
+function getPlateSize(
+	plate: TextPlate,
+	width: number,
+	height: number,
+	vertical: boolean,
+): [number, number] {
+	return [
+		(vertical ? height : width) + plate.padding * 2,
+		(vertical ? width : height) + plate.padding * 2,
+	];
+}
+
+/** Size options of fabric's `_getTransformedDimensions` */
+interface DimensionOptions {
+	width?: number;
+	height?: number;
+}
+
+/**
+ * `options` with the box grown to hold the text's plate, so selection, hit
+ * testing and the object cache all cover it. Texts pass what they get in
+ * `_getTransformedDimensions` through this.
+ */
+export function includeTextPlate<T extends DimensionOptions>(
+	text: FabricObject,
+	options: T,
+	vertical = false,
+): T {
+	const plate = getObjectPlate(text);
+	if (!plate) return options;
+	const width = options.width ?? text.width;
+	const height = options.height ?? text.height;
+	const [w, h] = getPlateSize(plate, width, height, vertical);
+	let length = w;
+	let thickness = h;
+	switch (plate.shape) {
+		case "scroll":
+			thickness += getScrollRoller(h);
+			break;
+		case "seal":
+			length = Math.max(w, h);
+			thickness = length;
+			break;
+		case "swash":
+			length += h * SWASH_TAIL_RATIO * 2;
+			thickness = h * SWASH_HALF_HEIGHT_RATIO * 2;
+			break;
+	}
+	length += plate.borderWidth;
+	thickness += plate.borderWidth;
+	return {
+		...options,
+		width: Math.max(width, vertical ? thickness : length),
+		height: Math.max(height, vertical ? length : thickness),
+	};
+}
+
+/**
+ * Draws the text's plate, if any, centred on the origin in the text's own
+ * units. Texts call this from `_renderBackground`.
+ */
+export function renderTextPlate(
+	text: FabricObject,
+	ctx: CanvasRenderingContext2D,
+	vertical = false,
+) {
+	const plate = getObjectPlate(text);
+	if (!plate) return;
+	const [w, h] = getPlateSize(plate, text.width, text.height, vertical);
+	ctx.save();
+	ctx.globalAlpha *= plate.opacity;
+	ctx.lineJoin = "round";
+	// Scrolls and swashes run along the text, so vertical text turns them
+	if (vertical) ctx.rotate(Math.PI / 2);
+	switch (plate.shape) {
+		case "rounded":
+			ctx.beginPath();
+			ctx.roundRect(
+				-w / 2,
+				-h / 2,
+				w,
+				h,
+				Math.min(w, h) * ROUNDED_CORNER_RATIO,
+			);
+			fillAndStroke(ctx, plate);
+			break;
+		case "pill":
+			ctx.beginPath();
+			ctx.roundRect(-w / 2, -h / 2, w, h, Math.min(w, h) / 2);
+			fillAndStroke(ctx, plate);
+			break;
+		case "scroll":
+			renderScroll(ctx, plate, w, h);
+			break;
+		case "seal":
+			renderSeal(ctx, plate, w, h);
+			break;
+		case "swash":
+			traceSwash(ctx, w, h);
+			fillAndStroke(ctx, plate);
+			break;
+	}
+	ctx.restore();
+}
@@ -0,0 +1,53 @@
+import type { TextStyleDeclaration } from "fabric";
+import { describe, expect, it } from "vitest";
+import { remapCharStyles } from "@/lib/text-styles";
+
+const red: TextStyleDeclaration = { fill: "#ff0000" };
+const bold: TextStyleDeclaration = { fontWeight: 700 };
+
+describe("remapCharStyles", () => {
+	it("keeps the styles of an unchanged text", () => {
+		expect(remapCharStyles([red, undefined], [..."ab"], [..."ab"])).toEqual([
+			red,
+			undefined,
+		]);
+	});
+
+	it("gives inserted characters the style before them", () => {
+		expect(
+			remapCharStyles([red, bold], [..."ab"], [..."axyb"]),
+		).toEqual([red, red, red, bold]);
+	});
+
+	it("leaves characters inserted at the start unstyled", () => {
+		expect(remapCharStyles([red, bold], [..."ab"], [..."xab"])).toEqual([
+			undefined,
+			red,
+			bold,
+		]);
+	});
+
+	it("drops the styles of deleted characters", () => {
+		expect(
+			remapCharStyles([red, undefined, bold], [..."abc"], [..."ac"]),
+		).toEqual([red, bold]);
+	});
+
+	it("styles a replacement like the character before it", () => {
+		expect(
+			remapCharStyles([red, bold, undefined], [..."abc"], [..."aXc"]),
+		).toEqual([red, red, undefined]);
+	});
+
+	it("does not carry a style across a newline", () => {
+		expect(
+			remapCharStyles([red, undefined], ["a", "\n"], ["a", "\n", "b"]),
+		).toEqual([red, undefined, undefined]);
+	});
+
+	it("copies inherited styles rather than sharing them", () => {
+		const [, inserted] = remapCharStyles([red], ["a"], ["a", "b"]);
+		expect(inserted).toEqual(red);
+		expect(inserted).not.toBe(red);
+	});
+});
@@ -0,0 +1,117 @@
+import type { IText, TextStyle, TextStyleDeclaration } from "fabric";
+import { fromVerticalText, VerticalText } from "@/lib/vertical-text";
+
+/** Properties that can differ between characters of one text */
+export type CharStylePatch = Pick<
+	TextStyleDeclaration,
+	"fill" | "stroke" | "strokeWidth" | "fontFamily" | "fontSize" | "fontWeight"
+>;
+
+export const CHAR_STYLE_KEYS: Array<keyof CharStylePatch> = [
+	"fill",
+	"stroke",
+	"strokeWidth",
+	"fontFamily",
+	"fontSize",
+	"fontWeight",
+];
+
+/** Style of one grapheme of the text as typed; newlines have none */
+type CharStyle = TextStyleDeclaration | undefined;
+
+/** The text as the user typed it, before any vertical cell splitting */
+export function getTypedText(text: IText): string {
+	const value = text.text ?? "";
+	return text instanceof VerticalText ? fromVerticalText(value) : value;
+}
+
+/**
+ * Graphemes of `value` as the user typed it, newlines included. For
+ * vertical text this is the flat text, not the one-cell-per-line layout.
+ */
+export function splitTypedText(text: IText, value: string): string[] {
+	const graphemes: string[] = [];
+	value.split("\n").forEach((line, index) => {
+		if (index > 0) graphemes.push("\n");
+		graphemes.push(...text.graphemeSplit(line));
+	});
+	return graphemes;
+}
+
+/**
+ * Reads `styles` as one entry per typed grapheme, so they can be carried
+ * across changes that reflow lines (vertical cells, layout switches).
+ */
+export function readCharStyles(text: IText): CharStyle[] {
+	const styles: CharStyle[] = [];
+	const vertical = text instanceof VerticalText;
+	(text.text ?? "").split("\n").forEach((line, lineIndex) => {
+		// A vertical line is one cell; only an empty one stands for a newline
+		if (vertical ? !line : lineIndex > 0) styles.push(undefined);
+		const lineStyles = text.styles[lineIndex];
+		text.graphemeSplit(line).forEach((_, charIndex) => {
+			const style = lineStyles?.[charIndex];
+			styles.push(style && { ...style });
+		});
+	});
+	return styles;
+}
+
+/** Inverse of `readCharStyles` for the text's current lines. */
+export function writeCharStyles(text: IText, styles: CharStyle[]) {
+	const next: TextStyle = {};
+	const vertical = text instanceof VerticalText;
+	let index = 0;
+	(text.text ?? "").split("\n").forEach((line, lineIndex) => {
+		if (vertical ? !line : lineIndex > 0) index++;
+		text.graphemeSplit(line).forEach((_, charIndex) => {
+			const style = styles[index++];
+			if (!style || !Object.keys(style).length) return;
+			next[lineIndex] ??= {};
+			next[lineIndex][charIndex] = { ...style };
+		});
+	});
+	text.set({ styles: next });
+}
+
+/**
+ * Keeps styles attached to their characters when the text is replaced:
+ * the unchanged start and end keep theirs and inserted characters take the
+ * style of the character before them, as when typing on the canvas.
+ */
+export function remapCharStyles(
+	styles: CharStyle[],
+	before: string[],
+	after: string[],
+): CharStyle[] {
+	let prefix = 0;
+	while (
+		prefix < before.length &&
+		prefix < after.length &&
+		before[prefix] === after[prefix]
+	) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < before.length - prefix &&
+		suffix < after.length - prefix &&
+		before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+	const inherited =
+		before[prefix - 1] === "\n" ? undefined : styles[prefix - 1];
+	const inserted = after.length - prefix - suffix;
+	return [
+		...styles.slice(0, prefix),
+		...Array.from({ length: inserted }, () => inherited && { ...inherited }),
+		...styles.slice(before.length - suffix),
+	];
+}
+
+export function hasCharStyles(text: IText): boolean {
+	return Object.values(text.styles).some(
+		(line) => Object.keys(line).length > 0,
+	);
+}
@@ -0,0 +1,190 @@
+import { Rect, type TOriginX, type TOriginY } from "fabric";
+import { describe, expect, it } from "vitest";
+import {
+	applyObjectTransform,
+	isTransformFieldMixed,
+	normalizeAngle,
+	type ObjectTransform,
+	readObjectTransform,
+	snapAngle,
+} from "@/lib/transform";
+
+function box(
+	origin: [TOriginX, TOriginY] = ["left", "top"],
+	patch: Partial<Rect> = {},
+): Rect {
+	return new Rect({
+		left: 10,
+		top: 20,
+		width: 100,
+		height: 50,
+		strokeWidth: 0,
+		originX: origin[0],
+		originY: origin[1],
+		...patch,
+	});
+}
+
+function transform(patch: Partial<ObjectTransform> = {}): ObjectTransform {
+	return {
+		x: 0,
+		y: 0,
+		width: 100,
+		height: 50,
+		angle: 0,
+		flipX: false,
+		flipY: false,
+		...patch,
+	};
+}
+
+describe("normalizeAngle / snapAngle", () => {
+	it("wraps angles into [0, 360)", () => {
+		expect(normalizeAngle(370)).toBe(10);
+		expect(normalizeAngle(-90)).toBe(270);
+		expect(normalizeAngle(360)).toBe(0);
+		expect(normalizeAngle(-360)).toBe(0);
+	});
+
+	it("snaps to the nearest step", () => {
+		expect(snapAngle(22)).toBe(15);
+		expect(snapAngle(23)).toBe(30);
+		expect(snapAngle(-7)).toBe(0);
+		expect(snapAngle(-8)).toBe(345);
+		expect(snapAngle(44, 45)).toBe(45);
+	});
+});
+
+describe("readObjectTransform", () => {
+	it("reads the top-left of the bounding box, whatever the origin", () => {
+		expect(readObjectTransform(box())).toMatchObject({ x: 10, y: 20 });
+		expect(readObjectTransform(box(["center", "center"]))).toMatchObject({
+			x: -40,
+			y: -5,
+		});
+		expect(readObjectTransform(box(["right", "bottom"]))).toMatchObject({
+			x: -90,
+			y: -30,
+		});
+	});
+
+	it("reads the scaled, unrotated size", () => {
+		const rotated = box(["center", "center"], {
+			scaleX: 2,
+			angle: 90,
+		});
+		expect(readObjectTransform(rotated)).toMatchObject({
+			width: 200,
+			height: 50,
+			angle: 90,
+		});
+	});
+
+	it("normalises the angle and reads flips", () => {
+		const flipped = box(["left", "top"], { angle: -30, flipX: true });
+		expect(readObjectTransform(flipped)).toMatchObject({
+			angle: 330,
+			flipX: true,
+			flipY: false,
+		});
+	});
+});
+
+describe("applyObjectTransform", () => {
+	it("moves the bounding box to a position, for any origin", () => {
+		for (const origin of [
+			["left", "top"],
+			["center", "center"],
+			["right", "bottom"],
+		] as Array<[TOriginX, TOriginY]>) {
+			const obj = box(origin);
+			applyObjectTransform(obj, { x: 100, y: 200 });
+			expect(readObjectTransform(obj)).toMatchObject({ x: 100, y: 200 });
+		}
+	});
+
+	it("moves one axis at a time", () => {
+		const obj = box();
+		applyObjectTransform(obj, { x: 70 });
+		expect(readObjectTransform(obj)).toMatchObject({ x: 70, y: 20 });
+	});
+
+	it("resizes around the bounding box's top-left", () => {
+		const obj = box(["center", "center"]);
+		applyObjectTransform(obj, { width: 200 });
+		expect(readObjectTransform(obj)).toMatchObject({
+			x: -40,
+			y: -5,
+			width: 200,
+			height: 50,
+		});
+	});
+
+	it("keeps the aspect ratio when asked", () => {
+		const byWidth = box();
+		applyObjectTransform(byWidth, { width: 50 }, true);
+		expect(readObjectTransform(byWidth)).toMatchObject({
+			width: 50,
+			height: 25,
+		});
+
+		const byHeight = box();
+		applyObjectTransform(byHeight, { height: 100 }, true);
+		expect(readObjectTransform(byHeight)).toMatchObject({
+			width: 200,
+			height: 100,
+		});
+	});
+
+	it("ignores sizes that are not positive", () => {
+		const obj = box();
+		applyObjectTransform(obj, { width: 0, height: -5 });
+		expect(readObjectTransform(obj)).toMatchObject({ width: 100, height: 50 });
+	});
+
+	it("rotates around the centre", () => {
+		const obj = box();
+		const before = obj.getCenterPoint();
+		applyObjectTransform(obj, { angle: 450 });
+		const after = obj.getCenterPoint();
+		expect(obj.angle).toBe(90);
+		expect(after.x).toBeCloseTo(before.x);
+		expect(after.y).toBeCloseTo(before.y);
+	});
+
+	it("flips in place", () => {
+		const obj = box();
+		applyObjectTransform(obj, { flipY: true });
+		expect(readObjectTransform(obj)).toMatchObject({
+			x: 10,
+			y: 20,
+			flipY: true,
+		});
+	});
+});
+
+describe("isTransformFieldMixed", () => {
+	it("is never mixed for one object or none", () => {
+		expect(isTransformFieldMixed([], "x")).toBe(false);
+		expect(isTransformFieldMixed([transform({ x: 5 })], "x")).toBe(false);
+	});
+
+	it("compares numbers to a tenth of a pixel", () => {
+		const items = [transform({ x: 10 }), transform({ x: 10.04 })];
+		expect(isTransformFieldMixed(items, "x")).toBe(false);
+		items.push(transform({ x: 10.05 }));
+		expect(isTransformFieldMixed(items, "x")).toBe(true);
+	});
+
+	it("compares flips exactly", () => {
+		const items = [transform(), transform({ flipX: true })];
+		expect(isTransformFieldMixed(items, "flipX")).toBe(true);
+		expect(isTransformFieldMixed(items, "flipY")).toBe(false);
+	});
+
+	it("checks each field on its own", () => {
+		const items = [transform({ y: 1 }), transform({ y: 2 })];
+		expect(isTransformFieldMixed(items, "y")).toBe(true);
+		expect(isTransformFieldMixed(items, "width")).toBe(false);
+	});
+});
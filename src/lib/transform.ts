@@ -0,0 +1,111 @@
+import type { FabricObject } from "fabric";
+
+/** Rotation step used when rotating with Shift held */
+export const ROTATION_SNAP_STEP = 15;
+
+/**
+ * Transform values as shown in the property panel, in image pixels.
+ * X / Y are the top-left of the on-screen bounding box so they match the
+ * rulers; W / H are the object's own (unrotated) scaled size.
+ */
+export interface ObjectTransform {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	angle: number;
+	flipX: boolean;
+	flipY: boolean;
+}
+
+export type TransformPatch = Partial<ObjectTransform>;
+
+export function normalizeAngle(angle: number): number {
+	const normalized = ((angle % 360) + 360) % 360;
+	return normalized === 360 ? 0 : normalized;
+}
+
+export function snapAngle(angle: number, step = ROTATION_SNAP_STEP): number {
+	return normalizeAngle(Math.round(angle / step) * step);
+}
+
+export function readObjectTransform(obj: FabricObject): ObjectTransform {
+	const rect = obj.getBoundingRect();
+	return {
+		x: rect.left,
+		y: rect.top,
+		width: obj.getScaledWidth(),
+		height: obj.getScaledHeight(),
+		angle: normalizeAngle(obj.angle ?? 0),
+		flipX: !!obj.flipX,
+		flipY: !!obj.flipY,
+	};
+}
+
+/** Numbers closer than this read the same once the panel rounds them */
+const MIXED_TOLERANCE = 0.05;
+
+/** Whether the selection's objects disagree on `field`. */
+export function isTransformFieldMixed(
+	transforms: ObjectTransform[],
+	field: keyof ObjectTransform,
+): boolean {
+	const [first, ...rest] = transforms;
+	if (!first) return false;
+	return rest.some((item) => {
+		const value = item[field];
+		const reference = first[field];
+		return typeof value === "number" && typeof reference === "number"
+			? Math.abs(value - reference) >= MIXED_TOLERANCE
+			: value !== reference;
+	});
+}
+
+/** Moves the object so its bounding box starts at `x` / `y`. */
+function moveBoundingBoxTo(obj: FabricObject, x?: number, y?: number) {
+	const rect = obj.getBoundingRect();
+	obj.set({
+		left: (obj.left ?? 0) + (x === undefined ? 0 : x - rect.left),
+		top: (obj.top ?? 0) + (y === undefined ? 0 : y - rect.top),
+	});
+	obj.setCoords();
+}
+
+export function applyObjectTransform(
+	obj: FabricObject,
+	patch: TransformPatch,
+	keepAspectRatio = false,
+) {
+	// Resizing keeps the bounding box's top-left; rotating keeps the centre
+	const anchor = obj.getBoundingRect();
+
+	let factorX = 1;
+	let factorY = 1;
+	const width = obj.getScaledWidth();
+	if (patch.width !== undefined && patch.width > 0 && width > 0) {
+		factorX = patch.width / width;
+		if (keepAspectRatio) factorY = factorX;
+	}
+	const height = obj.getScaledHeight();
+	if (patch.height !== undefined && patch.height > 0 && height > 0) {
+		factorY = patch.height / height;
+		if (keepAspectRatio && patch.width === undefined) factorX = factorY;
+	}
+	if (factorX !== 1 || factorY !== 1) {
+		obj.set({
+			scaleX: (obj.scaleX ?? 1) * factorX,
+			scaleY: (obj.scaleY ?? 1) * factorY,
+		});
+	}
+	if (patch.angle !== undefined) obj.rotate(normalizeAngle(patch.angle));
+	if (patch.flipX !== undefined) obj.set({ flipX: patch.flipX });
+	if (patch.flipY !== undefined) obj.set({ flipY: patch.flipY });
+	obj.setCoords();
+
+	const resized = patch.width !== undefined || patch.height !== undefined;
+	moveBoundingBoxTo(
+		obj,
+		patch.x ?? (resized ? anchor.left : undefined),
+		patch.y ?? (resized ? anchor.top : undefined),
+	);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+	fromVerticalText,
+	getVerticalCellKind,
+	splitVerticalCells,
+	toVerticalText,
+	VerticalText,
+} from "@/lib/vertical-text";
+
+describe("splitVerticalCells", () => {
+	it("gives each CJK character its own cell", () => {
+		expect(splitVerticalCells("剑网三")).toEqual(["剑", "网", "三"]);
+	});
+
+	it("keeps Latin words and digit runs together", () => {
+		expect(splitVerticalCells("第12赛季")).toEqual(["第", "12", "赛", "季"]);
+		expect(splitVerticalCells("打JJC")).toEqual(["打", "JJC"]);
+	});
+
+	it("splits spaces around a run into their own cells", () => {
+		expect(splitVerticalCells("到 10 点")).toEqual(["到", " ", "10", " ", "点"]);
+	});
+
+	it("keeps dashes apart from words", () => {
+		expect(splitVerticalCells("A——B")).toEqual(["A", "——", "B"]);
+	});
+
+	it("keeps emoji sequences whole", () => {
+		expect(splitVerticalCells("好👍🏽")).toEqual(["好", "👍🏽"]);
+	});
+});
+
+describe("getVerticalCellKind", () => {
+	it("classifies cells", () => {
+		expect(getVerticalCellKind("剑")).toBe("upright");
+		expect(getVerticalCellKind("。")).toBe("corner");
+		expect(getVerticalCellKind("「")).toBe("rotated");
+		expect(getVerticalCellKind("JJC")).toBe("rotated");
+		expect(getVerticalCellKind("7")).toBe("upright");
+		expect(getVerticalCellKind("12")).toBe("tcy");
+		expect(getVerticalCellKind("2024")).toBe("rotated");
+	});
+});
+
+describe("toVerticalText / fromVerticalText", () => {
+	it("puts one cell per line and a blank line between columns", () => {
+		expect(toVerticalText("第12\n赛季")).toBe("第\n12\n\n赛\n季");
+	});
+
+	it("round-trips typed text", () => {
+		for (const text of ["剑网三", "第12赛季\n打JJC", "a\n\nb", "到 10 点", ""]) {
+			expect(fromVerticalText(toVerticalText(text))).toBe(text);
+		}
+	});
+});
+
+describe("VerticalText typed offsets", () => {
+	// Lines "第", "12", "", "赛", "季"; the blank line is the typed newline
+	const text = new VerticalText(toVerticalText("第12\n赛季"));
+
+	it("maps selection indices to offsets in the typed text", () => {
+		expect(text.toTypedOffset(0)).toBe(0);
+		expect(text.toTypedOffset(2)).toBe(1);
+		expect(text.toTypedOffset(3)).toBe(2);
+		expect(text.toTypedOffset(4)).toBe(3);
+		expect(text.toTypedOffset(6)).toBe(4);
+		expect(text.toTypedOffset(9)).toBe(6);
+	});
+
+	it("maps typed offsets back, to the end of the cell before", () => {
+		expect(text.fromTypedOffset(1)).toBe(1);
+		expect(text.fromTypedOffset(3)).toBe(4);
+		expect(text.fromTypedOffset(4)).toBe(6);
+		expect(text.fromTypedOffset(99)).toBe(text.text.length);
+	});
+
+	it("round-trips every typed offset", () => {
+		for (let offset = 0; offset <= "第12\n赛季".length; offset++) {
+			expect(text.toTypedOffset(text.fromTypedOffset(offset))).toBe(offset);
+		}
+	});
+});
@@ -0,0 +1,566 @@
+import type { ITextProps, TFiller, TOptions, TPointerEvent } from "fabric";
+import { classRegistry, IText, util } from "fabric";
+import { renderObjectCallout, withCalloutAnchor } from "@/lib/callout";
+import { renderTextEffects } from "@/lib/text-effects";
+import { includeTextPlate, renderTextPlate } from "@/lib/text-plates";
+
+/**
+ * How a cell sits in a vertical column:
+ * - upright: CJK, kana, emoji and full-width forms, drawn as-is
+ * - corner: full-width commas / stops, moved to the top-right of the cell
+ * - rotated: Latin runs, brackets, dashes and ellipses, turned 90°
+ * - tate-chu-yoko: short digit runs set horizontally inside one cell
+ */
+export type VerticalCellKind = "upright" | "corner" | "rotated" | "tcy";
+
+export type VerticalColumnAlign = "top" | "center" | "bottom";
+
+export interface VerticalLayoutProps {
+	/** Space between columns, in thousandths of an em like `charSpacing` */
+	columnGap: number;
+	/** Columns wrap once they would grow past this height; 0 means never */
+	maxColumnHeight: number;
+	/** Where shorter columns sit within the text's height */
+	columnAlign: VerticalColumnAlign;
+}
+
+export const VERTICAL_LAYOUT_DEFAULTS: VerticalLayoutProps = {
+	columnGap: 250,
+	maxColumnHeight: 0,
+	columnAlign: "top",
+};
+
+const VERTICAL_LAYOUT_PROPS = Object.keys(VERTICAL_LAYOUT_DEFAULTS);
+
+interface VerticalColumn {
+	/** Line index of each cell and its centre from the column's top */
+	cells: Array<{ lineIndex: number; center: number }>;
+	thickness: number;
+	length: number;
+	/** The empty line that started this column, if any */
+	breakLine?: number;
+}
+
+/** A cell's area relative to the object's centre */
+interface VerticalCellBox {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+/** Longest digit run kept upright as a single tate-chu-yoko cell */
+export const TATE_CHU_YOKO_MAX_DIGITS = 3;
+
+const CORNER_PUNCTUATION = new Set(["，", "。", "、", "．"]);
+const ROTATED_PUNCTUATION = new Set([
+	..."「」『』（）〈〉《》【】〔〕〖〗［］｛｝",
+	..."—―–…‥～〜ー：；",
+]);
+/** Cell-relative shift of corner punctuation, in ems */
+const CORNER_OFFSET = 0.55;
+
+const graphemeSegmenter =
+	typeof Intl !== "undefined" && "Segmenter" in Intl
+		? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+		: null;
+
+/** Splits into user-perceived characters (emoji sequences stay whole). */
+export function splitGraphemes(text: string): string[] {
+	if (!graphemeSegmenter) return Array.from(text);
+	return Array.from(graphemeSegmenter.segment(text), (part) => part.segment);
+}
+
+/** Narrow scripts (Latin, Greek, Cyrillic, ASCII symbols) run sideways. */
+function isSidewaysGrapheme(grapheme: string): boolean {
+	const codePoint = grapheme.codePointAt(0) ?? 0;
+	if (codePoint >= 0x2e80 || grapheme === "\n") return false;
+	return !/\p{Extended_Pictographic}/u.test(grapheme);
+}
+
+export function getVerticalCellKind(cell: string): VerticalCellKind {
+	if (CORNER_PUNCTUATION.has(cell)) return "corner";
+	if (ROTATED_PUNCTUATION.has(cell)) return "rotated";
+	if (/^[0-9]+$/.test(cell) && cell.length <= TATE_CHU_YOKO_MAX_DIGITS) {
+		return cell.length > 1 ? "tcy" : "upright";
+	}
+	const [first] = splitGraphemes(cell);
+	return first && isSidewaysGrapheme(first) ? "rotated" : "upright";
+}
+
+/** Leading / trailing spaces get their own cells so digits stay upright */
+function pushRun(cells: string[], run: string) {
+	const [, lead = "", body = "", trail = ""] =
+		/^(\s*)(.*?)(\s*)$/su.exec(run) ?? [];
+	for (const part of [lead, body, trail]) {
+		if (part) cells.push(part);
+	}
+}
+
+/**
+ * Splits flat text into column cells: one cell per grapheme, except that
+ * sideways runs (words, long numbers, dashes) and short digit runs stay
+ * together.
+ */
+export function splitVerticalCells(text: string): string[] {
+	const cells: string[] = [];
+	let run = "";
+	let previous = "";
+	for (const grapheme of splitGraphemes(text)) {
+		if (!isSidewaysGrapheme(grapheme)) {
+			pushRun(cells, run);
+			run = "";
+			cells.push(grapheme);
+			continue;
+		}
+		// Dashes and ellipses never merge into a word
+		const isPunctuation = ROTATED_PUNCTUATION.has(grapheme);
+		if (run && isPunctuation !== ROTATED_PUNCTUATION.has(previous)) {
+			pushRun(cells, run);
+			run = "";
+		}
+		run += grapheme;
+		previous = grapheme;
+	}
+	pushRun(cells, run);
+	return cells;
+}
+
+/**
+ * Vertical text is stored one cell per line so it stays plain IText data;
+ * an empty line starts the next column.
+ */
+export function toVerticalText(text: string): string {
+	const lines: string[] = [];
+	text.split("\n").forEach((column, index) => {
+		if (index > 0) lines.push("");
+		lines.push(...splitVerticalCells(column));
+	});
+	return lines.join("\n");
+}
+
+export function fromVerticalText(text: string): string {
+	if (!text) return "";
+	return text
+		.split("\n")
+		.map((line) => line || "\n")
+		.join("");
+}
+
+/**
+ * Text laid out top to bottom in columns that flow right to left. Each
+ * line of `text` is one cell; see `VerticalCellKind` for how cells are
+ * drawn.
+ */
+export class VerticalText extends IText implements VerticalLayoutProps {
+	static type = "VerticalText";
+	static customProperties = VERTICAL_LAYOUT_PROPS;
+	static textLayoutProperties = [
+		...IText.textLayoutProperties,
+		...VERTICAL_LAYOUT_PROPS,
+	];
+
+	declare columnGap: number;
+	declare maxColumnHeight: number;
+	declare columnAlign: VerticalColumnAlign;
+	declare columns: VerticalColumn[];
+	/** Transform of the text's own space while its cells are drawn */
+	declare textSpace?: DOMMatrix;
+
+	constructor(
+		text: string,
+		options?: TOptions<ITextProps> & Partial<VerticalLayoutProps>,
+	) {
+		super(text, { ...VERTICAL_LAYOUT_DEFAULTS, ...options });
+	}
+
+	static getDefaults(): Record<string, unknown> {
+		return { ...super.getDefaults(), ...VERTICAL_LAYOUT_DEFAULTS };
+	}
+
+	static createControls() {
+		return withCalloutAnchor(super.createControls().controls);
+	}
+
+	getCellKind(lineIndex: number): VerticalCellKind {
+		return getVerticalCellKind(this._textLines[lineIndex]?.join("") ?? "");
+	}
+
+	/** Length of the cell along the column */
+	getCellLength(lineIndex: number): number {
+		if (this.getCellKind(lineIndex) === "rotated") {
+			return this.measureLine(lineIndex).width;
+		}
+		return this.getHeightOfChar(lineIndex, 0) * this._fontSizeMult;
+	}
+
+	/** Space after a cell; `lineHeight` carries the vertical char spacing */
+	getCellGap(lineIndex: number): number {
+		const size = this.getHeightOfChar(lineIndex, 0) * this._fontSizeMult;
+		return size * (this.lineHeight - 1);
+	}
+
+	/** Width of the cell across the column */
+	getCellThickness(lineIndex: number): number {
+		const size = this.getHeightOfChar(lineIndex, 0);
+		if (this.getCellKind(lineIndex) !== "upright") return size;
+		return Math.max(size, this.measureLine(lineIndex).width);
+	}
+
+	graphemeSplit(value: string): string[] {
+		return splitGraphemes(value);
+	}
+
+	getColumnGapWidth(): number {
+		return (this.fontSize * this.columnGap) / 1000;
+	}
+
+	/** Fills columns top to bottom, wrapping at breaks and `maxColumnHeight` */
+	layoutColumns(): VerticalColumn[] {
+		const newColumn = (): VerticalColumn => ({
+			cells: [],
+			thickness: 0,
+			length: 0,
+		});
+		const columns = [newColumn()];
+		if (!this.text) return columns;
+
+		let column = columns[0] as VerticalColumn;
+		let previous = -1;
+		this._textLines.forEach((line, lineIndex) => {
+			if (!line.length) {
+				column = { ...newColumn(), breakLine: lineIndex };
+				columns.push(column);
+				return;
+			}
+			const length = this.getCellLength(lineIndex);
+			let gap = column.cells.length ? this.getCellGap(previous) : 0;
+			const limit = this.maxColumnHeight;
+			const overflows = limit > 0 && column.length + gap + length > limit;
+			if (overflows && column.cells.length) {
+				column = newColumn();
+				columns.push(column);
+				gap = 0;
+			}
+			column.cells.push({
+				lineIndex,
+				center: column.length + gap + length / 2,
+			});
+			column.length += gap + length;
+			column.thickness = Math.max(
+				column.thickness,
+				this.getCellThickness(lineIndex),
+			);
+			previous = lineIndex;
+		});
+		for (const item of columns) {
+			if (!item.cells.length) item.thickness = this.fontSize;
+		}
+		return columns;
+	}
+
+	initDimensions() {
+		// Vertical text never follows a path or justifies, so this skips
+		// those parts of the default implementation
+		this._splitText();
+		this._clearCache();
+		this.columns = this.layoutColumns();
+		this.dirty = true;
+		this.width = this.calcTextWidth();
+		this.height = this.calcTextHeight();
+	}
+
+	calcTextWidth(): number {
+		const { columns } = this;
+		const gaps = Math.max(0, columns.length - 1) * this.getColumnGapWidth();
+		return columns.reduce((width, column) => width + column.thickness, gaps);
+	}
+
+	calcTextHeight(): number {
+		return this.columns.reduce(
+			(height, column) => Math.max(height, column.length),
+			this.maxColumnHeight,
+		);
+	}
+
+	/** Top-left corner of each column, relative to the object's centre */
+	getColumnOffsets(): Array<{ left: number; top: number }> {
+		const align = this.columnAlign;
+		let right = this.width / 2;
+		return this.columns.map((column) => {
+			const space = this.height - column.length;
+			const top =
+				this._getTopOffset() +
+				(align === "bottom" ? space : align === "center" ? space / 2 : 0);
+			const left = right - column.thickness;
+			right = left - this.getColumnGapWidth();
+			return { left, top };
+		});
+	}
+
+	/** Area of every cell by line index; a column break gets an empty box */
+	getCellBoxes(): Array<VerticalCellBox | undefined> {
+		const boxes: Array<VerticalCellBox | undefined> = [];
+		const offsets = this.getColumnOffsets();
+		this.columns.forEach((column, index) => {
+			const { left, top } = offsets[index] ?? { left: 0, top: 0 };
+			const width = column.thickness;
+			if (column.breakLine !== undefined) {
+				boxes[column.breakLine] = { left, top, width, height: 0 };
+			}
+			for (const { lineIndex, center } of column.cells) {
+				const height = this.getCellLength(lineIndex);
+				const cellTop = top + center - height / 2;
+				boxes[lineIndex] = { left, top: cellTop, width, height };
+			}
+		});
+		return boxes;
+	}
+
+	/** Distance of the gap before `charIndex` from the top of its cell */
+	getCharOffset(lineIndex: number, charIndex: number): number {
+		const count = this._textLines[lineIndex]?.length ?? 0;
+		if (!count) return 0;
+		if (this.getCellKind(lineIndex) === "rotated") {
+			const bound = this.__charBounds[lineIndex]?.[charIndex];
+			return bound?.left ?? this.getCellLength(lineIndex);
+		}
+		// Upright cells are not split along the column
+		return (this.getCellLength(lineIndex) * charIndex) / count;
+	}
+
+	render(ctx: CanvasRenderingContext2D) {
+		renderObjectCallout(this, ctx);
+		super.render(ctx);
+	}
+
+	_getTransformedDimensions(options: Record<string, number> = {}) {
+		return super._getTransformedDimensions(
+			includeTextPlate(this, options, true),
+		);
+	}
+
+	_renderBackground(ctx: CanvasRenderingContext2D) {
+		renderTextPlate(this, ctx, true);
+		super._renderBackground(ctx);
+	}
+
+	_renderText(ctx: CanvasRenderingContext2D) {
+		renderTextEffects(this, ctx, (target) => super._renderText(target));
+	}
+
+	_renderTextCommon(
+		ctx: CanvasRenderingContext2D,
+		method: "fillText" | "strokeText",
+	) {
+		ctx.save();
+		this.textSpace = ctx.getTransform();
+		const offsets = this.getColumnOffsets();
+		this.columns.forEach((column, index) => {
+			const { left, top } = offsets[index] ?? { left: 0, top: 0 };
+			const centerX = left + column.thickness / 2;
+			for (const { lineIndex, center } of column.cells) {
+				this.renderCell(method, ctx, lineIndex, centerX, top + center);
+			}
+		});
+		this.textSpace = undefined;
+		ctx.restore();
+	}
+
+	/**
+	 * Gradients and patterns span the whole text, not each cell: the filler
+	 * is pinned to the text's own space whatever the cell's transform.
+	 */
+	handleFiller<T extends "fill" | "stroke">(
+		ctx: CanvasRenderingContext2D,
+		property: `${T}Style`,
+		filler: TFiller | string,
+	) {
+		if (!this.textSpace || typeof filler === "string") {
+			return super.handleFiller(ctx, property, filler);
+		}
+		const pattern = this._applyPatternGradientTransformText(filler);
+		const size = this.strokeWidth;
+		pattern.setTransform(
+			ctx
+				.getTransform()
+				.inverse()
+				.multiply(this.textSpace)
+				.translate(-(this.width + size) / 2, -(this.height + size) / 2),
+		);
+		ctx[property] = pattern;
+		return { offsetX: 0, offsetY: 0 };
+	}
+
+	/** Draws cell `lineIndex` centred on (`centerX`, `centerY`). */
+	renderCell(
+		method: "fillText" | "strokeText",
+		ctx: CanvasRenderingContext2D,
+		lineIndex: number,
+		centerX: number,
+		centerY: number,
+	) {
+		const size = this.getHeightOfChar(lineIndex, 0);
+		const width = this.measureLine(lineIndex).width;
+		// Same baseline placement fabric uses for horizontal lines
+		const baseline =
+			size * this._fontSizeMult * (0.5 - this._fontSizeFraction);
+
+		ctx.save();
+		ctx.translate(centerX, centerY);
+		switch (this.getCellKind(lineIndex)) {
+			case "rotated":
+				ctx.rotate(Math.PI / 2);
+				break;
+			case "corner":
+				ctx.translate(size * CORNER_OFFSET, -size * CORNER_OFFSET);
+				break;
+			case "tcy":
+				if (width > size) ctx.scale(size / width, 1);
+				break;
+		}
+		this.renderCellChars(method, ctx, lineIndex, -width / 2, baseline);
+		ctx.restore();
+	}
+
+	renderCellChars(
+		method: "fillText" | "strokeText",
+		ctx: CanvasRenderingContext2D,
+		lineIndex: number,
+		left: number,
+		baseline: number,
+	) {
+		const line = this._textLines[lineIndex] ?? [];
+		const bounds = this.__charBounds[lineIndex] ?? [];
+		line.forEach((grapheme, charIndex) => {
+			const offset = bounds[charIndex]?.left ?? 0;
+			this._renderChar(
+				method,
+				ctx,
+				lineIndex,
+				charIndex,
+				grapheme,
+				left + offset,
+				baseline,
+			);
+		});
+	}
+
+	/** Offset of the first character of `lineIndex` within `text` */
+	getLineStart(lineIndex: number): number {
+		let start = 0;
+		for (let i = 0; i < lineIndex; i++) {
+			const length = this._textLines[i]?.length ?? 0;
+			start += length + this.missingNewlineOffset(i);
+		}
+		return start;
+	}
+
+	/** Maps a selection index to an offset in the text as typed */
+	toTypedOffset(index: number): number {
+		const { lineIndex, charIndex } = this.get2DCursorLocation(index);
+		let offset = charIndex;
+		for (let i = 0; i < lineIndex; i++) {
+			// An empty line is the typed newline between columns
+			offset += this._textLines[i]?.length || 1;
+		}
+		return offset;
+	}
+
+	/** Inverse of `toTypedOffset` for the current cells */
+	fromTypedOffset(offset: number): number {
+		let remaining = offset;
+		for (let i = 0; i < this._textLines.length; i++) {
+			const length = this._textLines[i]?.length ?? 0;
+			if (remaining <= length) return this.getLineStart(i) + remaining;
+			remaining -= length || 1;
+		}
+		return this._text.length;
+	}
+
+	// Editing: the cursor runs across the column and selections cover cells
+
+	_renderCursor(
+		ctx: CanvasRenderingContext2D,
+		boundaries: ReturnType<IText["_getCursorBoundaries"]>,
+		selectionStart: number,
+	) {
+		const { lineIndex, charIndex } =
+			this.get2DCursorLocation(selectionStart);
+		const box = this.getCellBoxes()[lineIndex];
+		if (!box) return;
+		const { color, opacity, width } = this.getCursorRenderingData(
+			selectionStart,
+			boundaries,
+		);
+		const y = box.top + this.getCharOffset(lineIndex, charIndex);
+		ctx.fillStyle = color;
+		ctx.globalAlpha = opacity;
+		ctx.fillRect(box.left, y - width / 2, box.width, width);
+	}
+
+	_renderSelection(
+		ctx: CanvasRenderingContext2D,
+		selection: { selectionStart: number; selectionEnd: number },
+	) {
+		const start = this.get2DCursorLocation(selection.selectionStart);
+		const end = this.get2DCursorLocation(selection.selectionEnd);
+		const boxes = this.getCellBoxes();
+		ctx.fillStyle = this.inCompositionMode
+			? this.compositionColor || "black"
+			: this.selectionColor;
+		for (let i = start.lineIndex; i <= end.lineIndex; i++) {
+			const box = boxes[i];
+			if (!box?.height) continue;
+			const from =
+				i === start.lineIndex ? this.getCharOffset(i, start.charIndex) : 0;
+			const to =
+				i === end.lineIndex
+					? this.getCharOffset(i, end.charIndex)
+					: box.height;
+			if (to <= from) continue;
+			ctx.fillRect(box.left, box.top + from, box.width, to - from);
+		}
+	}
+
+	getSelectionStartFromPointer(e: TPointerEvent): number {
+		if (!this.canvas) return 0;
+		const point = this.canvas
+			.getScenePoint(e)
+			.transform(util.invertTransform(this.calcTransformMatrix()));
+		// Nearest column first, then the nearest cell within it
+		let nearest: { lineIndex: number; box: VerticalCellBox } | undefined;
+		let bestX = Infinity;
+		let bestY = Infinity;
+		this.getCellBoxes().forEach((box, lineIndex) => {
+			if (!box) return;
+			const right = box.left + box.width;
+			const bottom = box.top + box.height;
+			const dx = Math.max(box.left - point.x, 0, point.x - right);
+			const dy = Math.max(box.top - point.y, 0, point.y - bottom);
+			if (dx < bestX || (dx === bestX && dy < bestY)) {
+				bestX = dx;
+				bestY = dy;
+				nearest = { lineIndex, box };
+			}
+		});
+		if (!nearest) return 0;
+
+		const { lineIndex, box } = nearest;
+		const y = point.y - box.top;
+		const count = this._textLines[lineIndex]?.length ?? 0;
+		let charIndex = 0;
+		while (
+			charIndex < count &&
+			y >
+				(this.getCharOffset(lineIndex, charIndex) +
+					this.getCharOffset(lineIndex, charIndex + 1)) /
+					2
+		) {
+			charIndex++;
+		}
+		return this.getLineStart(lineIndex) + charIndex;
+	}
+}
+
+classRegistry.setClass(VerticalText);
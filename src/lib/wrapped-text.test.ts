@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { splitGraphemes } from "@/lib/vertical-text";
+import { splitLineBreakUnits } from "@/lib/wrapped-text";
+
+const units = (text: string) =>
+	splitLineBreakUnits(splitGraphemes(text)).map((unit) => unit.join(""));
+
+describe("splitLineBreakUnits", () => {
+	it("lets CJK break after any character", () => {
+		expect(units("剑网三")).toEqual(["剑", "网", "三"]);
+	});
+
+	it("keeps Latin words and digits whole", () => {
+		expect(units("打JJC第12场")).toEqual(["打", "JJC", "第", "12", "场"]);
+		expect(units("it's")).toEqual(["it's"]);
+	});
+
+	it("keeps trailing spaces on the unit before them", () => {
+		expect(units("hello  world")).toEqual(["hello  ", "world"]);
+	});
+
+	it("never starts a line with closing punctuation", () => {
+		expect(units("好。走了！")).toEqual(["好。", "走", "了！"]);
+		expect(units("（完）")).toEqual(["（完）"]);
+		expect(units("等等……")).toEqual(["等", "等……"]);
+		expect(units("ちょっと")).toEqual(["ちょっ", "と"]);
+	});
+
+	it("never ends a line with an opening bracket", () => {
+		expect(units("说「好」")).toEqual(["说", "「好」"]);
+		expect(units("a (b)")).toEqual(["a ", "(b)"]);
+	});
+});
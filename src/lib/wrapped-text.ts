@@ -0,0 +1,223 @@
+import type {
+	GraphemeData,
+	TextboxProps,
+	TOptions,
+	TransformActionHandler,
+} from "fabric";
+import { classRegistry, controlsUtils, Textbox } from "fabric";
+import { renderObjectCallout, withCalloutAnchor } from "@/lib/callout";
+import { renderTextEffects } from "@/lib/text-effects";
+import { includeTextPlate, renderTextPlate } from "@/lib/text-plates";
+import { splitGraphemes } from "@/lib/vertical-text";
+
+/** Closing punctuation and small kana that may not start a line (行首禁则) */
+const NO_LINE_START = new Set([
+	..."，。、．：；！？）」』】》〉〕］｝〗”’…‥—～·・々ー",
+	..."ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ",
+	...",.:;!?)]}>%",
+]);
+/** Opening brackets and quotes that may not end a line (行尾禁则) */
+const NO_LINE_END = new Set([..."（「『【《〈〔［｛〖“‘", ..."([{<"]);
+
+/** Alignments offered for wrapped text; justify leaves last lines ragged */
+export type WrappedTextAlign = "left" | "center" | "right" | "justify-left";
+
+/** Latin letters and digits, which wrap as whole words */
+function isWordGrapheme(grapheme: string): boolean {
+	const codePoint = grapheme.codePointAt(0) ?? 0;
+	return codePoint < 0x2e80 && /^[\p{L}\p{N}\p{M}'-]+$/u.test(grapheme);
+}
+
+function isSpace(grapheme: string): boolean {
+	return /^\s+$/u.test(grapheme);
+}
+
+/**
+ * Groups graphemes into units a line break may not split: Latin words,
+ * trailing spaces, and punctuation held to its neighbour by kinsoku rules.
+ */
+export function splitLineBreakUnits(graphemes: string[]): string[][] {
+	const units: string[][] = [];
+	for (const grapheme of graphemes) {
+		const unit = units[units.length - 1];
+		const last = unit?.[unit.length - 1];
+		const keepTogether =
+			last !== undefined &&
+			(NO_LINE_START.has(grapheme) ||
+				NO_LINE_END.has(last) ||
+				isSpace(grapheme) ||
+				(isWordGrapheme(last) && isWordGrapheme(grapheme)));
+		if (unit && keepTogether) unit.push(grapheme);
+		else units.push([grapheme]);
+	}
+	return units;
+}
+
+/**
+ * Resizes the box so its outer edge, plate included, follows the pointer;
+ * the default would set the width to the plate's and jump by its padding.
+ */
+const changeWidthAroundPlate: TransformActionHandler = (
+	eventData,
+	transform,
+	x,
+	y,
+) => {
+	const { target } = transform;
+	const before = target.width;
+	controlsUtils.changeObjectWidth(eventData, transform, x, y);
+	const outset =
+		target._getTransformedDimensions({ scaleX: 1, skewX: 0, skewY: 0 }).x -
+		target.width -
+		target.strokeWidth;
+	if (outset > 0) target.set("width", Math.max(target.width - outset, 1));
+	return target.width !== before;
+};
+
+/**
+ * Fixed-width text that wraps CJK per character and Latin per word,
+ * following kinsoku rules. Justified lines spread the extra space over every
+ * breakable gap rather than only over spaces.
+ */
+export class WrappedText extends Textbox {
+	static type = "WrappedText";
+
+	constructor(text: string, options?: TOptions<TextboxProps>) {
+		// Units are joined without an infix, so they keep their own spaces
+		super(text, { ...options, splitByGrapheme: true });
+	}
+
+	static createControls() {
+		const { controls } = super.createControls();
+		const resize = controlsUtils.wrapWithFireEvent(
+			"resizing",
+			controlsUtils.wrapWithFixedAnchor(changeWidthAroundPlate),
+		);
+		for (const key of ["ml", "mr"]) {
+			const control = controls[key];
+			if (control) control.actionHandler = resize;
+		}
+		return withCalloutAnchor(controls);
+	}
+
+	graphemeSplit(value: string): string[] {
+		return splitGraphemes(value);
+	}
+
+	getGraphemeDataForRender(lines: string[]): GraphemeData {
+		let largestWordWidth = 0;
+		const wordsData = lines.map((line, lineIndex) => {
+			const units = splitLineBreakUnits(this.graphemeSplit(line));
+			if (!units.length) return [{ word: [], width: 0 }];
+			let offset = 0;
+			return units.map((word) => {
+				const width = this._measureWord(word, lineIndex, offset);
+				largestWordWidth = Math.max(largestWordWidth, width);
+				offset += word.length;
+				return { word, width };
+			});
+		});
+		return { wordsData, largestWordWidth };
+	}
+
+	isJustifiedLine(lineIndex: number): boolean {
+		if (this.textAlign === "justify") return true;
+		return (
+			this.textAlign.includes("justify") && !this.isEndOfWrapping(lineIndex)
+		);
+	}
+
+	enlargeSpaces() {
+		this._textLines.forEach((line, lineIndex) => {
+			if (!this.isJustifiedLine(lineIndex)) return;
+			// Measuring fills the char bounds shifted below
+			this.getLineWidth(lineIndex);
+			const bounds = this.__charBounds[lineIndex];
+			if (!bounds) return;
+
+			// Spaces left at a wrap hang past the right edge
+			let end = line.length;
+			while (end > 0 && isSpace(line[end - 1] ?? "")) end--;
+			const last = bounds[end - 1];
+			if (!last) return;
+
+			const stretchable = new Set<number>();
+			for (let i = 1; i < end; i++) {
+				const before = line[i - 1] ?? "";
+				const grapheme = line[i] ?? "";
+				if (!(isWordGrapheme(before) && isWordGrapheme(grapheme))) {
+					stretchable.add(i);
+				}
+			}
+			const extra = this.width - (last.left + last.kernedWidth);
+			if (extra <= 0 || !stretchable.size) return;
+
+			const step = extra / stretchable.size;
+			let shift = 0;
+			bounds.forEach((bound, i) => {
+				if (stretchable.has(i)) {
+					const previous = bounds[i - 1];
+					if (previous) {
+						previous.width += step;
+						previous.kernedWidth += step;
+					}
+					shift += step;
+				}
+				bound.left += shift;
+			});
+		});
+	}
+
+	render(ctx: CanvasRenderingContext2D) {
+		renderObjectCallout(this, ctx);
+		super.render(ctx);
+	}
+
+	_getTransformedDimensions(options: Record<string, number> = {}) {
+		return super._getTransformedDimensions(
+			includeTextPlate(this, options),
+		);
+	}
+
+	_renderBackground(ctx: CanvasRenderingContext2D) {
+		renderTextPlate(this, ctx);
+		super._renderBackground(ctx);
+	}
+
+	_renderText(ctx: CanvasRenderingContext2D) {
+		renderTextEffects(this, ctx, (target) => super._renderText(target));
+	}
+
+	_renderChars(
+		method: "fillText" | "strokeText",
+		ctx: CanvasRenderingContext2D,
+		line: string[],
+		left: number,
+		top: number,
+		lineIndex: number,
+	) {
+		if (!this.isJustifiedLine(lineIndex)) {
+			super._renderChars(method, ctx, line, left, top, lineIndex);
+			return;
+		}
+		// The default draws runs between spaces, which would ignore the
+		// per-grapheme offsets set in `enlargeSpaces`
+		const bounds = this.__charBounds[lineIndex] ?? [];
+		const fontHeight = this.getHeightOfLine(lineIndex) / this.lineHeight;
+		const baseline = top - fontHeight * this._fontSizeFraction;
+		line.forEach((grapheme, charIndex) => {
+			const offset = bounds[charIndex]?.left ?? 0;
+			this._renderChar(
+				method,
+				ctx,
+				lineIndex,
+				charIndex,
+				grapheme,
+				left + offset,
+				baseline,
+			);
+		});
+	}
+}
+
+classRegistry.setClass(WrappedText);
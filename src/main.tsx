@@ -3,12 +3,13 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { flushAutosave } from "./hooks/useAutosave";
 
 const updateSW = registerSW({
 	immediate: true,
 	onNeedRefresh() {
 		const ok = window.confirm("检测到新版本资源，是否刷新以更新？");
-		if (ok) void updateSW(true);
+		if (ok) void flushAutosave().finally(() => updateSW(true));
 	},
 });
 
@@ -0,0 +1,70 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { JX3_SCHOOL_PRESETS } from "@/constants/colors";
+import {
+	BRUSH_PRESET_KEYS,
+	BRUSH_PRESETS,
+	type BrushPresetKey,
+} from "@/lib/brushes";
+
+interface BrushState {
+	/** Freehand drawing mode; the canvas draws instead of selecting */
+	drawing: boolean;
+	setDrawing: (drawing: boolean) => void;
+	/** Redaction brush mode; exclusive with freehand drawing */
+	redacting: boolean;
+	setRedacting: (redacting: boolean) => void;
+	presetKey: BrushPresetKey;
+	setPresetKey: (presetKey: BrushPresetKey) => void;
+	color: string;
+	setColor: (color: string) => void;
+	/** Each preset remembers its own width */
+	widths: Record<BrushPresetKey, number>;
+	setWidth: (width: number) => void;
+	smoothing: number;
+	setSmoothing: (smoothing: number) => void;
+}
+
+const DEFAULT_WIDTHS = Object.fromEntries(
+	BRUSH_PRESET_KEYS.map((key) => [key, BRUSH_PRESETS[key].defaultWidth]),
+) as Record<BrushPresetKey, number>;
+
+export const useBrushStore = create<BrushState>()(
+	persist(
+		(set) => ({
+			drawing: false,
+			setDrawing: (drawing) =>
+				set((state) => ({
+					drawing,
+					redacting: drawing ? false : state.redacting,
+				})),
+			redacting: false,
+			setRedacting: (redacting) =>
+				set((state) => ({
+					redacting,
+					drawing: redacting ? false : state.drawing,
+				})),
+			presetKey: "pen",
+			setPresetKey: (presetKey) => set({ presetKey }),
+			color: JX3_SCHOOL_PRESETS[0]?.color ?? "#ff4d4f",
+			setColor: (color) => set({ color }),
+			widths: DEFAULT_WIDTHS,
+			setWidth: (width) =>
+				set((state) => ({
+					widths: { ...state.widths, [state.presetKey]: width },
+				})),
+			smoothing: 3,
+			setSmoothing: (smoothing) => set({ smoothing }),
+		}),
+		{
+			name: "jx3-photo-maker:brush",
+			// Drawing modes are per session; the brush itself is remembered
+			partialize: (state) => ({
+				presetKey: state.presetKey,
+				color: state.color,
+				widths: state.widths,
+				smoothing: state.smoothing,
+			}),
+		},
+	),
+);
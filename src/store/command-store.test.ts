@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	type EditorCommand,
+	findCommandByShortcut,
+	getCommandShortcuts,
+	useKeymapStore,
+} from "@/store/command-store";
+
+const command = (id: string, defaultShortcuts?: string[]): EditorCommand => ({
+	id,
+	title: id,
+	group: "编辑",
+	defaultShortcuts,
+	run: () => {},
+});
+
+const undo = command("undo", ["Mod+Z"]);
+const redo = command("redo", ["Mod+Shift+Z", "Mod+Y"]);
+const palette = command("palette");
+
+describe("getCommandShortcuts", () => {
+	it("falls back to the defaults", () => {
+		expect(getCommandShortcuts(redo, {})).toEqual(["Mod+Shift+Z", "Mod+Y"]);
+		expect(getCommandShortcuts(palette, {})).toEqual([]);
+	});
+
+	it("prefers an override, even an empty one", () => {
+		expect(getCommandShortcuts(undo, { undo: ["Alt+Z"] })).toEqual(["Alt+Z"]);
+		expect(getCommandShortcuts(undo, { undo: [] })).toEqual([]);
+	});
+});
+
+describe("findCommandByShortcut", () => {
+	const commands = [undo, redo, palette];
+
+	it("finds the command bound to a shortcut", () => {
+		expect(findCommandByShortcut(commands, {}, "Mod+Y")).toBe(redo);
+		expect(findCommandByShortcut(commands, {}, "Mod+K")).toBeUndefined();
+	});
+
+	it("follows overrides", () => {
+		const overrides = { undo: [], palette: ["Mod+Z"] };
+		expect(findCommandByShortcut(commands, overrides, "Mod+Z")).toBe(palette);
+	});
+});
+
+describe("useKeymapStore", () => {
+	const keymap = () => useKeymapStore.getState();
+
+	beforeEach(() => {
+		keymap().resetAll();
+	});
+
+	it("sets and resets one command's shortcuts", () => {
+		keymap().setShortcuts("undo", ["Alt+Z"]);
+		keymap().setShortcuts("redo", []);
+		expect(keymap().overrides).toEqual({ undo: ["Alt+Z"], redo: [] });
+
+		keymap().resetShortcuts("undo");
+		expect(keymap().overrides).toEqual({ redo: [] });
+	});
+
+	it("resets every override", () => {
+		keymap().setShortcuts("undo", ["Alt+Z"]);
+		keymap().resetAll();
+		expect(keymap().overrides).toEqual({});
+	});
+
+	it("persists overrides", () => {
+		keymap().setShortcuts("undo", ["Alt+Z"]);
+		const stored = localStorage.getItem("jx3-photo-maker:keymap");
+		expect(JSON.parse(stored ?? "{}").state.overrides).toEqual({
+			undo: ["Alt+Z"],
+		});
+	});
+});
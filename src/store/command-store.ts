@@ -0,0 +1,81 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+export interface EditorCommand {
+	id: string;
+	title: string;
+	group: string;
+	/** Extra search terms for the command palette, e.g. pinyin */
+	keywords?: string[];
+	defaultShortcuts?: string[];
+	/** Keyboard-only commands such as nudging stay out of the palette */
+	hiddenInPalette?: boolean;
+	enabled?: () => boolean;
+	run: () => void | Promise<void>;
+}
+
+interface CommandStoreState {
+	commands: EditorCommand[];
+	setCommands: (commands: EditorCommand[]) => void;
+	paletteOpen: boolean;
+	setPaletteOpen: (open: boolean) => void;
+	shortcutSettingsOpen: boolean;
+	setShortcutSettingsOpen: (open: boolean) => void;
+}
+
+export const useCommandStore = create<CommandStoreState>((set) => ({
+	commands: [],
+	setCommands: (commands) => set({ commands }),
+	paletteOpen: false,
+	setPaletteOpen: (paletteOpen) => set({ paletteOpen }),
+	shortcutSettingsOpen: false,
+	setShortcutSettingsOpen: (shortcutSettingsOpen) =>
+		set({ shortcutSettingsOpen }),
+}));
+
+interface KeymapStoreState {
+	/** Per-command overrides; an empty array means "unbound" */
+	overrides: Record<string, string[]>;
+	setShortcuts: (commandId: string, shortcuts: string[]) => void;
+	resetShortcuts: (commandId: string) => void;
+	resetAll: () => void;
+}
+
+export const useKeymapStore = create<KeymapStoreState>()(
+	persist(
+		(set) => ({
+			overrides: {},
+			setShortcuts: (commandId, shortcuts) =>
+				set((state) => ({
+					overrides: { ...state.overrides, [commandId]: shortcuts },
+				})),
+			resetShortcuts: (commandId) =>
+				set((state) => {
+					const next = { ...state.overrides };
+					delete next[commandId];
+					return { overrides: next };
+				}),
+			resetAll: () => set({ overrides: {} }),
+		}),
+		{
+			name: "jx3-photo-maker:keymap",
+		},
+	),
+);
+
+export function getCommandShortcuts(
+	command: EditorCommand,
+	overrides: Record<string, string[]>,
+): string[] {
+	return overrides[command.id] ?? command.defaultShortcuts ?? [];
+}
+
+export function findCommandByShortcut(
+	commands: EditorCommand[],
+	overrides: Record<string, string[]>,
+	shortcut: string,
+): EditorCommand | undefined {
+	return commands.find((command) =>
+		getCommandShortcuts(command, overrides).includes(shortcut),
+	);
+}
@@ -19,8 +19,12 @@ interface EditorState {
 	setActiveObject: (obj: FabricObject | null) => void;
 	activeObjectRevision: number;
 	bumpActiveObjectRevision: () => void;
+	layersRevision: number;
+	bumpLayersRevision: () => void;
 	previewZoom: number;
 	setPreviewZoom: (zoom: number) => void;
+	snappingEnabled: boolean;
+	setSnappingEnabled: (enabled: boolean) => void;
 	exportFormat: ExportFormat;
 	setExportFormat: (format: ExportFormat) => void;
 }
@@ -35,8 +39,13 @@ export const useEditorStore = create<EditorState>((set) => ({
 	activeObjectRevision: 0,
 	bumpActiveObjectRevision: () =>
 		set((state) => ({ activeObjectRevision: state.activeObjectRevision + 1 })),
+	layersRevision: 0,
+	bumpLayersRevision: () =>
+		set((state) => ({ layersRevision: state.layersRevision + 1 })),
 	previewZoom: 1,
 	setPreviewZoom: (previewZoom) => set({ previewZoom }),
+	snappingEnabled: true,
+	setSnappingEnabled: (snappingEnabled) => set({ snappingEnabled }),
 	exportFormat: "png",
 	setExportFormat: (exportFormat) => set({ exportFormat }),
 }));
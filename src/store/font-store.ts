@@ -28,6 +28,13 @@ const BUILTIN_FONTS: FontEntry[] = [];
 
 const FONT_CACHE_NAME = "jx3-font-cache";
 
+/** Raw bytes of user-uploaded fonts, kept so project files can embed them. */
+const uploadedFontBuffers = new Map<string, ArrayBuffer>();
+
+export function getUploadedFontBuffer(family: string): ArrayBuffer | undefined {
+	return uploadedFontBuffers.get(family);
+}
+
 interface FontStoreState {
 	builtinFonts: FontEntry[];
 	uploadedFonts: FontEntry[];
@@ -89,13 +96,21 @@ export async function loadFontFile(file: File): Promise<string> {
 	const baseName = file.name.replace(/\.[^.]+$/, "");
 	const familyName = `custom-${baseName}`;
 
-	const fontFace = new FontFace(familyName, buffer);
-	await fontFace.load();
-	document.fonts.add(fontFace);
+	await registerFontBuffer(familyName, buffer);
 
 	return familyName;
 }
 
+export async function registerFontBuffer(
+	family: string,
+	buffer: ArrayBuffer,
+): Promise<void> {
+	const fontFace = new FontFace(family, buffer);
+	await fontFace.load();
+	document.fonts.add(fontFace);
+	uploadedFontBuffers.set(family, buffer);
+}
+
 export async function querySystemFonts(): Promise<FontEntry[]> {
 	if (!("queryLocalFonts" in window)) {
 		throw new Error("queryLocalFonts API is not supported in this browser");
@@ -221,7 +236,18 @@ export async function restoreCachedFonts(
 	);
 }
 
-export async function initFontStore(): Promise<void> {
+let fontManifestLoad: Promise<void> | null = null;
+
+/** Loads the font manifest once; later calls wait for that same load. */
+export function initFontStore(): Promise<void> {
+	fontManifestLoad ??= loadFontManifest().catch((err: unknown) => {
+		fontManifestLoad = null;
+		throw err;
+	});
+	return fontManifestLoad;
+}
+
+async function loadFontManifest(): Promise<void> {
 	const {
 		customFontsLoaded,
 		setCustomFonts,
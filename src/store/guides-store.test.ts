@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { sanitizeGuides, useGuidesStore } from "@/store/guides-store";
+
+const guides = () => useGuidesStore.getState();
+
+describe("sanitizeGuides", () => {
+	it("keeps valid guides as they are", () => {
+		const valid = [
+			{ id: "a", axis: "x", position: 10 },
+			{ id: "b", axis: "y", position: 20.5 },
+		];
+		expect(sanitizeGuides(valid)).toEqual(valid);
+	});
+
+	it("treats anything but an array as no guides", () => {
+		expect(sanitizeGuides(undefined)).toEqual([]);
+		expect(sanitizeGuides({ id: "a", axis: "x", position: 1 })).toEqual([]);
+	});
+
+	it("drops malformed entries", () => {
+		expect(
+			sanitizeGuides([
+				null,
+				"x",
+				{ id: "a", axis: "z", position: 1 },
+				{ id: "b", axis: "x", position: "1" },
+				{ id: "c", axis: "y", position: Number.NaN },
+				{ id: "d", axis: "y", position: Number.POSITIVE_INFINITY },
+				{ id: "e", axis: "x", position: 5 },
+			]),
+		).toEqual([{ id: "e", axis: "x", position: 5 }]);
+	});
+
+	it("gives guides without an id a fresh one", () => {
+		const [guide] = sanitizeGuides([{ axis: "x", position: 5 }]);
+		expect(guide?.id).toEqual(expect.any(String));
+	});
+
+	it("drops a repeat of the same line", () => {
+		expect(
+			sanitizeGuides([
+				{ id: "a", axis: "x", position: 5 },
+				{ id: "b", axis: "x", position: 5 },
+				{ id: "c", axis: "y", position: 5 },
+			]),
+		).toEqual([
+			{ id: "a", axis: "x", position: 5 },
+			{ id: "c", axis: "y", position: 5 },
+		]);
+	});
+
+	it("replaces an id that repeats", () => {
+		const result = sanitizeGuides([
+			{ id: "a", axis: "x", position: 5 },
+			{ id: "a", axis: "x", position: 6 },
+		]);
+		expect(result).toHaveLength(2);
+		expect(result[0]?.id).toBe("a");
+		expect(result[1]?.id).not.toBe("a");
+	});
+});
+
+describe("useGuidesStore", () => {
+	beforeEach(() => {
+		guides().setGuides([]);
+	});
+
+	it("adds, moves and removes guides", () => {
+		const id = guides().addGuide("x", 10);
+		expect(guides().guides).toEqual([{ id, axis: "x", position: 10 }]);
+
+		guides().moveGuide(id, 30);
+		expect(guides().guides[0]?.position).toBe(30);
+
+		guides().removeGuide(id);
+		expect(guides().guides).toEqual([]);
+	});
+
+	it("gives each new guide its own id", () => {
+		const first = guides().addGuide("x", 10);
+		const second = guides().addGuide("x", 10);
+		expect(first).not.toBe(second);
+	});
+
+	it("persists view settings but not the guides", () => {
+		guides().addGuide("y", 40);
+		guides().setGrid({ mode: "thirds" });
+		guides().setSnapToGrid(true);
+		const stored = JSON.parse(
+			localStorage.getItem("jx3-photo-maker:guides") ?? "{}",
+		);
+		expect(stored.state).toEqual({
+			rulersVisible: false,
+			grid: expect.objectContaining({ mode: "thirds" }),
+			snapToGrid: true,
+		});
+	});
+});
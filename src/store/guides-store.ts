@@ -0,0 +1,118 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+export type GuideAxis = "x" | "y";
+
+/** A user guide in image pixels: a vertical line for "x", horizontal for "y" */
+export interface UserGuide {
+	id: string;
+	axis: GuideAxis;
+	position: number;
+}
+
+export type GridMode = "off" | "thirds" | "divisions" | "pitch";
+
+export interface GridSettings {
+	mode: GridMode;
+	columns: number;
+	rows: number;
+	/** Cell size in image pixels for the "pitch" mode */
+	pitch: number;
+}
+
+const DEFAULT_GRID: GridSettings = {
+	mode: "off",
+	columns: 4,
+	rows: 4,
+	pitch: 50,
+};
+
+interface GuidesState {
+	/** Belongs to the current image and is saved in project files */
+	guides: UserGuide[];
+	setGuides: (guides: UserGuide[]) => void;
+	addGuide: (axis: GuideAxis, position: number) => string;
+	moveGuide: (id: string, position: number) => void;
+	removeGuide: (id: string) => void;
+	rulersVisible: boolean;
+	setRulersVisible: (visible: boolean) => void;
+	grid: GridSettings;
+	setGrid: (grid: Partial<GridSettings>) => void;
+	snapToGrid: boolean;
+	setSnapToGrid: (snap: boolean) => void;
+}
+
+let guideSeq = 0;
+
+function createGuideId() {
+	guideSeq += 1;
+	return `guide-${Date.now().toString(36)}-${guideSeq}`;
+}
+
+export const useGuidesStore = create<GuidesState>()(
+	persist(
+		(set) => ({
+			guides: [],
+			setGuides: (guides) => set({ guides }),
+			addGuide: (axis, position) => {
+				const id = createGuideId();
+				set((state) => ({
+					guides: [...state.guides, { id, axis, position }],
+				}));
+				return id;
+			},
+			moveGuide: (id, position) =>
+				set((state) => ({
+					guides: state.guides.map((guide) =>
+						guide.id === id ? { ...guide, position } : guide,
+					),
+				})),
+			removeGuide: (id) =>
+				set((state) => ({
+					guides: state.guides.filter((guide) => guide.id !== id),
+				})),
+
+			rulersVisible: false,
+			setRulersVisible: (rulersVisible) => set({ rulersVisible }),
+			grid: DEFAULT_GRID,
+			setGrid: (partial) =>
+				set((state) => ({ grid: { ...state.grid, ...partial } })),
+			snapToGrid: false,
+			setSnapToGrid: (snapToGrid) => set({ snapToGrid }),
+		}),
+		{
+			name: "jx3-photo-maker:guides",
+			// Guides travel with the project; only view preferences persist here
+			partialize: (state) => ({
+				rulersVisible: state.rulersVisible,
+				grid: state.grid,
+				snapToGrid: state.snapToGrid,
+			}),
+		},
+	),
+);
+
+/**
+ * Guides restored from a project file, with malformed entries and repeats of
+ * the same line dropped. Ids that repeat are replaced so each stays unique.
+ */
+export function sanitizeGuides(value: unknown): UserGuide[] {
+	if (!Array.isArray(value)) return [];
+	const ids = new Set<string>();
+	const lines = new Set<string>();
+	return value.flatMap((entry): UserGuide[] => {
+		const guide = entry as Partial<UserGuide> | null;
+		if (!guide || (guide.axis !== "x" && guide.axis !== "y")) return [];
+		if (typeof guide.position !== "number") return [];
+		if (!Number.isFinite(guide.position)) return [];
+		const line = `${guide.axis}:${guide.position}`;
+		if (lines.has(line)) return [];
+		lines.add(line);
+		const id =
+			typeof guide.id === "string" && !ids.has(guide.id)
+				? guide.id
+				: createGuideId();
+		ids.add(id);
+		return [{ id, axis: guide.axis, position: guide.position }];
+	});
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useHistoryStore } from "@/store/history-store";
+
+const history = () => useHistoryStore.getState();
+const states = () => history().entries.map((entry) => entry.state);
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	history().reset("打开", "0");
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("commit", () => {
+	it("skips a state equal to the current one", () => {
+		history().commit("移动", "0");
+		expect(states()).toEqual(["0"]);
+	});
+
+	it("drops the redo branch", () => {
+		history().commit("a", "1");
+		history().commit("b", "2");
+		history().undo();
+		history().commit("c", "3");
+		expect(states()).toEqual(["0", "1", "3"]);
+		expect(history().canRedo).toBe(false);
+	});
+});
+
+describe("coalescing", () => {
+	it("merges quick commits with the same key", () => {
+		history().commit("移动", "1", "move");
+		vi.advanceTimersByTime(500);
+		history().commit("移动", "2", "move");
+		expect(states()).toEqual(["0", "2"]);
+		expect(history().index).toBe(1);
+	});
+
+	it("keeps commits apart once the window has passed", () => {
+		history().commit("移动", "1", "move");
+		vi.advanceTimersByTime(1000);
+		history().commit("移动", "2", "move");
+		expect(states()).toEqual(["0", "1", "2"]);
+	});
+
+	it("keeps commits with different keys apart", () => {
+		history().commit("移动", "1", "move");
+		history().commit("缩放", "2", "scale");
+		expect(states()).toEqual(["0", "1", "2"]);
+	});
+});
+
+describe("trimming", () => {
+	it("keeps at most 100 entries, dropping the oldest", () => {
+		for (let i = 1; i <= 120; i++) history().commit("a", String(i));
+		expect(history().entries).toHaveLength(100);
+		expect(states()[0]).toBe("21");
+		expect(history().index).toBe(99);
+		expect(history().canRedo).toBe(false);
+	});
+
+	it("drops the oldest entries once the size budget is spent", () => {
+		const big = (char: string) => char.repeat(5 * 1024 * 1024);
+		history().commit("a", big("a"));
+		history().commit("b", big("b"));
+		history().commit("c", big("c"));
+		expect(states().map((state) => state[0])).toEqual(["b", "c"]);
+		expect(history().index).toBe(1);
+	});
+
+	it("always keeps the newest entry", () => {
+		history().commit("a", "x".repeat(13 * 1024 * 1024));
+		expect(history().entries).toHaveLength(1);
+		expect(history().index).toBe(0);
+	});
+});
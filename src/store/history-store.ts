@@ -0,0 +1,103 @@
+import { create } from "zustand";
+
+export interface HistoryEntry {
+	label: string;
+	/** Serialised CanvasSnapshot */
+	state: string;
+	coalesceKey?: string;
+	time: number;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+/** Rough budget in UTF-16 code units (~2 bytes each) */
+const MAX_HISTORY_SIZE = 12 * 1024 * 1024;
+const COALESCE_WINDOW_MS = 800;
+
+interface HistoryState {
+	entries: HistoryEntry[];
+	index: number;
+	canUndo: boolean;
+	canRedo: boolean;
+	reset: (label: string, state: string) => void;
+	commit: (label: string, state: string, coalesceKey?: string) => void;
+	undo: () => HistoryEntry | null;
+	redo: () => HistoryEntry | null;
+}
+
+/** Drops the oldest entries until the rest fit the count and size budgets. */
+function trimEntries(
+	entries: HistoryEntry[],
+	index: number,
+): { entries: HistoryEntry[]; index: number } {
+	let size = entries.reduce((sum, entry) => sum + entry.state.length, 0);
+	let start = 0;
+	while (
+		entries.length - start > 1 &&
+		(entries.length - start > MAX_HISTORY_ENTRIES || size > MAX_HISTORY_SIZE)
+	) {
+		size -= entries[start]?.state.length ?? 0;
+		start += 1;
+	}
+	return {
+		entries: start ? entries.slice(start) : entries,
+		index: Math.max(0, index - start),
+	};
+}
+
+function withFlags(entries: HistoryEntry[], index: number) {
+	return {
+		entries,
+		index,
+		canUndo: index > 0,
+		canRedo: index < entries.length - 1,
+	};
+}
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+	entries: [],
+	index: -1,
+	canUndo: false,
+	canRedo: false,
+
+	reset: (label, state) =>
+		set(withFlags([{ label, state, time: Date.now() }], 0)),
+
+	commit: (label, state, coalesceKey) => {
+		const { entries, index } = get();
+		const current = entries[index];
+		if (current?.state === state) return;
+
+		const now = Date.now();
+		const base = entries.slice(0, index + 1);
+		const canCoalesce =
+			!!coalesceKey &&
+			index > 0 &&
+			index === entries.length - 1 &&
+			current?.coalesceKey === coalesceKey &&
+			now - current.time < COALESCE_WINDOW_MS;
+
+		const entry: HistoryEntry = { label, state, coalesceKey, time: now };
+		if (canCoalesce) {
+			base[base.length - 1] = entry;
+			set(withFlags(base, index));
+			return;
+		}
+
+		const trimmed = trimEntries([...base, entry], base.length);
+		set(withFlags(trimmed.entries, trimmed.index));
+	},
+
+	undo: () => {
+		const { entries, index } = get();
+		if (index <= 0) return null;
+		set(withFlags(entries, index - 1));
+		return entries[index - 1] ?? null;
+	},
+
+	redo: () => {
+		const { entries, index } = get();
+		if (index >= entries.length - 1) return null;
+		set(withFlags(entries, index + 1));
+		return entries[index + 1] ?? null;
+	},
+}));
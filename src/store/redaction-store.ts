@@ -0,0 +1,24 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_REDACTION_STYLE, type RedactionStyle } from "@/lib/redaction";
+
+interface RedactionState {
+	/** Style of new regions, updated whenever a region is restyled */
+	style: RedactionStyle;
+	setStyle: (style: Partial<RedactionStyle>) => void;
+	brushWidth: number;
+	setBrushWidth: (brushWidth: number) => void;
+}
+
+export const useRedactionStore = create<RedactionState>()(
+	persist(
+		(set) => ({
+			style: DEFAULT_REDACTION_STYLE,
+			setStyle: (style) =>
+				set((state) => ({ style: { ...state.style, ...style } })),
+			brushWidth: 40,
+			setBrushWidth: (brushWidth) => set({ brushWidth }),
+		}),
+		{ name: "jx3-photo-maker:redaction" },
+	),
+);
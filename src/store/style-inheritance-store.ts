@@ -1,9 +1,12 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import {
+	DEFAULT_TEXT_EFFECTS,
+	legacyTextEffects,
+	type TextEffect,
+} from "@/lib/text-effects";
 import { DEFAULT_FONT_FAMILY } from "./font-store";
 
-export type StrokeStyle = "outline" | "shadow" | "hybrid";
-
 export interface InheritedTextStyle {
 	fontFamily: string;
 	fontSize: number;
@@ -13,10 +16,15 @@ export interface InheritedTextStyle {
 	vertical: boolean;
 	scaleX: number;
 	scaleY: number;
-	strokeEnabled: boolean;
-	strokeStyle: StrokeStyle;
-	strokeColor: string;
-	strokeWidth: number;
+	effects: TextEffect[];
+}
+
+/** Version 0 stored a single stroke mode instead of an effect stack */
+interface LegacyInheritedStroke {
+	strokeEnabled?: boolean;
+	strokeStyle?: "outline" | "shadow" | "hybrid";
+	strokeColor?: string;
+	strokeWidth?: number;
 }
 
 const DEFAULT_INHERITED_STYLE: InheritedTextStyle = {
@@ -28,12 +36,30 @@ const DEFAULT_INHERITED_STYLE: InheritedTextStyle = {
 	vertical: true,
 	scaleX: 1,
 	scaleY: 1,
-	strokeEnabled: true,
-	strokeStyle: "outline",
-	strokeColor: "#ffffff",
-	strokeWidth: 14,
+	effects: DEFAULT_TEXT_EFFECTS,
 };
 
+function migrateLegacyStroke({
+	strokeEnabled,
+	strokeStyle = "outline",
+	strokeColor = "#ffffff",
+	strokeWidth = 14,
+}: LegacyInheritedStroke): TextEffect[] {
+	if (!strokeEnabled) return [];
+	// Same widths and blurs the single stroke modes used to produce
+	const hybrid = strokeStyle === "hybrid";
+	return legacyTextEffects({
+		stroke: strokeStyle === "shadow" ? null : strokeColor,
+		strokeWidth: hybrid
+			? Math.max(1, Math.round(strokeWidth * 0.6))
+			: strokeWidth,
+		shadowColor: strokeStyle === "outline" ? null : strokeColor,
+		shadowBlur: hybrid
+			? Math.max(2, Math.round(strokeWidth * 1.8 + 1))
+			: Math.max(4, Math.round(strokeWidth * 3.2)),
+	});
+}
+
 interface StyleInheritanceStore {
 	inheritedStyle: InheritedTextStyle;
 	setInheritedStyle: (style: Partial<InheritedTextStyle>) => void;
@@ -54,6 +80,21 @@ export const useStyleInheritanceStore = create<StyleInheritanceStore>()(
 		}),
 		{
 			name: "jx3-photo-maker:style-inheritance",
+			version: 1,
+			migrate: (persisted, version) => {
+				const state = persisted as {
+					inheritedStyle?: InheritedTextStyle & LegacyInheritedStroke;
+				};
+				const legacy = state.inheritedStyle;
+				if (version < 1 && legacy) {
+					legacy.effects = migrateLegacyStroke(legacy);
+					delete legacy.strokeEnabled;
+					delete legacy.strokeStyle;
+					delete legacy.strokeColor;
+					delete legacy.strokeWidth;
+				}
+				return persisted as StyleInheritanceStore;
+			},
 		},
 	),
 );
@@ -0,0 +1,32 @@
+import { vi } from "vitest";
+
+// Nothing is served under test; the font store's manifest request gets a 404
+vi.stubGlobal("fetch", async () => new Response(null, { status: 404 }));
+
+/** Advance of every character, in pixels per pixel of font size */
+const CHAR_ADVANCE = 0.5;
+
+// jsdom has no 2D canvas, so texts measure every character at one advance
+function createMeasuringContext(): CanvasRenderingContext2D {
+	let fontSize = 16;
+	const state: Record<PropertyKey, unknown> = {
+		canvas: document.createElement("canvas"),
+		measureText: (text: string) => ({
+			width: Array.from(text).length * fontSize * CHAR_ADVANCE,
+		}),
+	};
+	return new Proxy(state, {
+		get: (target, key) => (key in target ? target[key] : () => {}),
+		set: (target, key, value) => {
+			if (key === "font") {
+				fontSize = Number(/(\d+)px/.exec(value)?.[1] ?? fontSize);
+			}
+			target[key] = value;
+			return true;
+		},
+	}) as unknown as CanvasRenderingContext2D;
+}
+
+HTMLCanvasElement.prototype.getContext = function () {
+	return createMeasuringContext();
+} as unknown as HTMLCanvasElement["getContext"];